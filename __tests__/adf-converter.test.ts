@@ -0,0 +1,128 @@
+import { describe, it, expect } from '@jest/globals';
+
+import type { AdfDocument, AdfNode } from '../src/types/index.js';
+import {
+  convertAdfToMarkdown,
+  convertMarkdownToAdf,
+  convertStorageToAdf,
+} from '../src/utils/adf-converter.js';
+
+function doc(...content: AdfNode[]): AdfDocument {
+  return { type: 'doc', version: 1, content };
+}
+
+function paragraph(...content: AdfNode[]): AdfNode {
+  return { type: 'paragraph', content };
+}
+
+function withoutLocalIds(node: AdfNode): AdfNode {
+  const { attrs, content, ...rest } = node;
+  const { localId, ...otherAttrs } = attrs || {};
+  return {
+    ...rest,
+    ...(attrs && Object.keys(otherAttrs).length > 0 && { attrs: otherAttrs }),
+    ...(content && { content: content.map(withoutLocalIds) }),
+  };
+}
+
+describe('convertAdfToMarkdown', () => {
+  it('renders headings, marks and links', () => {
+    const markdown = convertAdfToMarkdown(
+      doc(
+        { type: 'heading', attrs: { level: 2 }, content: [{ type: 'text', text: 'Overview' }] },
+        paragraph(
+          { type: 'text', text: 'Read ' },
+          { type: 'text', text: 'the docs', marks: [{ type: 'strong' }] },
+          { type: 'text', text: ' at ' },
+          {
+            type: 'text',
+            text: 'example',
+            marks: [{ type: 'link', attrs: { href: 'https://example.com' } }],
+          }
+        )
+      )
+    );
+
+    expect(markdown).toBe('## Overview\n\nRead **the docs** at [example](https://example.com)');
+  });
+
+  it('renders ADF-only nodes as macro directives', () => {
+    const markdown = convertAdfToMarkdown(
+      doc(
+        {
+          type: 'panel',
+          attrs: { panelType: 'warning' },
+          content: [paragraph({ type: 'text', text: 'Careful' })],
+        },
+        paragraph(
+          { type: 'text', text: 'State: ' },
+          { type: 'status', attrs: { text: 'DONE', color: 'green' } }
+        )
+      )
+    );
+
+    expect(markdown).toBe(
+      ':::warning\nCareful\n:::\n\nState: :status{title="DONE" colour="Green"}'
+    );
+  });
+
+  it('renders code blocks as fenced code', () => {
+    const markdown = convertAdfToMarkdown(
+      doc({
+        type: 'codeBlock',
+        attrs: { language: 'ts' },
+        content: [{ type: 'text', text: 'const a = 1;' }],
+      })
+    );
+
+    expect(markdown).toBe('```ts\nconst a = 1;\n```');
+  });
+});
+
+describe('convertMarkdownToAdf', () => {
+  it('builds a document from Markdown', () => {
+    const document = convertMarkdownToAdf('# Title\n\n- one\n- two');
+
+    expect(withoutLocalIds(document)).toEqual({
+      type: 'doc',
+      version: 1,
+      content: [
+        { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'Title' }] },
+        {
+          type: 'bulletList',
+          content: [
+            { type: 'listItem', content: [paragraph({ type: 'text', text: 'one' })] },
+            { type: 'listItem', content: [paragraph({ type: 'text', text: 'two' })] },
+          ],
+        },
+      ],
+    });
+  });
+
+  it.each([
+    ':::info{title="Heads up"}\nSomething to know\n:::',
+    'Status: :status{title="DONE" colour="Green"}',
+    '- [ ] open\n- [x] done',
+    '| A | B |\n| --- | --- |\n| 1 | 2 |',
+    '```python\nprint("hi")\n```',
+  ])('round trips %p through ADF', (markdown) => {
+    expect(convertAdfToMarkdown(convertMarkdownToAdf(markdown))).toBe(markdown);
+  });
+});
+
+describe('convertStorageToAdf', () => {
+  it('maps macros without an ADF counterpart to extensions', () => {
+    const document = convertStorageToAdf(
+      '<ac:structured-macro ac:name="toc" ac:schema-version="1"><ac:parameter ac:name="maxLevel">3</ac:parameter></ac:structured-macro>'
+    );
+
+    expect(document.content[0]).toMatchObject({
+      type: 'extension',
+      attrs: {
+        extensionType: 'com.atlassian.confluence.macro.core',
+        extensionKey: 'toc',
+        parameters: { macroParams: { maxLevel: { value: '3' } } },
+      },
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+
+import { ConfluenceError } from '../src/types/index.js';
+
+type AsyncMock = jest.Mock<(...args: any[]) => Promise<any>>;
+
+const client = {
+  getBlogPosts: jest.fn() as AsyncMock,
+  getBlogPost: jest.fn() as AsyncMock,
+  getBlogPostVersion: jest.fn() as AsyncMock,
+  updateBlogPost: jest.fn() as AsyncMock,
+  buildUpdateBlogPostRequest: jest.fn(),
+};
+
+jest.mock('../src/utils/tool-wrapper.js', () => ({
+  withConfluenceContext: (args: any, _options: any, handler: any) =>
+    handler(args, { client, instanceName: 'test' }),
+}));
+
+import { handleListBlogPosts, handleUpdateBlogPost } from '../src/handlers/blogpost-handlers.js';
+
+const post = (id: string, createdAt: string, body = '<p>Hello</p>', version = 3) => ({
+  id,
+  title: `Post ${id}`,
+  spaceId: '1',
+  createdAt,
+  status: { value: 'current' },
+  version: { number: version },
+  body: { storage: { value: body } },
+  _links: { webui: `/blogposts/${id}` },
+});
+
+function parse(response: { content: { text: string }[] }) {
+  return JSON.parse(response.content[0].text);
+}
+
+describe('handleListBlogPosts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('never returns more than limit posts for a date range', async () => {
+    client.getBlogPosts
+      .mockResolvedValueOnce({
+        results: [post('1', '2024-05-03T10:00:00Z'), post('2', '2024-06-20T10:00:00Z')],
+        _links: { next: '/wiki/api/v2/blogposts?cursor=a' },
+      })
+      .mockResolvedValueOnce({
+        results: [post('3', '2024-05-02T10:00:00Z')],
+        _links: { next: '/wiki/api/v2/blogposts?cursor=b' },
+      });
+
+    const result = parse(
+      await handleListBlogPosts({ spaceId: '1', from: '2024-05-01', to: '2024-05-31', limit: 2 })
+    );
+
+    expect(client.getBlogPosts).toHaveBeenNthCalledWith(
+      1,
+      '1',
+      expect.objectContaining({ limit: 2 })
+    );
+    expect(client.getBlogPosts).toHaveBeenNthCalledWith(
+      2,
+      '1',
+      expect.objectContaining({ limit: 1, cursor: 'a' })
+    );
+    expect(result.results.map((item: { id: string }) => item.id)).toEqual(['1', '3']);
+    expect(result.cursor).toBe('b');
+  });
+});
+
+describe('handleUpdateBlogPost', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('adds a change summary to the version message', async () => {
+    client.getBlogPost.mockResolvedValue(post('5', '2024-05-03T10:00:00Z'));
+    client.updateBlogPost.mockResolvedValue(post('5', '2024-05-03T10:00:00Z', '', 4));
+
+    await handleUpdateBlogPost({
+      blogPostId: '5',
+      title: 'Post 5',
+      content: '<p>Hello</p><p>More</p>',
+      version: 4,
+      versionMessage: 'Expand',
+      autoSummary: true,
+    });
+
+    const versionOptions = client.updateBlogPost.mock.calls[0][5] as { message: string };
+    expect(versionOptions.message).toBe('Expand (+2 -0 lines)');
+  });
+
+  it('merges an update written against an older version', async () => {
+    client.updateBlogPost
+      .mockRejectedValueOnce(new ConfluenceError('Version mismatch', 'VERSION_CONFLICT'))
+      .mockResolvedValueOnce(post('5', '2024-05-03T10:00:00Z', '', 5));
+    client.getBlogPost.mockResolvedValue(
+      post('5', '2024-05-03T10:00:00Z', '<p>Intro</p><p>Theirs</p>', 4)
+    );
+    client.getBlogPostVersion.mockResolvedValue(
+      post('5', '2024-05-03T10:00:00Z', '<p>Intro</p>', 3)
+    );
+
+    const result = parse(
+      await handleUpdateBlogPost({
+        blogPostId: '5',
+        title: 'Post 5',
+        content: '<p>Ours</p><p>Intro</p>',
+        version: 4,
+      })
+    );
+
+    expect(client.getBlogPostVersion).toHaveBeenCalledWith('5', 3);
+    expect(client.updateBlogPost).toHaveBeenLastCalledWith(
+      '5',
+      'Post 5',
+      '<p>Ours</p><p>Intro</p><p>Theirs</p>',
+      5,
+      'storage',
+      expect.anything()
+    );
+    expect(result.merged).toBe(true);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { composeVersionMessage, summarizeChange } from '../src/utils/change-summary.js';
+
+describe('summarizeChange', () => {
+  const before = {
+    title: 'Guide',
+    markdown: '# Setup\n\nInstall it.\n\n## Install\n\nRun the installer.\n\n# Usage\n\nUse it.',
+  };
+
+  it('counts changed lines and names the sections they are in', () => {
+    const after = {
+      title: 'Guide',
+      markdown: before.markdown
+        .replace('Run the installer.', 'Run the installer.\nThen restart.')
+        .replace('Use it.', 'Use it daily.'),
+    };
+
+    expect(summarizeChange(before, after)).toBe('+2 -1 lines in "Install", "Usage"');
+  });
+
+  it('mentions renames and unchanged content', () => {
+    expect(summarizeChange(before, { ...before, title: 'Handbook' })).toBe('Renamed from "Guide"');
+    expect(summarizeChange(before, before)).toBe('No content changes');
+  });
+});
+
+describe('composeVersionMessage', () => {
+  it('appends the summary to a given message', () => {
+    expect(composeVersionMessage('Fix typo', '+1 -1 lines')).toBe('Fix typo (+1 -1 lines)');
+    expect(composeVersionMessage(undefined, '+1 -1 lines')).toBe('+1 -1 lines');
+    expect(composeVersionMessage()).toBeUndefined();
+  });
+});
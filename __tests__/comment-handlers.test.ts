@@ -0,0 +1,85 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+
+type AsyncMock = jest.Mock<(...args: any[]) => Promise<any>>;
+
+const client = {
+  getConfluencePage: jest.fn() as AsyncMock,
+  getPageComments: jest.fn() as AsyncMock,
+  getCommentReplies: jest.fn() as AsyncMock,
+  buildCreateCommentRequest: jest.fn((...args: any[]) => ({ args })),
+};
+
+jest.mock('../src/utils/tool-wrapper.js', () => ({
+  withConfluenceContext: (args: any, _options: any, handler: any) =>
+    handler(args, { client, instanceName: 'test' }),
+}));
+
+import { handleAddPageComment, handleListPageComments } from '../src/handlers/comment-handlers.js';
+
+function parseResponse(response: any) {
+  return JSON.parse(response.content[0].text);
+}
+
+const comment = (id: string) => ({
+  id,
+  version: { number: 1, authorId: 'u1', createdAt: '2024-01-01T00:00:00Z' },
+  body: { storage: { value: `<p>Comment ${id}</p>` } },
+  _links: { webui: `/comments/${id}` },
+});
+
+describe('comment handlers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('counts highlight matches in the rendered text only', async () => {
+    client.getConfluencePage.mockResolvedValue({
+      body: {
+        storage: {
+          value:
+            '<p>deploy the service</p>' +
+            '<ac:structured-macro ac:name="code"><ac:parameter ac:name="title">deploy</ac:parameter>' +
+            '<ac:plain-text-body><![CDATA[deploy --prod]]></ac:plain-text-body></ac:structured-macro>' +
+            '<p>then deploy again</p>',
+        },
+      },
+    });
+
+    await handleAddPageComment({
+      pageId: '42',
+      content: 'Which environment?',
+      highlightedText: 'deploy',
+      matchIndex: 1,
+      dryRun: true,
+    });
+
+    expect(client.buildCreateCommentRequest).toHaveBeenCalledWith(
+      'inline',
+      { pageId: '42' },
+      expect.any(String),
+      { text: 'deploy', matchCount: 2, matchIndex: 1 }
+    );
+  });
+
+  it('loads reply threads one request at a time', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    client.getPageComments.mockResolvedValue({
+      results: [comment('1'), comment('2'), comment('3')],
+      _links: {},
+    });
+    client.getCommentReplies.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setImmediate(resolve));
+      inFlight--;
+      return { results: [], _links: {} };
+    });
+
+    const result = parseResponse(await handleListPageComments({ pageId: '42', type: 'footer' }));
+
+    expect(result.footer.map((thread: any) => thread.id)).toEqual(['1', '2', '3']);
+    expect(client.getCommentReplies).toHaveBeenCalledTimes(3);
+    expect(maxInFlight).toBe(1);
+  });
+});
@@ -0,0 +1,163 @@
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+
+const createMock = jest.fn();
+const getMock = jest.fn<(...args: any[]) => Promise<any>>();
+const postMock = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { create: createMock, get: getMock, post: postMock },
+  create: createMock,
+  get: getMock,
+  post: postMock,
+  isAxiosError: () => false,
+}));
+
+import {
+  createConfluenceApiInstance,
+  createConfluenceApiV1Instance,
+} from '../src/utils/confluence-api.js';
+import { clearTokenCache } from '../src/utils/oauth.js';
+
+process.env.CONFLUENCE_TOKEN_STORE = join(
+  mkdtempSync(join(tmpdir(), 'confluence-api-test-')),
+  'tokens.json'
+);
+
+describe('createConfluenceApiInstance', () => {
+  let requestInterceptors: Array<(request: any) => Promise<any>>;
+  let responseErrorHandlers: Array<(error: any) => Promise<any>>;
+  let replayMock: jest.Mock<(request: any) => Promise<any>>;
+
+  beforeEach(() => {
+    createMock.mockReset();
+    getMock.mockReset();
+    postMock.mockReset();
+    clearTokenCache();
+    requestInterceptors = [];
+    responseErrorHandlers = [];
+    replayMock = jest.fn<(request: any) => Promise<any>>();
+    createMock.mockImplementation(() => ({
+      request: replayMock,
+      interceptors: {
+        request: {
+          use: (interceptor: (request: any) => Promise<any>) => {
+            requestInterceptors.push(interceptor);
+          },
+        },
+        response: {
+          use: (_onFulfilled: unknown, onRejected: (error: any) => Promise<any>) => {
+            responseErrorHandlers.push(onRejected);
+          },
+        },
+      },
+    }));
+  });
+
+  it('uses basic auth against the site for API token instances', () => {
+    createConfluenceApiInstance({
+      domain: 'example.atlassian.net',
+      auth: { type: 'basic', email: 'user@example.com', apiToken: 'token' },
+    });
+
+    const config = createMock.mock.calls[0][0] as any;
+    expect(config.baseURL).toBe('https://example.atlassian.net/wiki/api/v2');
+    expect(config.headers.Authorization).toBe(
+      `Basic ${Buffer.from('user@example.com:token').toString('base64')}`
+    );
+    expect(requestInterceptors).toHaveLength(0);
+  });
+
+  it('sends a Bearer token through the gateway when the cloudId is configured', () => {
+    createConfluenceApiV1Instance({
+      domain: 'example.atlassian.net',
+      cloudId: 'cloud-123',
+      auth: { type: 'oauth2', accessToken: 'access' },
+    });
+
+    const config = createMock.mock.calls[0][0] as any;
+    expect(config.baseURL).toBe('https://api.atlassian.com/ex/confluence/cloud-123/wiki/rest/api');
+    expect(config.headers.Authorization).toBe('Bearer access');
+    expect(config.headers['X-Atlassian-Token']).toBe('no-check');
+  });
+
+  it('resolves the cloudId from the accessible resources before the first request', async () => {
+    getMock.mockResolvedValue({
+      data: [
+        { id: 'other', url: 'https://other.atlassian.net', name: 'other', scopes: [] },
+        { id: 'cloud-456', url: 'https://resolve.atlassian.net', name: 'resolve', scopes: [] },
+      ],
+    });
+
+    createConfluenceApiInstance({
+      domain: 'resolve.atlassian.net',
+      auth: { type: 'oauth2', accessToken: 'access' },
+    });
+
+    expect(requestInterceptors).toHaveLength(1);
+    const request = await requestInterceptors[0]({ url: '/pages', headers: {} });
+
+    expect(getMock).toHaveBeenCalledWith(
+      'https://api.atlassian.com/oauth/token/accessible-resources',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer access' }),
+      })
+    );
+    expect(request.baseURL).toBe('https://api.atlassian.com/ex/confluence/cloud-456/wiki/api/v2');
+  });
+
+  it('reports sites the token cannot access', async () => {
+    getMock.mockResolvedValue({
+      data: [{ id: 'other', url: 'https://other.atlassian.net', name: 'other', scopes: [] }],
+    });
+
+    createConfluenceApiInstance({
+      domain: 'missing.atlassian.net',
+      auth: { type: 'oauth2', accessToken: 'access' },
+    });
+
+    await expect(requestInterceptors[0]({ url: '/pages', headers: {} })).rejects.toMatchObject({
+      code: 'CLOUD_ID_NOT_FOUND',
+    });
+  });
+
+  it('refreshes the access token on a 401 and replays the request', async () => {
+    postMock.mockResolvedValue({
+      data: { access_token: 'fresh', refresh_token: 'rotated', expires_in: 3600 },
+    });
+    replayMock.mockResolvedValue({ status: 200 });
+
+    const config = {
+      domain: 'refresh.atlassian.net',
+      cloudId: 'cloud-789',
+      auth: {
+        type: 'oauth2' as const,
+        accessToken: 'stale',
+        refreshToken: 'refresh',
+        clientId: 'client',
+        clientSecret: 'secret',
+      },
+    };
+    createConfluenceApiInstance(config);
+
+    const request = await requestInterceptors[0]({ url: '/pages', headers: {} });
+    expect(request.headers.Authorization).toBe('Bearer stale');
+
+    await responseErrorHandlers[0]({ config: request, response: { status: 401 } });
+
+    expect(postMock).toHaveBeenCalledTimes(1);
+    expect(replayMock).toHaveBeenCalledWith(
+      expect.objectContaining({ url: '/pages', _retriedAfterRefresh: true })
+    );
+    expect(config.auth.accessToken).toBe('fresh');
+
+    // A second 401 for the replayed request is not retried again
+    await expect(
+      responseErrorHandlers[0]({ config: request, response: { status: 401 } })
+    ).rejects.toMatchObject({ response: { status: 401 } });
+  });
+});
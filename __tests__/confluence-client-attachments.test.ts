@@ -0,0 +1,66 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { setupClient } from './helpers/mock-axios.js';
+
+describe('ConfluenceClient attachment operations', () => {
+  it('lists page attachments filtered by filename', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockResolvedValue({ data: { results: [], _links: {} } });
+
+    await client.getPageAttachments('42', { filename: 'diagram.png' });
+
+    expect(mockV2.get).toHaveBeenCalledWith('/pages/42/attachments', {
+      params: { limit: 25, cursor: undefined, filename: 'diagram.png', mediaType: undefined },
+    });
+  });
+
+  it('downloads attachment content as a buffer', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({ data: new TextEncoder().encode('hello').buffer });
+
+    const data = await client.downloadAttachment('42', 'att9');
+
+    expect(mockV1.get).toHaveBeenCalledWith('/content/42/child/attachment/att9/download', {
+      responseType: 'arraybuffer',
+    });
+    expect(data.toString('utf8')).toBe('hello');
+  });
+
+  it('uploads files as multipart form data with the XSRF opt-out header', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.put.mockResolvedValue({
+      data: {
+        results: [
+          {
+            id: 'att9',
+            title: 'notes.txt',
+            version: { number: 2 },
+            extensions: { mediaType: 'text/plain', fileSize: 5 },
+          },
+        ],
+      },
+    });
+
+    const result = await client.uploadAttachment(
+      '42',
+      { filename: 'notes.txt', data: Buffer.from('hello'), mediaType: 'text/plain' },
+      { comment: 'Second draft' }
+    );
+
+    const [path, form, config] = mockV1.put.mock.calls[0];
+    expect(path).toBe('/content/42/child/attachment');
+    expect(config).toEqual({
+      headers: { 'Content-Type': 'multipart/form-data', 'X-Atlassian-Token': 'no-check' },
+    });
+    expect((form as FormData).get('comment')).toBe('Second draft');
+    expect((form as FormData).get('minorEdit')).toBe('false');
+    expect(((form as FormData).get('file') as File).name).toBe('notes.txt');
+    expect(result).toEqual({
+      id: 'att9',
+      title: 'notes.txt',
+      version: 2,
+      mediaType: 'text/plain',
+      fileSize: 5,
+    });
+  });
+});
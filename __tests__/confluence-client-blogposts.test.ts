@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { setupClient } from './helpers/mock-axios.js';
+
+describe('ConfluenceClient blog post operations', () => {
+  it('lists the blog posts of a space', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockResolvedValue({ data: { results: [], _links: {} } });
+
+    await client.getBlogPosts('9', { sort: '-created-date' });
+
+    expect(mockV2.get).toHaveBeenCalledWith('/blogposts', {
+      params: {
+        'space-id': '9',
+        limit: 25,
+        cursor: undefined,
+        title: undefined,
+        status: undefined,
+        sort: '-created-date',
+      },
+    });
+  });
+
+  it('updates blog posts with the page update body on the blog post endpoint', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.put.mockResolvedValue({ data: { id: '5' } });
+
+    await client.updateBlogPost('5', 'Release notes', '<p>Hi</p>', 3, 'storage', {
+      message: 'Typo',
+    });
+
+    expect(mockV2.put).toHaveBeenCalledWith('/blogposts/5', {
+      id: '5',
+      status: 'current',
+      title: 'Release notes',
+      body: { representation: 'storage', value: '<p>Hi</p>' },
+      version: { number: 3, message: 'Typo', minorEdit: false },
+    });
+  });
+
+  it('moves current blog posts to the trash', async () => {
+    const { client, mockV2, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({ data: { id: '5', title: 'Notes', status: 'current' } });
+    mockV2.delete.mockResolvedValue({ data: {} });
+
+    const result = await client.deleteBlogPost('5');
+
+    expect(mockV2.delete).toHaveBeenCalledTimes(1);
+    expect(mockV2.delete).toHaveBeenCalledWith('/blogposts/5');
+    expect(result).toEqual({ id: '5', title: 'Notes', status: 'trashed' });
+  });
+
+  it('trashes a current blog post before purging it', async () => {
+    const { client, mockV2, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({ data: { id: '5', title: 'Notes', status: 'current' } });
+    mockV2.delete.mockResolvedValue({ data: {} });
+
+    const result = await client.deleteBlogPost('5', { purge: true });
+
+    expect(mockV1.get).toHaveBeenCalledWith('/content/5', { params: { status: 'any' } });
+    expect(mockV2.delete).toHaveBeenNthCalledWith(1, '/blogposts/5');
+    expect(mockV2.delete).toHaveBeenNthCalledWith(2, '/blogposts/5', {
+      params: { purge: 'true' },
+    });
+    expect(result.status).toBe('purged');
+  });
+
+  it('purges a trashed blog post directly', async () => {
+    const { client, mockV2, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({ data: { id: '5', title: 'Notes', status: 'trashed' } });
+    mockV2.delete.mockResolvedValue({ data: {} });
+
+    await client.deleteBlogPost('5', { purge: true });
+
+    expect(mockV2.delete).toHaveBeenCalledTimes(1);
+    expect(mockV2.delete).toHaveBeenCalledWith('/blogposts/5', { params: { purge: 'true' } });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from '@jest/globals';
+
+import type { PageComment } from '../src/types/index.js';
+import { setupClient } from './helpers/mock-axios.js';
+
+describe('ConfluenceClient comment operations', () => {
+  it('lists inline comments filtered by resolution status', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockResolvedValue({ data: { results: [], _links: {} } });
+
+    await client.getPageComments('42', 'inline', { resolutionStatus: 'open' });
+
+    expect(mockV2.get).toHaveBeenCalledWith('/pages/42/inline-comments', {
+      params: {
+        'body-format': 'storage',
+        limit: 25,
+        cursor: undefined,
+        'resolution-status': 'open',
+      },
+    });
+  });
+
+  it('creates inline comments anchored to the selected text', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.post.mockResolvedValue({ data: { id: '7' } });
+
+    await client.createComment('inline', { pageId: '42' }, '<p>Typo?</p>', {
+      text: 'teh',
+      matchCount: 2,
+      matchIndex: 1,
+    });
+
+    expect(mockV2.post).toHaveBeenCalledWith('/inline-comments', {
+      pageId: '42',
+      body: { representation: 'storage', value: '<p>Typo?</p>' },
+      inlineCommentProperties: {
+        textSelection: 'teh',
+        textSelectionMatchCount: 2,
+        textSelectionMatchIndex: 1,
+      },
+    });
+  });
+
+  it('resolves inline comments with the next version and the existing body', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.put.mockResolvedValue({ data: { id: '7', resolutionStatus: 'resolved' } });
+    const comment = {
+      id: '7',
+      version: { number: 2 },
+      body: { storage: { value: '<p>Typo?</p>', representation: 'storage' } },
+    } as PageComment;
+
+    await client.setInlineCommentResolved(comment, true);
+
+    expect(mockV2.put).toHaveBeenCalledWith('/inline-comments/7', {
+      version: { number: 3, message: 'Resolved' },
+      body: { representation: 'storage', value: '<p>Typo?</p>' },
+      resolved: true,
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { setupClient } from './helpers/mock-axios.js';
+
+describe('ConfluenceClient content tree operations', () => {
+  it('lists the direct children of each content type from its own endpoint', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockResolvedValue({
+      data: {
+        results: [{ id: '7', title: 'Designs', type: 'folder', status: 'current', spaceId: '1' }],
+        _links: {},
+      },
+    });
+
+    const children = await client.getTreeChildren('42');
+    await client.getTreeChildren('43', 'folder', { limit: 50, cursor: 'abc' });
+    await client.getTreeChildren('44', 'whiteboard');
+
+    expect(children.results[0].type).toBe('folder');
+    expect(mockV2.get).toHaveBeenNthCalledWith(1, '/pages/42/direct-children', {
+      params: { limit: 25, cursor: undefined },
+    });
+    expect(mockV2.get).toHaveBeenNthCalledWith(2, '/folders/43/direct-children', {
+      params: { limit: 50, cursor: 'abc' },
+    });
+    expect(mockV2.get).toHaveBeenNthCalledWith(3, '/whiteboards/44/direct-children', {
+      params: { limit: 25, cursor: undefined },
+    });
+  });
+
+  it('tags fetched content with its type', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockResolvedValue({ data: { id: '9', title: 'Roadmap', spaceId: '1' } });
+
+    const database = await client.getTreeContent('9', 'database');
+
+    expect(mockV2.get).toHaveBeenCalledWith('/databases/9');
+    expect(database.type).toBe('database');
+  });
+
+  it('creates a folder under a parent', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.post.mockResolvedValue({ data: { id: '11', title: 'Archive', spaceId: '1' } });
+
+    const folder = await client.createFolder('1', 'Archive', '42');
+
+    expect(mockV2.post).toHaveBeenCalledWith('/folders', {
+      spaceId: '1',
+      title: 'Archive',
+      parentId: '42',
+    });
+    expect(folder.type).toBe('folder');
+  });
+});
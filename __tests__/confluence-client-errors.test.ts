@@ -0,0 +1,48 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { ConfluenceError } from '../src/types/index.js';
+import { httpError, rejectThroughInterceptors, setupClient } from './helpers/mock-axios.js';
+
+describe('ConfluenceClient error mapping', () => {
+  it('maps a 409 on a page update to VERSION_CONFLICT', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.put.mockImplementation(() =>
+      rejectThroughInterceptors(
+        mockV2,
+        httpError(409, { message: 'Version must be incremented on update' })
+      )
+    );
+
+    const update = client.updateConfluencePage('42', 'Runbook', '<p>Hi</p>', 3);
+
+    await expect(update).rejects.toBeInstanceOf(ConfluenceError);
+    await expect(update).rejects.toMatchObject({
+      code: 'VERSION_CONFLICT',
+      message: 'Confluence API Error: Version must be incremented on update',
+    });
+  });
+
+  it('maps a 403 to PERMISSION_DENIED', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockImplementation(() =>
+      rejectThroughInterceptors(mockV2, httpError(403, { message: 'Not permitted' }))
+    );
+
+    await expect(client.getBlogPost('5')).rejects.toMatchObject({
+      code: 'PERMISSION_DENIED',
+      message: 'Confluence API Error: Not permitted',
+    });
+  });
+
+  it('reports other failures as plain API errors', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockImplementation(() =>
+      rejectThroughInterceptors(mockV2, httpError(500, { message: 'Internal failure' }))
+    );
+
+    const request = client.getBlogPost('5');
+
+    await expect(request).rejects.not.toBeInstanceOf(ConfluenceError);
+    await expect(request).rejects.toThrow('Confluence API Error: Internal failure');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { ConfluenceError } from '../src/types/index.js';
+import { setupClient } from './helpers/mock-axios.js';
+
+describe('ConfluenceClient content property operations', () => {
+  const existing = {
+    id: '77',
+    key: 'owners',
+    value: ['alice'],
+    version: { number: 3, createdAt: '2024-01-01T00:00:00Z', authorId: 'u1' },
+  };
+
+  it('creates a property that does not exist yet', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockResolvedValue({ data: { results: [], _links: {} } });
+    mockV2.post.mockResolvedValue({ data: { ...existing, version: { number: 1 } } });
+
+    await client.setContentProperty('42', 'owners', ['alice']);
+
+    expect(mockV2.get).toHaveBeenCalledWith('/pages/42/properties', {
+      params: { limit: 1, cursor: undefined, key: 'owners' },
+    });
+    expect(mockV2.post).toHaveBeenCalledWith('/pages/42/properties', {
+      key: 'owners',
+      value: ['alice'],
+    });
+  });
+
+  it('updates an existing property by ID with the next version', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockResolvedValue({ data: { results: [existing], _links: {} } });
+    mockV2.put.mockResolvedValue({ data: { ...existing, version: { number: 4 } } });
+
+    await client.setContentProperty('42', 'owners', ['alice', 'bob'], {
+      expectedVersion: 3,
+      message: 'Add bob',
+    });
+
+    expect(mockV2.put).toHaveBeenCalledWith('/pages/42/properties/77', {
+      key: 'owners',
+      value: ['alice', 'bob'],
+      version: { number: 4, message: 'Add bob' },
+    });
+  });
+
+  it('refuses to overwrite a property changed since the expected version', async () => {
+    const { client, mockV2 } = setupClient();
+    mockV2.get.mockResolvedValue({ data: { results: [existing], _links: {} } });
+
+    const update = client.setContentProperty('42', 'owners', [], { expectedVersion: 2 });
+
+    await expect(update).rejects.toBeInstanceOf(ConfluenceError);
+    await expect(update).rejects.toMatchObject({ code: 'VERSION_CONFLICT' });
+    expect(mockV2.put).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { setupClient } from './helpers/mock-axios.js';
+
+describe('ConfluenceClient restriction operations', () => {
+  it('reads view and edit restrictions with their users and groups', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({
+      data: {
+        results: [
+          {
+            operation: 'read',
+            restrictions: {
+              user: { results: [{ accountId: 'a1', displayName: 'Alice' }] },
+              group: { results: [{ name: 'legal', id: 'g1' }] },
+            },
+          },
+          { operation: 'update', restrictions: { user: { results: [] }, group: { results: [] } } },
+        ],
+      },
+    });
+
+    const restrictions = await client.getPageRestrictions('42');
+
+    expect(mockV1.get).toHaveBeenCalledWith('/content/42/restriction', {
+      params: { expand: 'restrictions.user,restrictions.group' },
+    });
+    expect(restrictions).toEqual([
+      {
+        operation: 'read',
+        users: [{ accountId: 'a1', displayName: 'Alice' }],
+        groups: [{ name: 'legal', id: 'g1' }],
+      },
+      { operation: 'update', users: [], groups: [] },
+    ]);
+  });
+
+  it('replaces all restrictions in one request', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.put.mockResolvedValue({ data: {} });
+
+    await client.setPageRestrictions('42', [
+      { operation: 'read', users: [], groups: [] },
+      { operation: 'update', users: [{ accountId: 'a1' }], groups: [{ name: 'editors' }] },
+    ]);
+
+    expect(mockV1.put).toHaveBeenCalledWith('/content/42/restriction', [
+      { operation: 'read', restrictions: { user: [], group: [] } },
+      {
+        operation: 'update',
+        restrictions: {
+          user: [{ type: 'known', accountId: 'a1' }],
+          group: [{ type: 'group', name: 'editors' }],
+        },
+      },
+    ]);
+  });
+});
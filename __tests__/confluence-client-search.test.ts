@@ -1,59 +1,9 @@
-import { jest, describe, it, expect, beforeEach } from '@jest/globals';
-
-const createMock = jest.fn();
-
-jest.mock('axios', () => {
-  const actual = jest.requireActual<typeof import('axios')>('axios');
-  return {
-    __esModule: true,
-    default: { create: createMock },
-    create: createMock,
-    isAxiosError: actual.isAxiosError,
-    AxiosError: actual.AxiosError,
-  };
-});
+import { describe, it, expect } from '@jest/globals';
 
-import { ConfluenceClient } from '../src/client/confluence-client.js';
-
-interface MockAxiosInstance {
-  get: jest.Mock;
-  post?: jest.Mock;
-  put?: jest.Mock;
-  delete?: jest.Mock;
-  interceptors: {
-    response: {
-      use: jest.Mock;
-    };
-  };
-  request?: jest.Mock;
-}
+import { collectPaginated, encodeCursor } from '../src/utils/pagination.js';
+import { httpError, setupClient } from './helpers/mock-axios.js';
 
 describe('ConfluenceClient.searchConfluenceContent', () => {
-  const baseConfig = {
-    domain: 'example.atlassian.net',
-    auth: {
-      email: 'user@example.com',
-      apiToken: 'token',
-    },
-  } as const;
-
-  const buildAxiosInstance = (): MockAxiosInstance => ({
-    get: jest.fn(),
-    post: jest.fn(),
-    put: jest.fn(),
-    delete: jest.fn(),
-    request: jest.fn(),
-    interceptors: {
-      response: {
-        use: jest.fn(),
-      },
-    },
-  });
-
-  beforeEach(() => {
-    createMock.mockReset();
-  });
-
   const mockSearchResponse = {
     data: {
       results: [],
@@ -64,20 +14,14 @@ describe('ConfluenceClient.searchConfluenceContent', () => {
     },
   };
 
-  function setupClient() {
-    const mockV2 = buildAxiosInstance();
-    const mockV1 = buildAxiosInstance();
-    (mockV1.get as ReturnType<typeof jest.fn>).mockResolvedValue(mockSearchResponse);
-
-    createMock.mockImplementationOnce(() => mockV2);
-    createMock.mockImplementationOnce(() => mockV1);
-
-    const client = new ConfluenceClient(baseConfig as any);
-    return { client, mockV1 };
+  function setupSearchClient() {
+    const setup = setupClient();
+    setup.mockV1.get.mockResolvedValue(mockSearchResponse);
+    return setup;
   }
 
   it('passes raw CQL through without modification', async () => {
-    const { client, mockV1 } = setupClient();
+    const { client, mockV1 } = setupSearchClient();
     const cql = 'space = JO AND text ~ "keyword"';
 
     await client.searchConfluenceContent(cql);
@@ -88,7 +32,7 @@ describe('ConfluenceClient.searchConfluenceContent', () => {
   });
 
   it('wraps plain text queries when requested', async () => {
-    const { client, mockV1 } = setupClient();
+    const { client, mockV1 } = setupSearchClient();
 
     await client.searchConfluenceContent('plain term', { plainText: true });
 
@@ -96,4 +40,107 @@ describe('ConfluenceClient.searchConfluenceContent', () => {
       params: expect.objectContaining({ cql: 'text ~ "plain term"' }),
     });
   });
+
+  const searchHit = (id: string) => ({
+    content: { id, type: 'page', status: 'current', title: `Page ${id}`, _links: { webui: '' } },
+    excerpt: '',
+  });
+
+  // v1 next links are relative and page by start offset
+  const searchPage = (ids: string[], start: number, totalSize: number, hasNext: boolean) => ({
+    data: {
+      results: ids.map(searchHit),
+      start,
+      limit: ids.length,
+      size: ids.length,
+      totalSize,
+      _links: hasNext
+        ? { next: `/rest/api/search?cql=type%3Dpage&limit=2&start=${start + ids.length}` }
+        : {},
+    },
+  });
+
+  it('returns an opaque cursor that resumes at the next start offset', async () => {
+    const { client, mockV1 } = setupSearchClient();
+    mockV1.get
+      .mockResolvedValueOnce(searchPage(['1', '2'], 0, 3, true))
+      .mockResolvedValueOnce(searchPage(['3'], 2, 3, false));
+
+    const first = await client.searchConfluenceContent('type = page', { limit: 2 });
+    const second = await client.searchConfluenceContent('type = page', {
+      limit: 2,
+      cursor: first.nextCursor,
+    });
+
+    expect(first.totalSize).toBe(3);
+    expect(first.nextCursor).toEqual(expect.any(String));
+    expect(mockV1.get).toHaveBeenLastCalledWith('/search', {
+      params: expect.objectContaining({ start: 2, limit: 2 }),
+    });
+    expect(second.results.map((result) => result.content.id)).toEqual(['3']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('walks every page of results', async () => {
+    const { client, mockV1 } = setupSearchClient();
+    mockV1.get
+      .mockResolvedValueOnce(searchPage(['1', '2'], 0, 5, true))
+      .mockResolvedValueOnce(searchPage(['3', '4'], 2, 5, true))
+      .mockResolvedValueOnce(searchPage(['5'], 4, 5, false));
+
+    const walk = await collectPaginated(
+      client.paginateSearchResults('type = page', { pageSize: 2 })
+    );
+
+    expect(walk.results.map((result) => result.content.id)).toEqual(['1', '2', '3', '4', '5']);
+    expect(walk.cursor).toBeUndefined();
+    expect(mockV1.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('still accepts a bare start offset as the cursor', async () => {
+    const { client, mockV1 } = setupSearchClient();
+
+    await client.searchConfluenceContent('type = page', { cursor: '50' });
+
+    expect(mockV1.get).toHaveBeenCalledWith('/search', {
+      params: expect.objectContaining({ start: 50 }),
+    });
+  });
+
+  it('rejects cursors it did not issue', async () => {
+    const { client, mockV1 } = setupSearchClient();
+
+    await expect(
+      client.searchConfluenceContent('type = page', { cursor: 'not-a-cursor' })
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(mockV1.get).not.toHaveBeenCalled();
+  });
+
+  it('rejects v2 cursors instead of restarting from the first page', async () => {
+    const { client, mockV1 } = setupSearchClient();
+
+    await expect(
+      client.searchConfluenceContent('type = page', {
+        cursor: encodeCursor({ cursor: 'eyJpZCI6IjEyMyJ9' }),
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    expect(mockV1.get).not.toHaveBeenCalled();
+  });
+
+  it('keeps the HTTP status of a failed search', async () => {
+    const { client, mockV1 } = setupSearchClient();
+    mockV1.get
+      .mockRejectedValueOnce(httpError(400, { message: 'Could not parse cql : type = = page' }))
+      .mockRejectedValueOnce(httpError(401, { message: 'Unauthorized' }));
+
+    await expect(client.searchConfluenceContent('type = = page')).rejects.toMatchObject({
+      code: 'SEARCH_FAILED',
+      status: 400,
+      message: 'Failed to search content: Could not parse cql : type = = page',
+    });
+    await expect(client.searchConfluenceContent('type = page')).rejects.toMatchObject({
+      code: 'SEARCH_FAILED',
+      status: 401,
+    });
+  });
 });
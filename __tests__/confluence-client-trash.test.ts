@@ -0,0 +1,92 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { httpError, setupClient } from './helpers/mock-axios.js';
+
+describe('ConfluenceClient trash operations', () => {
+  it('moves a current page to the trash', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({ data: { id: '1', title: 'Old', status: 'current' } });
+    mockV1.delete.mockResolvedValue({});
+
+    const result = await client.deleteConfluencePage('1');
+
+    expect(result).toEqual({ id: '1', title: 'Old', status: 'trashed' });
+    expect(mockV1.delete).toHaveBeenCalledTimes(1);
+    expect(mockV1.delete).toHaveBeenCalledWith('/content/1');
+  });
+
+  it('trashes a current page before purging it', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({ data: { id: '1', title: 'Old', status: 'current' } });
+    mockV1.delete.mockResolvedValue({});
+
+    const result = await client.deleteConfluencePage('1', { purge: true });
+
+    expect(result.status).toBe('purged');
+    expect(mockV1.delete.mock.calls).toEqual([
+      ['/content/1'],
+      ['/content/1', { params: { status: 'trashed' } }],
+    ]);
+  });
+
+  it('purges an already trashed page directly', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({ data: { id: '1', title: 'Old', status: 'trashed' } });
+    mockV1.delete.mockResolvedValue({});
+
+    await client.deleteConfluencePage('1', { purge: true });
+
+    expect(mockV1.delete).toHaveBeenCalledTimes(1);
+    expect(mockV1.delete).toHaveBeenCalledWith('/content/1', { params: { status: 'trashed' } });
+  });
+
+  it('describes the delete requests for a dry run without sending them', async () => {
+    const { client, mockV1 } = setupClient();
+
+    expect(client.buildDeletePageRequests('1', 'current', { purge: true })).toEqual([
+      { method: 'DELETE', api: 'v1', path: '/content/1' },
+      { method: 'DELETE', api: 'v1', path: '/content/1', params: { status: 'trashed' } },
+    ]);
+    expect(client.buildDeletePageRequests('1', 'trashed')).toEqual([]);
+    expect(mockV1.delete).not.toHaveBeenCalled();
+  });
+
+  it('reports permission failures with PERMISSION_DENIED', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({ data: { id: '1', title: 'Old', status: 'trashed' } });
+    mockV1.delete.mockRejectedValue(httpError(403));
+
+    await expect(client.deleteConfluencePage('1', { purge: true })).rejects.toMatchObject({
+      code: 'PERMISSION_DENIED',
+      message: expect.stringContaining('space admin'),
+    });
+  });
+
+  it('restores a trashed page with the next version number', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.get.mockResolvedValue({
+      data: { id: '1', type: 'page', title: 'Old', status: 'trashed', version: { number: 4 } },
+    });
+    mockV1.put.mockResolvedValue({ data: { id: '1', title: 'Old', version: { number: 5 } } });
+
+    const result = await client.restoreConfluencePage('1');
+
+    expect(mockV1.put).toHaveBeenCalledWith('/content/1', {
+      id: '1',
+      type: 'page',
+      title: 'Old',
+      status: 'current',
+      version: { number: 5 },
+    });
+    expect(result).toEqual({ id: '1', title: 'Old', version: 5 });
+  });
+
+  it('reports pages missing from the trash with PAGE_NOT_FOUND', async () => {
+    const { client, mockV1 } = setupClient();
+    mockV1.get.mockRejectedValue(httpError(404));
+
+    await expect(client.restoreConfluencePage('1')).rejects.toMatchObject({
+      code: 'PAGE_NOT_FOUND',
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describe, it, expect } from '@jest/globals';
+
+import {
+  convertMarkdownToStorage,
+  convertStorageToMarkdown,
+  parseStorageFormat,
+} from '../src/utils/content-converter.js';
+
+const fixturesDir = join(__dirname, 'fixtures');
+
+// storage: storage format -> Markdown; markdown: Markdown -> storage format;
+// round-trip: both directions, so the two files convert exactly into each other
+type FixtureKind = 'storage' | 'markdown' | 'round-trip';
+
+function fixtureNames(kind: FixtureKind): string[] {
+  return readdirSync(join(fixturesDir, kind))
+    .filter((file) => file.endsWith('.xml'))
+    .map((file) => file.replace(/\.xml$/, ''));
+}
+
+function readFixture(kind: FixtureKind, name: string, extension: 'xml' | 'md'): string {
+  return readFileSync(join(fixturesDir, kind, `${name}.${extension}`), 'utf-8').trimEnd();
+}
+
+describe('parseStorageFormat', () => {
+  it('builds a tree with namespaced elements, attributes and CDATA', () => {
+    const document = parseStorageFormat(
+      '<ac:structured-macro ac:name="code"><ac:plain-text-body><![CDATA[a < b]]></ac:plain-text-body></ac:structured-macro>'
+    );
+
+    expect(document.children).toEqual([
+      {
+        type: 'element',
+        name: 'ac:structured-macro',
+        attributes: { 'ac:name': 'code' },
+        children: [
+          {
+            type: 'element',
+            name: 'ac:plain-text-body',
+            attributes: {},
+            children: [{ type: 'text', value: 'a < b', cdata: true }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('tolerates void elements and stray closing tags', () => {
+    const document = parseStorageFormat('<p>a<br>b</span></p><p>c</p>');
+
+    expect(document.children.map((node) => node.type === 'element' && node.name)).toEqual([
+      'p',
+      'p',
+    ]);
+  });
+});
+
+describe('convertStorageToMarkdown', () => {
+  it.each(fixtureNames('storage'))('renders the %s fixture', (name) => {
+    expect(convertStorageToMarkdown(readFixture('storage', name, 'xml'))).toBe(
+      readFixture('storage', name, 'md')
+    );
+  });
+
+  it('round trips structure through convertMarkdownToStorage', () => {
+    const markdown = readFixture('storage', 'nested-lists', 'md');
+
+    expect(convertStorageToMarkdown(convertMarkdownToStorage(markdown))).toBe(markdown);
+  });
+});
+
+describe('convertMarkdownToStorage', () => {
+  it.each(fixtureNames('markdown'))('renders the %s fixture', (name) => {
+    expect(convertMarkdownToStorage(readFixture('markdown', name, 'md'))).toBe(
+      readFixture('markdown', name, 'xml')
+    );
+  });
+
+  it('converts headings and inline formatting', () => {
+    expect(convertMarkdownToStorage('## Hello *big* `world`')).toBe(
+      '<h2>Hello <em>big</em> <code>world</code></h2>'
+    );
+    expect(convertMarkdownToStorage('**bold**, ~~gone~~ and snake_case_name')).toBe(
+      '<p><strong>bold</strong>, <del>gone</del> and snake_case_name</p>'
+    );
+  });
+
+  it('escapes XML special characters in text', () => {
+    expect(convertMarkdownToStorage('a < b & c')).toBe('<p>a &lt; b &amp; c</p>');
+  });
+
+  it('converts nested lists', () => {
+    const markdown = ['- one', '- two', '  1. inner', '  2. inner two', '- three'].join('\n');
+
+    expect(convertMarkdownToStorage(markdown)).toBe(
+      '<ul><li>one</li><li>two<ol><li>inner</li><li>inner two</li></ol></li><li>three</li></ul>'
+    );
+  });
+
+  it('converts task lists', () => {
+    expect(convertMarkdownToStorage('- [ ] todo\n- [x] done')).toBe(
+      '<ac:task-list>' +
+        '<ac:task><ac:task-id>1</ac:task-id><ac:task-status>incomplete</ac:task-status>' +
+        '<ac:task-body>todo</ac:task-body></ac:task>' +
+        '<ac:task><ac:task-id>2</ac:task-id><ac:task-status>complete</ac:task-status>' +
+        '<ac:task-body>done</ac:task-body></ac:task>' +
+        '</ac:task-list>'
+    );
+  });
+
+  it('converts GFM tables', () => {
+    const markdown = ['| Name | Value |', '| --- | ---: |', '| a \\| b | 1 |'].join('\n');
+
+    expect(convertMarkdownToStorage(markdown)).toBe(
+      '<table><tbody>' +
+        '<tr><th>Name</th><th style="text-align: right;">Value</th></tr>' +
+        '<tr><td>a | b</td><td style="text-align: right;">1</td></tr>' +
+        '</tbody></table>'
+    );
+  });
+
+  it('converts fenced code to the code macro with language', () => {
+    expect(convertMarkdownToStorage('```python\nprint("<hi>")\n```')).toBe(
+      '<ac:structured-macro ac:name="code" ac:schema-version="1">' +
+        '<ac:parameter ac:name="language">python</ac:parameter>' +
+        '<ac:plain-text-body><![CDATA[print("<hi>")]]></ac:plain-text-body>' +
+        '</ac:structured-macro>'
+    );
+  });
+
+  it('converts links and images', () => {
+    expect(convertMarkdownToStorage('[Docs](https://example.com) ![chart](chart.png)')).toBe(
+      '<p><a href="https://example.com">Docs</a> ' +
+        '<ac:image ac:alt="chart"><ri:attachment ri:filename="chart.png" /></ac:image></p>'
+    );
+  });
+
+  it('keeps attachment names that are not valid URL encodings', () => {
+    expect(convertMarkdownToStorage('![chart](50%.png) ![plan](my%20plan.png)')).toBe(
+      '<p><ac:image ac:alt="chart"><ri:attachment ri:filename="50%.png" /></ac:image> ' +
+        '<ac:image ac:alt="plan"><ri:attachment ri:filename="my plan.png" /></ac:image></p>'
+    );
+  });
+});
+
+describe.each(fixtureNames('round-trip'))('the %s round-trip fixture', (name) => {
+  it('converts from storage format to the Markdown', () => {
+    expect(convertStorageToMarkdown(readFixture('round-trip', name, 'xml'))).toBe(
+      readFixture('round-trip', name, 'md')
+    );
+  });
+
+  it('converts back from the Markdown to the storage format', () => {
+    expect(convertMarkdownToStorage(readFixture('round-trip', name, 'md'))).toBe(
+      readFixture('round-trip', name, 'xml')
+    );
+  });
+});
+
+describe('macro round tripping', () => {
+  it.each([
+    [
+      'container macros with nested macros',
+      '<ac:structured-macro ac:name="info" ac:schema-version="1" ac:macro-id="a1">' +
+        '<ac:parameter ac:name="title">Heads up</ac:parameter><ac:rich-text-body><p>Body</p>' +
+        '<ac:structured-macro ac:name="expand" ac:schema-version="1"><ac:rich-text-body>' +
+        '<p>Inner</p></ac:rich-text-body></ac:structured-macro></ac:rich-text-body>' +
+        '</ac:structured-macro>',
+    ],
+    [
+      'code macros with extra parameters',
+      '<ac:structured-macro ac:name="code" ac:schema-version="1">' +
+        '<ac:parameter ac:name="language">java</ac:parameter>' +
+        '<ac:parameter ac:name="linenumbers">true</ac:parameter>' +
+        '<ac:plain-text-body><![CDATA[class A {}]]></ac:plain-text-body></ac:structured-macro>',
+    ],
+    [
+      'inline macros',
+      '<p>Fixed in <ac:structured-macro ac:name="jira" ac:schema-version="1">' +
+        '<ac:parameter ac:name="key">ABC-1</ac:parameter></ac:structured-macro></p>',
+    ],
+    [
+      'body-less block macros',
+      '<ac:structured-macro ac:name="toc" ac:schema-version="1">' +
+        '<ac:parameter ac:name="maxLevel">2</ac:parameter></ac:structured-macro><p>Intro</p>',
+    ],
+    [
+      'plain-text body macros',
+      '<ac:structured-macro ac:name="noformat" ac:schema-version="1">' +
+        '<ac:plain-text-body><![CDATA[keep   spacing]]></ac:plain-text-body></ac:structured-macro>',
+    ],
+    [
+      'parameters holding markup',
+      '<ac:structured-macro ac:name="include" ac:schema-version="1"><ac:parameter ac:name="">' +
+        '<ac:link><ri:page ri:content-title="Other" /></ac:link></ac:parameter>' +
+        '</ac:structured-macro>',
+    ],
+    [
+      'macros named like element directives',
+      '<p>At <ac:structured-macro ac:name="time" ac:schema-version="1">' +
+        '<ac:parameter ac:name="zone">UTC</ac:parameter></ac:structured-macro></p>' +
+        '<ac:structured-macro ac:name="layout-section" ac:schema-version="1">' +
+        '<ac:rich-text-body><p>Body</p></ac:rich-text-body></ac:structured-macro>',
+    ],
+  ])('restores identical storage for %s', (_, storage) => {
+    expect(convertMarkdownToStorage(convertStorageToMarkdown(storage))).toBe(storage);
+  });
+
+  it('renders macros as readable directives', () => {
+    expect(
+      convertStorageToMarkdown(
+        '<p>Status: <ac:structured-macro ac:name="status" ac:schema-version="1">' +
+          '<ac:parameter ac:name="title">DONE</ac:parameter></ac:structured-macro></p>'
+      )
+    ).toBe('Status: :status{title="DONE"}');
+  });
+
+  it('escapes literal text that looks like a directive', () => {
+    const storage = '<p>Not a macro: :fake{x}</p>';
+
+    expect(convertStorageToMarkdown(storage)).toBe('Not a macro: \\:fake{x}');
+    expect(convertMarkdownToStorage(convertStorageToMarkdown(storage))).toBe(storage);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { ConfluenceError } from '../src/types/index.js';
+import { buildCqlQuery, quoteCqlValue } from '../src/utils/cql-builder.js';
+
+describe('quoteCqlValue', () => {
+  it('escapes quotes and backslashes', () => {
+    expect(quoteCqlValue('say "hi" \\ bye')).toBe('"say \\"hi\\" \\\\ bye"');
+  });
+});
+
+describe('buildCqlQuery', () => {
+  it('combines filters with AND and quotes every value', () => {
+    expect(
+      buildCqlQuery({
+        spaceKeys: ['DEV', 'OPS'],
+        types: ['page'],
+        labels: ['runbook'],
+        title: 'on-call "primary"',
+        orderBy: 'lastmodified',
+      })
+    ).toBe(
+      'space in ("DEV", "OPS") AND type = page AND label = "runbook" AND title ~ "on-call \\"primary\\"" ORDER BY lastmodified desc'
+    );
+  });
+
+  it('requires every label when labelMatch is all and excludes labels', () => {
+    expect(buildCqlQuery({ labels: ['a', 'b'], labelMatch: 'all', excludeLabels: ['draft'] })).toBe(
+      'label = "a" AND label = "b" AND label not in ("draft")'
+    );
+  });
+
+  it('maps users, ancestors and date ranges', () => {
+    expect(
+      buildCqlQuery({
+        contributors: ['me', '5b10a2844c20165700ede21g'],
+        ancestorIds: ['123'],
+        createdAfter: '2024-05-01',
+        modifiedAfter: '-7d',
+      })
+    ).toBe(
+      'contributor in (currentUser(), "5b10a2844c20165700ede21g") AND ancestor = 123 AND created >= "2024-05-01" AND lastmodified >= now("-7d")'
+    );
+  });
+
+  it('rejects values that would produce invalid CQL', () => {
+    expect(() => buildCqlQuery({})).toThrow(ConfluenceError);
+    expect(() => buildCqlQuery({ ancestorIds: ['12) OR (1=1'] })).toThrow(/numeric content IDs/);
+    expect(() => buildCqlQuery({ spaceKeys: ['DEV'], createdAfter: 'last week' })).toThrow(
+      /createdAfter/
+    );
+    expect(() => buildCqlQuery({ spaceKeys: [' '] })).toThrow(/empty values/);
+  });
+});
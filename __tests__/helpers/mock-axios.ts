@@ -0,0 +1,103 @@
+import { jest } from '@jest/globals';
+
+const createMock = jest.fn();
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual<typeof import('axios')>('axios');
+  return {
+    __esModule: true,
+    default: { create: createMock },
+    create: createMock,
+    isAxiosError: actual.isAxiosError,
+    AxiosError: actual.AxiosError,
+  };
+});
+
+import { AxiosError } from 'axios';
+
+import { ConfluenceClient } from '../../src/client/confluence-client.js';
+
+type AsyncMock = jest.Mock<(...args: any[]) => Promise<any>>;
+
+type ErrorInterceptor = (error: unknown) => Promise<unknown>;
+
+export interface MockAxiosInstance {
+  get: AsyncMock;
+  post: AsyncMock;
+  put: AsyncMock;
+  delete: AsyncMock;
+  request: AsyncMock;
+  interceptors: {
+    response: {
+      use: jest.Mock<(onFulfilled: unknown, onRejected?: ErrorInterceptor) => void>;
+    };
+  };
+  // Rejection handlers the client registered with interceptors.response.use
+  errorInterceptors: ErrorInterceptor[];
+}
+
+const baseConfig = {
+  domain: 'example.atlassian.net',
+  auth: {
+    email: 'user@example.com',
+    apiToken: 'token',
+  },
+} as const;
+
+function buildAxiosInstance(): MockAxiosInstance {
+  const errorInterceptors: ErrorInterceptor[] = [];
+  return {
+    get: jest.fn<(...args: any[]) => Promise<any>>(),
+    post: jest.fn<(...args: any[]) => Promise<any>>(),
+    put: jest.fn<(...args: any[]) => Promise<any>>(),
+    delete: jest.fn<(...args: any[]) => Promise<any>>(),
+    request: jest.fn<(...args: any[]) => Promise<any>>(),
+    interceptors: {
+      response: {
+        use: jest.fn((_onFulfilled: unknown, onRejected?: ErrorInterceptor) => {
+          if (onRejected) errorInterceptors.push(onRejected);
+        }),
+      },
+    },
+    errorInterceptors,
+  };
+}
+
+/**
+ * A ConfluenceClient whose v2 and v1 axios instances are mocks
+ */
+export function setupClient() {
+  const mockV2 = buildAxiosInstance();
+  const mockV1 = buildAxiosInstance();
+
+  createMock.mockReset();
+  createMock.mockImplementationOnce(() => mockV2);
+  createMock.mockImplementationOnce(() => mockV1);
+
+  const client = new ConfluenceClient(baseConfig as any);
+  return { client, mockV2, mockV1 };
+}
+
+/**
+ * An axios error for a response with the given status
+ */
+export function httpError(status: number, data: unknown = { message: 'error' }): AxiosError {
+  return new AxiosError(`Request failed with status code ${status}`, undefined, undefined, null, {
+    status,
+    statusText: '',
+    headers: {},
+    config: {} as any,
+    data,
+  });
+}
+
+/**
+ * Fail a request the way axios does: the error passes through the response
+ * interceptors the client registered, so the client's own error mapping runs
+ */
+export function rejectThroughInterceptors(instance: MockAxiosInstance, error: AxiosError) {
+  return instance.errorInterceptors.reduce<Promise<unknown>>(
+    (result, interceptor) => result.catch(interceptor),
+    Promise.reject(error)
+  );
+}
@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+
+import { describe, it, expect } from '@jest/globals';
+
+import {
+  buildAuthorizationUrl,
+  createPkcePair,
+  startCallbackListener,
+} from '../src/utils/oauth-authorization.js';
+
+describe('createPkcePair', () => {
+  it('derives the S256 challenge from a URL-safe verifier', () => {
+    const { verifier, challenge } = createPkcePair();
+
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(challenge).toBe(createHash('sha256').update(verifier).digest('base64url'));
+  });
+});
+
+describe('buildAuthorizationUrl', () => {
+  it('requests a code for the Atlassian API audience with PKCE', () => {
+    const url = new URL(
+      buildAuthorizationUrl({
+        clientId: 'client',
+        redirectUri: 'http://localhost:8107/callback',
+        scopes: ['read:page:confluence', 'offline_access'],
+        state: 'state-1',
+        codeChallenge: 'challenge',
+      })
+    );
+
+    expect(url.origin + url.pathname).toBe('https://auth.atlassian.com/authorize');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      audience: 'api.atlassian.com',
+      client_id: 'client',
+      scope: 'read:page:confluence offline_access',
+      redirect_uri: 'http://localhost:8107/callback',
+      state: 'state-1',
+      response_type: 'code',
+      prompt: 'consent',
+      code_challenge: 'challenge',
+      code_challenge_method: 'S256',
+    });
+  });
+});
+
+describe('startCallbackListener', () => {
+  it('ignores callbacks with the wrong state and resolves with the code', async () => {
+    const listener = await startCallbackListener({
+      port: 0,
+      path: '/callback',
+      state: 'expected',
+      timeoutMs: 5000,
+    });
+    const base = `http://127.0.0.1:${listener.port}/callback`;
+
+    const forged = await fetch(`${base}?code=forged&state=other`);
+    expect(await forged.text()).toContain('Invalid authorization response');
+
+    await fetch(`${base}?code=real-code&state=expected`);
+    await expect(listener.code).resolves.toBe('real-code');
+  });
+
+  it('rejects when the user denies access', async () => {
+    const listener = await startCallbackListener({
+      port: 0,
+      path: '/callback',
+      state: 'expected',
+      timeoutMs: 5000,
+    });
+
+    const rejection = expect(listener.code).rejects.toThrow('Authorization failed: User denied');
+    await fetch(
+      `http://127.0.0.1:${listener.port}/callback?error=access_denied&error_description=User%20denied`
+    );
+    await rejection;
+  });
+});
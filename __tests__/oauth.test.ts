@@ -0,0 +1,128 @@
+import { mkdtempSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+
+const postMock = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: { post: postMock },
+  post: postMock,
+  isAxiosError: () => false,
+}));
+
+import type { ConfluenceConfig } from '../src/types/index.js';
+import {
+  ATLASSIAN_TOKEN_URL,
+  clearTokenCache,
+  getAccessToken,
+  refreshAccessToken,
+} from '../src/utils/oauth.js';
+
+function oauthConfig(domain: string): ConfluenceConfig {
+  return {
+    domain,
+    auth: {
+      type: 'oauth2',
+      accessToken: 'initial-access',
+      refreshToken: 'initial-refresh',
+      clientId: 'client',
+      clientSecret: 'secret',
+    },
+  };
+}
+
+describe('OAuth token refresh', () => {
+  let storePath: string;
+
+  beforeEach(() => {
+    postMock.mockReset();
+    clearTokenCache();
+    storePath = join(mkdtempSync(join(tmpdir(), 'oauth-test-')), 'tokens.json');
+    process.env.CONFLUENCE_TOKEN_STORE = storePath;
+  });
+
+  it('exchanges the refresh token and persists the rotated pair with mode 0600', async () => {
+    postMock.mockResolvedValue({
+      data: { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 3600 },
+    });
+    const config = oauthConfig('example.atlassian.net');
+
+    const tokens = await refreshAccessToken(config, 'initial-access');
+
+    expect(postMock).toHaveBeenCalledWith(
+      ATLASSIAN_TOKEN_URL,
+      expect.objectContaining({
+        grant_type: 'refresh_token',
+        refresh_token: 'initial-refresh',
+        client_id: 'client',
+        client_secret: 'secret',
+      }),
+      expect.anything()
+    );
+    expect(tokens).toMatchObject({ accessToken: 'new-access', refreshToken: 'new-refresh' });
+    expect(config.auth).toMatchObject({ accessToken: 'new-access', refreshToken: 'new-refresh' });
+
+    const store = JSON.parse(readFileSync(storePath, 'utf-8'));
+    expect(store.tokens['example.atlassian.net']).toMatchObject({
+      accessToken: 'new-access',
+      refreshToken: 'new-refresh',
+    });
+    expect(statSync(storePath).mode & 0o777).toBe(0o600);
+  });
+
+  it('shares one exchange between concurrent refreshes', async () => {
+    postMock.mockResolvedValue({ data: { access_token: 'shared', expires_in: 3600 } });
+    const config = oauthConfig('concurrent.atlassian.net');
+
+    const results = await Promise.all([
+      refreshAccessToken(config, 'initial-access'),
+      refreshAccessToken(config, 'initial-access'),
+    ]);
+
+    expect(postMock).toHaveBeenCalledTimes(1);
+    expect(results.map((tokens) => tokens.accessToken)).toEqual(['shared', 'shared']);
+    // The previous refresh token is kept when the response does not rotate it
+    expect(results[0].refreshToken).toBe('initial-refresh');
+  });
+
+  it('prefers the token store over the configured tokens and refreshes expired ones', async () => {
+    writeFileSync(
+      storePath,
+      JSON.stringify({
+        tokens: {
+          'stored.atlassian.net': {
+            accessToken: 'stored-access',
+            refreshToken: 'stored-refresh',
+            expiresAt: Date.now() - 1000,
+            updatedAt: Date.now() - 3600 * 1000,
+          },
+        },
+      })
+    );
+    postMock.mockResolvedValue({
+      data: { access_token: 'renewed', refresh_token: 'renewed-refresh', expires_in: 3600 },
+    });
+
+    const accessToken = await getAccessToken(oauthConfig('stored.atlassian.net'));
+
+    expect(accessToken).toBe('renewed');
+    expect(postMock).toHaveBeenCalledWith(
+      ATLASSIAN_TOKEN_URL,
+      expect.objectContaining({ refresh_token: 'stored-refresh' }),
+      expect.anything()
+    );
+  });
+
+  it('fails with TOKEN_REFRESH_FAILED when no client credentials are configured', async () => {
+    const config = oauthConfig('no-client.atlassian.net');
+    delete config.auth.clientSecret;
+
+    await expect(refreshAccessToken(config, 'initial-access')).rejects.toMatchObject({
+      code: 'TOKEN_REFRESH_FAILED',
+    });
+    expect(postMock).not.toHaveBeenCalled();
+  });
+});
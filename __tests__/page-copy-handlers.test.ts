@@ -0,0 +1,77 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+type AsyncMock = jest.Mock<(...args: any[]) => Promise<any>>;
+
+const client = {
+  getConfluencePage: jest.fn() as AsyncMock,
+  getPageChildren: jest.fn() as AsyncMock,
+  getConfluenceSpace: jest.fn() as AsyncMock,
+  getConfluenceLabels: jest.fn() as AsyncMock,
+  createConfluencePage: jest.fn() as AsyncMock,
+  addConfluenceLabel: jest.fn() as AsyncMock,
+};
+
+jest.mock('../src/utils/tool-wrapper.js', () => ({
+  withConfluenceContext: (args: any, _options: any, handler: any) =>
+    handler(args, { client, instanceName: 'test' }),
+}));
+
+import { handleCopyConfluencePage } from '../src/handlers/page-copy-handlers.js';
+
+const page = (id: string, title: string, spaceId = '1') => ({
+  id,
+  title,
+  spaceId,
+  body: { storage: { value: '<p>Body</p>' } },
+  _links: { webui: `/pages/${id}` },
+});
+
+describe('handleCopyConfluencePage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rejects a same-space copy that keeps the title before reading the subtree', async () => {
+    client.getConfluencePage.mockImplementation(async (id: string) =>
+      id === '10' ? page('10', 'Parent') : page('42', 'Runbook')
+    );
+
+    const copy = handleCopyConfluencePage({
+      pageId: '42',
+      targetParentId: '10',
+      includeDescendants: true,
+    });
+
+    await expect(copy).rejects.toBeInstanceOf(McpError);
+    await expect(copy).rejects.toThrow(/needs a new title/);
+    expect(client.getPageChildren).not.toHaveBeenCalled();
+    expect(client.createConfluencePage).not.toHaveBeenCalled();
+  });
+
+  it('copies labels from every page of the label listing', async () => {
+    client.getConfluencePage.mockImplementation(async (id: string) =>
+      id === '10' ? page('10', 'Parent') : page('42', 'Runbook')
+    );
+    client.createConfluencePage.mockResolvedValue(page('99', 'Copy of Runbook'));
+    client.getConfluenceLabels
+      .mockResolvedValueOnce({
+        results: [{ name: 'ops' }],
+        _links: { next: '/wiki/api/v2/pages/42/labels?cursor=abc' },
+      })
+      .mockResolvedValueOnce({ results: [{ name: 'oncall' }], _links: {} });
+
+    await handleCopyConfluencePage({
+      pageId: '42',
+      targetParentId: '10',
+      titlePrefix: 'Copy of ',
+      includeAttachments: false,
+    });
+
+    expect(client.getConfluenceLabels).toHaveBeenLastCalledWith('42', {
+      limit: 250,
+      cursor: 'abc',
+    });
+    expect(client.addConfluenceLabel.mock.calls.map((call) => call[1])).toEqual(['ops', 'oncall']);
+  });
+});
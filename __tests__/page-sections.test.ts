@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { ConfluenceError } from '../src/types/index.js';
+import { patchStorageSection } from '../src/utils/page-sections.js';
+
+const page = [
+  '<p>Intro</p>',
+  '<h1>Setup</h1>',
+  '<p>Before you start.</p>',
+  '<h2>Install</h2>',
+  '<p>Run the installer.</p>',
+  '<h2>Configure</h2>',
+  '<p>Edit the file.</p>',
+  '<h1>Usage</h1>',
+  '<p>Use it.</p>',
+].join('');
+
+describe('patchStorageSection', () => {
+  it('replaces everything under a heading found by its full path', () => {
+    const result = patchStorageSection(
+      page,
+      { headingPath: ['Setup', 'Install'] },
+      'replace',
+      '<p>New steps.</p>'
+    );
+
+    expect(result.section).toEqual(['Setup', 'Install']);
+    expect(result.storage).toContain('<h2>Install</h2><p>New steps.</p><h2>Configure</h2>');
+    expect(result.storage).not.toContain('Run the installer.');
+  });
+
+  it('matches a trailing part of the path, ignoring case', () => {
+    const result = patchStorageSection(page, { headingPath: ['configure'] }, 'delete');
+
+    expect(result.section).toEqual(['Setup', 'Configure']);
+    expect(result.storage).toBe(
+      '<p>Intro</p><h1>Setup</h1><p>Before you start.</p><h2>Install</h2><p>Run the installer.</p><h1>Usage</h1><p>Use it.</p>'
+    );
+  });
+
+  it('appends before subsections and inserts after the whole section', () => {
+    const appended = patchStorageSection(page, { headingPath: ['Setup'] }, 'append', '<p>A</p>');
+    expect(appended.storage).toContain('<p>Before you start.</p><p>A</p><h2>Install</h2>');
+
+    const inserted = patchStorageSection(
+      page,
+      { headingPath: ['Setup'] },
+      'insert-after',
+      '<h1>New</h1>'
+    );
+    expect(inserted.storage).toContain('<p>Edit the file.</p><h1>New</h1><h1>Usage</h1>');
+
+    const prepended = patchStorageSection(
+      page,
+      { headingPath: ['Usage'] },
+      'prepend',
+      '<p>First</p>'
+    );
+    expect(prepended.storage).toContain('<h1>Usage</h1><p>First</p><p>Use it.</p>');
+  });
+
+  it('finds sections by anchor macro or generated anchor', () => {
+    const withAnchor =
+      '<h1>Notes</h1><p>x</p><h2><ac:structured-macro ac:name="anchor"><ac:parameter ac:name="">faq</ac:parameter></ac:structured-macro>Questions</h2><p>y</p>';
+
+    expect(patchStorageSection(withAnchor, { anchor: 'faq' }, 'delete').storage).toBe(
+      '<h1>Notes</h1><p>x</p>'
+    );
+    expect(patchStorageSection(page, { anchor: '#MyPage-Usage' }, 'delete').section).toEqual([
+      'Usage',
+    ]);
+  });
+
+  it('reports the available sections when nothing matches', () => {
+    expect(() => patchStorageSection(page, { headingPath: ['Missing'] }, 'delete')).toThrow(
+      new ConfluenceError(
+        'No section found for heading path "Missing". Available sections: Setup; Setup > Install; Setup > Configure; Usage',
+        'SECTION_NOT_FOUND'
+      )
+    );
+  });
+
+  it('rejects ambiguous heading paths', () => {
+    const duplicated = '<h1>A</h1><h2>Notes</h2><h1>B</h1><h2>Notes</h2>';
+
+    expect(() => patchStorageSection(duplicated, { headingPath: ['Notes'] }, 'delete')).toThrow(
+      /2 sections match heading path "Notes"/
+    );
+    expect(patchStorageSection(duplicated, { headingPath: ['B', 'Notes'] }, 'delete').storage).toBe(
+      '<h1>A</h1><h2>Notes</h2><h1>B</h1>'
+    );
+  });
+
+  it('finds and patches headings inside layout cells', () => {
+    const layout = [
+      '<ac:layout><ac:layout-section ac:type="two_equal">',
+      '<ac:layout-cell><h1>Overview</h1><p>What it does.</p></ac:layout-cell>',
+      '<ac:layout-cell><h1>Setup</h1><p>Old steps.</p><h2>Install</h2><p>Run it.</p></ac:layout-cell>',
+      '</ac:layout-section></ac:layout>',
+    ].join('');
+
+    const result = patchStorageSection(
+      layout,
+      { headingPath: ['Setup'] },
+      'append',
+      '<p>New step.</p>'
+    );
+
+    expect(result.section).toEqual(['Setup']);
+    expect(result.storage).toBe(
+      [
+        '<ac:layout><ac:layout-section ac:type="two_equal">',
+        '<ac:layout-cell><h1>Overview</h1><p>What it does.</p></ac:layout-cell>',
+        '<ac:layout-cell><h1>Setup</h1><p>Old steps.</p><p>New step.</p><h2>Install</h2><p>Run it.</p></ac:layout-cell>',
+        '</ac:layout-section></ac:layout>',
+      ].join('')
+    );
+    // The section ends with its cell, not at the next cell's heading
+    expect(patchStorageSection(layout, { headingPath: ['Overview'] }, 'delete').storage).toContain(
+      '<ac:layout-cell /><ac:layout-cell><h1>Setup</h1>'
+    );
+  });
+});
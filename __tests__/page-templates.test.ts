@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { ConfluenceError } from '../src/types/index.js';
+import {
+  builtInTemplateVariables,
+  extractTemplateVariables,
+  fillTemplate,
+} from '../src/utils/page-templates.js';
+
+describe('page templates', () => {
+  it('lists each variable once, in order of first use', () => {
+    expect(
+      extractTemplateVariables('# {{ title }} ({{date}})\n\nBy {{author}} on {{date}}')
+    ).toEqual(['title', 'date', 'author']);
+  });
+
+  it('fills variables and escapes values for storage format', () => {
+    const template = '<h1>{{title}}</h1><p title="{{title}}">{{ owner }}</p>';
+
+    expect(
+      fillTemplate(template, { title: 'R&D "sync"', owner: 'Alex' }, { escapeXml: true })
+    ).toBe('<h1>R&amp;D &quot;sync&quot;</h1><p title="R&amp;D &quot;sync&quot;">Alex</p>');
+    expect(fillTemplate('# {{title}}', { title: 'R&D' })).toBe('# R&D');
+  });
+
+  it('reports every missing variable', () => {
+    expect(() => fillTemplate('{{a}} {{b}} {{c}}', { b: '1' })).toThrow(
+      new ConfluenceError('Missing template variables: a, c', 'INVALID_REQUEST')
+    );
+  });
+
+  it('provides the date built-ins in UTC', () => {
+    expect(builtInTemplateVariables(new Date('2024-03-05T09:07:00Z'))).toEqual({
+      date: '2024-03-05',
+      time: '09:07',
+      datetime: '2024-03-05T09:07:00.000Z',
+      year: '2024',
+    });
+  });
+});
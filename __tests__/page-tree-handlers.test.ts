@@ -0,0 +1,171 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+
+type AsyncMock = jest.Mock<(...args: any[]) => Promise<any>>;
+
+const client = {
+  getTreeChildren: jest.fn() as AsyncMock,
+  getTreeContent: jest.fn() as AsyncMock,
+  getConfluencePage: jest.fn() as AsyncMock,
+  getPageAncestors: jest.fn() as AsyncMock,
+  getSpaceRootPages: jest.fn() as AsyncMock,
+  getConfluenceSpace: jest.fn() as AsyncMock,
+};
+
+jest.mock('../src/utils/tool-wrapper.js', () => ({
+  withConfluenceContext: (args: any, _options: any, handler: any) =>
+    handler(args, { client, instanceName: 'test' }),
+}));
+
+import {
+  handleGetPageAncestors,
+  handleGetPageDescendants,
+  handleGetSpacePageTree,
+} from '../src/handlers/page-tree-handlers.js';
+
+const child = (id: string, title: string, type = 'page') => ({
+  id,
+  title,
+  type,
+  status: 'current',
+  spaceId: '1',
+});
+
+// Children by parent ID; anything not listed has none
+function mockTree(tree: Record<string, ReturnType<typeof child>[]>) {
+  client.getTreeChildren.mockImplementation(async (parentId: string) => ({
+    results: tree[parentId] || [],
+    _links: {},
+  }));
+}
+
+function parse(response: { content: { text: string }[] }) {
+  return JSON.parse(response.content[0].text);
+}
+
+describe('handleGetPageDescendants', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('clamps the depth between 1 and 10', async () => {
+    mockTree({ '42': [child('1', 'Guide')], '1': [child('2', 'Setup')] });
+
+    const shallow = parse(await handleGetPageDescendants({ pageId: '42', depth: 0 }));
+    expect(shallow.depth).toBe(1);
+    expect(shallow.count).toBe(1);
+    expect(client.getTreeChildren).toHaveBeenCalledTimes(1);
+
+    const deep = parse(await handleGetPageDescendants({ pageId: '42', depth: 50 }));
+    expect(deep.depth).toBe(10);
+    expect(deep.count).toBe(2);
+  });
+
+  it('flags the tree as truncated when maxPages runs out', async () => {
+    mockTree({ '42': [child('1', 'One'), child('2', 'Two'), child('3', 'Three')] });
+
+    const result = parse(await handleGetPageDescendants({ pageId: '42', maxPages: 2 }));
+
+    expect(result.truncated).toBe(true);
+    expect(result.count).toBe(2);
+    expect(result.descendants.map((node: { id: string }) => node.id)).toEqual(['1', '2']);
+  });
+
+  it('is not truncated when every page fits', async () => {
+    mockTree({ '42': [child('1', 'One')] });
+
+    const result = parse(await handleGetPageDescendants({ pageId: '42', maxPages: 1 }));
+
+    expect(result.truncated).toBe(false);
+  });
+
+  it('renders an indented outline that marks non-page content', async () => {
+    mockTree({
+      '42': [child('1', 'Guide'), child('5', 'Archive', 'folder')],
+      '1': [child('2', 'Setup')],
+    });
+
+    const result = parse(await handleGetPageDescendants({ pageId: '42', format: 'outline' }));
+
+    expect(result.outline).toBe('- Guide (1)\n  - Setup (2)\n- Archive (folder 5)');
+    expect(result.descendants).toBeUndefined();
+    expect(client.getTreeChildren).toHaveBeenCalledWith('5', 'folder', {
+      limit: 250,
+      cursor: undefined,
+    });
+  });
+});
+
+describe('handleGetPageAncestors', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('looks up ancestor titles without fetching page bodies', async () => {
+    client.getPageAncestors.mockResolvedValue({
+      results: [
+        { id: '1', type: 'page' },
+        { id: '2', type: 'page' },
+      ],
+      _links: {},
+    });
+    client.getTreeContent.mockImplementation(async (id: string, type: string) => ({
+      id,
+      type,
+      title: id === '1' ? 'Home' : 'Guides',
+      _links: { webui: `/pages/${id}` },
+    }));
+
+    const result = parse(await handleGetPageAncestors({ pageId: '42' }));
+
+    expect(result.path).toBe('Home / Guides');
+    expect(client.getTreeContent).toHaveBeenCalledWith('1', 'page');
+    expect(client.getConfluencePage).not.toHaveBeenCalled();
+  });
+
+  it('looks up folder ancestors as folders', async () => {
+    client.getPageAncestors.mockResolvedValue({
+      results: [
+        { id: '1', type: 'page' },
+        { id: '5', type: 'folder' },
+      ],
+      _links: {},
+    });
+    client.getTreeContent.mockImplementation(async (id: string, type: string) => ({
+      id,
+      type,
+      title: type === 'folder' ? 'Archive' : 'Home',
+    }));
+
+    const result = parse(await handleGetPageAncestors({ pageId: '42' }));
+
+    expect(client.getTreeContent).toHaveBeenCalledWith('5', 'folder');
+    expect(result.path).toBe('Home / Archive');
+    expect(result.ancestors[1]).toMatchObject({ id: '5', type: 'folder' });
+  });
+});
+
+describe('handleGetSpacePageTree', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('starts from the content under the homepage, folders included', async () => {
+    client.getConfluenceSpace.mockResolvedValue({ id: '1', key: 'ENG', homepageId: '100' });
+    mockTree({ '100': [child('1', 'Guide'), child('5', 'Archive', 'folder')] });
+    client.getSpaceRootPages.mockResolvedValue({
+      results: [child('100', 'Home'), child('7', 'Orphan')],
+      _links: {},
+    });
+
+    const result = parse(
+      await handleGetSpacePageTree({ spaceId: '1', depth: 1, format: 'outline' })
+    );
+
+    expect(client.getTreeChildren).toHaveBeenCalledWith('100', 'page', {
+      limit: 250,
+      cursor: undefined,
+    });
+    expect(result.homepageId).toBe('100');
+    expect(result.outline).toBe('- Guide (1)\n- Archive (folder 5)\n- Orphan (7)');
+  });
+});
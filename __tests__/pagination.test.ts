@@ -0,0 +1,78 @@
+import { jest, describe, it, expect } from '@jest/globals';
+
+import {
+  autoPaginationLimit,
+  collectPaginated,
+  nextCursor,
+  paginate,
+} from '../src/utils/pagination.js';
+import type { ResultPage } from '../src/utils/pagination.js';
+
+/**
+ * A fake listing of `total` numbered items whose cursors are offsets
+ */
+function fakeListing(total: number) {
+  return jest.fn(async (cursor: string | undefined, limit: number): Promise<ResultPage<number>> => {
+    const start = cursor ? Number(cursor) : 0;
+    const results = Array.from({ length: Math.min(limit, total - start) }, (_, i) => start + i);
+    const end = start + results.length;
+    return { results, nextCursor: end < total ? String(end) : undefined };
+  });
+}
+
+describe('nextCursor', () => {
+  it('reads the encoded cursor from relative and absolute next links', () => {
+    expect(nextCursor({ next: '/wiki/api/v2/pages?limit=25&cursor=abc%3D%3D&space-id=1' })).toBe(
+      'abc=='
+    );
+    expect(
+      nextCursor({ next: 'https://example.atlassian.net/wiki/rest/api/search?cursor=xyz' })
+    ).toBe('xyz');
+  });
+
+  it('returns undefined on the last page', () => {
+    expect(nextCursor({})).toBeUndefined();
+    expect(nextCursor(undefined)).toBeUndefined();
+  });
+});
+
+describe('paginate', () => {
+  it('follows cursors to the end of the listing', async () => {
+    const fetchPage = fakeListing(7);
+
+    const walk = await collectPaginated(paginate(fetchPage, { pageSize: 3 }));
+
+    expect(walk.results).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(walk.cursor).toBeUndefined();
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('shrinks the last request so maxItems stops on a page boundary', async () => {
+    const fetchPage = fakeListing(10);
+
+    const walk = await collectPaginated(paginate(fetchPage, { pageSize: 3, maxItems: 5 }));
+
+    expect(walk.results).toEqual([0, 1, 2, 3, 4]);
+    expect(fetchPage).toHaveBeenLastCalledWith('3', 2);
+
+    const rest = await collectPaginated(paginate(fetchPage, { pageSize: 3, cursor: walk.cursor }));
+    expect(rest.results).toEqual([5, 6, 7, 8, 9]);
+  });
+
+  it('waits before each follow-up request', async () => {
+    const beforeNextPage = jest.fn(async () => undefined);
+
+    await collectPaginated(paginate(fakeListing(5), { pageSize: 2, beforeNextPage }));
+
+    expect(beforeNextPage).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('autoPaginationLimit', () => {
+  it('keeps single-page listings unless all or maxItems is given', () => {
+    expect(autoPaginationLimit({})).toBeUndefined();
+    expect(autoPaginationLimit({ all: true })).toBe(5000);
+    expect(autoPaginationLimit({ maxItems: 300 })).toBe(300);
+    expect(autoPaginationLimit({ all: true, maxItems: 100000 })).toBe(5000);
+  });
+});
@@ -0,0 +1,48 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import { ConfluenceError } from '../src/types/index.js';
+
+type AsyncMock = jest.Mock<(...args: any[]) => Promise<any>>;
+
+const client = {
+  searchConfluenceContent: jest.fn() as AsyncMock,
+};
+
+jest.mock('../src/utils/tool-wrapper.js', () => ({
+  withConfluenceContext: (args: any, _options: any, handler: any) =>
+    handler(args, { client, instanceName: 'test' }),
+}));
+
+import { handleBuildCqlQuery } from '../src/handlers/search-label-handlers.js';
+
+function parse(response: { content: { text: string }[] }) {
+  return JSON.parse(response.content[0].text);
+}
+
+describe('handleBuildCqlQuery', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reports CQL that Confluence rejects with a 400 as invalid', async () => {
+    client.searchConfluenceContent.mockRejectedValue(
+      new ConfluenceError('Failed to search content: Could not parse cql', 'SEARCH_FAILED', 400)
+    );
+
+    const result = parse(await handleBuildCqlQuery({ spaceKeys: ['ENG'] }));
+
+    expect(result).toMatchObject({ cql: 'space = "ENG"', valid: false });
+  });
+
+  it.each([401, 429, 503])('fails instead of calling the CQL invalid on a %i', async (status) => {
+    client.searchConfluenceContent.mockRejectedValue(
+      new ConfluenceError('Failed to search content: request failed', 'SEARCH_FAILED', status)
+    );
+
+    const build = handleBuildCqlQuery({ spaceKeys: ['ENG'] });
+
+    await expect(build).rejects.toBeInstanceOf(McpError);
+    await expect(build).rejects.toThrow(/Failed to build CQL query/);
+  });
+});
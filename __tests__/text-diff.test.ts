@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { diffLines, diffStats, formatUnifiedDiff, splitLines } from '../src/utils/text-diff.js';
+
+describe('diffLines', () => {
+  it('finds the minimal set of inserted and deleted lines', () => {
+    const operations = diffLines(['a', 'b', 'c', 'd'], ['a', 'c', 'd', 'e']);
+
+    expect(operations).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'delete', line: 'b' },
+      { type: 'equal', line: 'c' },
+      { type: 'equal', line: 'd' },
+      { type: 'insert', line: 'e' },
+    ]);
+    expect(diffStats(operations)).toEqual({ additions: 1, deletions: 1 });
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffLines([], ['x'])).toEqual([{ type: 'insert', line: 'x' }]);
+    expect(diffLines(['x'], [])).toEqual([{ type: 'delete', line: 'x' }]);
+    expect(diffLines([], [])).toEqual([]);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('returns an empty string for identical texts', () => {
+    expect(formatUnifiedDiff('same\ntext', 'same\ntext')).toBe('');
+  });
+
+  it('renders hunks with headers and context', () => {
+    const diff = formatUnifiedDiff('# Title\n\nOld line\nEnd', '# Title\n\nNew line\nEnd', {
+      fromLabel: 'version 1',
+      toLabel: 'version 2',
+      context: 1,
+    });
+
+    expect(diff).toBe(
+      [
+        '--- version 1',
+        '+++ version 2',
+        '@@ -2,3 +2,3 @@',
+        ' ',
+        '-Old line',
+        '+New line',
+        ' End',
+      ].join('\n')
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const before = splitLines('1\n2\n3\n4\n5\n6\n7\n8\n9\n10');
+    const after = [...before];
+    after[0] = 'one';
+    after[9] = 'ten';
+
+    const diff = formatUnifiedDiff(before.join('\n'), after.join('\n'), { context: 2 });
+
+    expect(diff.split('\n').filter((line) => line.startsWith('@@'))).toEqual([
+      '@@ -1,3 +1,3 @@',
+      '@@ -8,3 +8,3 @@',
+    ]);
+  });
+});
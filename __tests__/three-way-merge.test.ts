@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { mergeThreeWay } from '../src/utils/three-way-merge.js';
+
+const base = ['# Title', '', 'First paragraph', '', 'Second paragraph', '', 'Third paragraph'];
+
+describe('mergeThreeWay', () => {
+  it('combines changes to different parts of the document', () => {
+    const ours = [...base];
+    ours[2] = 'First paragraph, edited';
+    const theirs = [...base, '', 'Appended by someone else'];
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      lines: [
+        '# Title',
+        '',
+        'First paragraph, edited',
+        '',
+        'Second paragraph',
+        '',
+        'Third paragraph',
+        '',
+        'Appended by someone else',
+      ],
+      conflicts: [],
+    });
+  });
+
+  it('accepts the same change made on both sides', () => {
+    const edited = base.map((line) => (line === 'Second paragraph' ? 'Same edit' : line));
+
+    const result = mergeThreeWay(base, edited, [...edited]);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.lines).toEqual(edited);
+  });
+
+  it('reports clashing changes with both versions', () => {
+    const ours = base.map((line) => (line === 'Third paragraph' ? 'Our ending' : line));
+    const theirs = base.map((line) => (line === 'Third paragraph' ? 'Their ending' : line));
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      { baseLine: 7, base: ['Third paragraph'], ours: ['Our ending'], theirs: ['Their ending'] },
+    ]);
+    expect(result.lines[6]).toBe('Their ending');
+  });
+
+  it('keeps deletions from one side', () => {
+    const ours = base.slice(0, 5);
+    const theirs = ['# New title', ...base.slice(1)];
+
+    expect(mergeThreeWay(base, ours, theirs).lines).toEqual([
+      '# New title',
+      '',
+      'First paragraph',
+      '',
+      'Second paragraph',
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { ConfluenceError } from '../src/types/index.js';
+import { rewriteTitle } from '../src/utils/title-rules.js';
+
+describe('rewriteTitle', () => {
+  it('replaces every literal match, rule by rule', () => {
+    expect(
+      rewriteTitle('Template - Checklist (Template)', {
+        rules: [
+          { find: 'Template', replace: '2.4' },
+          { find: ' - ', replace: ': ' },
+        ],
+      })
+    ).toBe('2.4: Checklist (2.4)');
+  });
+
+  it('treats special characters literally unless regex is set', () => {
+    expect(rewriteTitle('Release x.y', { rules: [{ find: 'x.y', replace: '3.0' }] })).toBe(
+      'Release 3.0'
+    );
+    expect(
+      rewriteTitle('Release 2.4 notes', {
+        rules: [{ find: '(\\d+)\\.(\\d+)', replace: '$1.$2.1', regex: true }],
+      })
+    ).toBe('Release 2.4.1 notes');
+  });
+
+  it('adds the prefix and suffix after the rules', () => {
+    expect(rewriteTitle('Checklist', { prefix: '[Q3] ', suffix: ' (copy)' })).toBe(
+      '[Q3] Checklist (copy)'
+    );
+  });
+
+  it('rejects invalid patterns', () => {
+    expect(() =>
+      rewriteTitle('Title', { rules: [{ find: '(', replace: '', regex: true }] })
+    ).toThrow(ConfluenceError);
+  });
+});
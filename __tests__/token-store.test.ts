@@ -0,0 +1,44 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { getStoredTokens, saveStoredTokens } from '../src/utils/token-store.js';
+
+describe('token store', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'confluence-tokens-'));
+    path = join(directory, 'tokens.json');
+    process.env.CONFLUENCE_TOKEN_STORE = path;
+  });
+
+  afterEach(async () => {
+    delete process.env.CONFLUENCE_TOKEN_STORE;
+    jest.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('treats a missing store as empty', async () => {
+    expect(await getStoredTokens('example.atlassian.net')).toBeUndefined();
+  });
+
+  it('recovers from a corrupted store instead of failing every request', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await writeFile(path, '{"tokens": {"example.atlassian.net": ');
+
+    expect(await getStoredTokens('example.atlassian.net')).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Ignoring unreadable token store'),
+      expect.any(String)
+    );
+
+    await saveStoredTokens('example.atlassian.net', { accessToken: 'new', updatedAt: 1 });
+    expect(JSON.parse(await readFile(path, 'utf-8')).tokens['example.atlassian.net']).toEqual({
+      accessToken: 'new',
+      updatedAt: 1,
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import { ConfluenceError } from '../src/types/index.js';
+
+type AsyncMock = jest.Mock<(...args: any[]) => Promise<any>>;
+
+const client = {
+  getTreeChildren: jest.fn() as AsyncMock,
+  getTreeContent: jest.fn() as AsyncMock,
+  createFolder: jest.fn() as AsyncMock,
+  moveConfluencePage: jest.fn() as AsyncMock,
+  buildCreateFolderRequest: jest.fn((spaceId: string, title: string, parentId?: string) => ({
+    method: 'POST',
+    path: '/folders',
+    body: { spaceId, title, parentId },
+  })),
+  buildMovePageRequest: jest.fn((pageId: string, targetId: string, position: string) => ({
+    method: 'PUT',
+    path: `/content/${pageId}/move/${position}/${targetId}`,
+  })),
+};
+
+jest.mock('../src/utils/tool-wrapper.js', () => ({
+  withConfluenceContext: (args: any, _options: any, handler: any) =>
+    handler(args, { client, instanceName: 'test' }),
+}));
+
+import {
+  handleCreateFolder,
+  handleDescribeTreeContent,
+  handleGetContentChildren,
+  handleMoveFolder,
+} from '../src/handlers/tree-content-handlers.js';
+
+const folder = (id: string, parentId: string) => ({
+  id,
+  type: 'folder',
+  title: 'Archive',
+  status: 'current',
+  spaceId: '1',
+  parentId,
+  _links: { webui: `/folders/${id}` },
+});
+
+function parse(response: { content: { text: string }[] }) {
+  return JSON.parse(response.content[0].text);
+}
+
+describe('tree content handlers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists children of a folder and filters them by type', async () => {
+    client.getTreeChildren.mockResolvedValue({
+      results: [
+        { id: '1', title: 'Guide', type: 'page', status: 'current', spaceId: '1' },
+        { id: '2', title: 'Board', type: 'whiteboard', status: 'current', spaceId: '1' },
+      ],
+      _links: { next: '/wiki/api/v2/folders/5/direct-children?cursor=abc' },
+    });
+
+    const result = parse(
+      await handleGetContentChildren({ parentId: '5', parentType: 'folder', type: 'page' })
+    );
+
+    expect(client.getTreeChildren).toHaveBeenCalledWith('5', 'folder', {
+      limit: undefined,
+      cursor: undefined,
+    });
+    expect(result.results.map((child: { id: string }) => child.id)).toEqual(['1']);
+    expect(result.cursor).toBe('abc');
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('describes a folder with its children', async () => {
+    client.getTreeContent.mockResolvedValue(folder('5', '42'));
+    client.getTreeChildren.mockResolvedValue({
+      results: [{ id: '1', title: 'Guide', type: 'page' }],
+      _links: {},
+    });
+
+    const result = parse(await handleDescribeTreeContent({ contentId: '5', type: 'folder' }));
+
+    expect(result).toMatchObject({ id: '5', type: 'folder', parentId: '42' });
+    expect(result.children).toEqual([{ id: '1', title: 'Guide', type: 'page' }]);
+    expect(result.hasMoreChildren).toBe(false);
+  });
+
+  it('previews a folder creation without creating it', async () => {
+    const result = parse(
+      await handleCreateFolder({ spaceId: '1', title: 'Archive', parentId: '42', dryRun: true })
+    );
+
+    expect(client.createFolder).not.toHaveBeenCalled();
+    expect(JSON.stringify(result)).toContain('/folders');
+  });
+
+  it('moves a folder after checking it is one', async () => {
+    client.getTreeContent.mockResolvedValue(folder('5', '77'));
+
+    const result = parse(await handleMoveFolder({ folderId: '5', targetParentId: '77' }));
+
+    expect(client.getTreeContent).toHaveBeenCalledWith('5', 'folder');
+    expect(client.moveConfluencePage).toHaveBeenCalledWith('5', '77', 'append');
+    expect(client.getTreeContent.mock.invocationCallOrder[0]).toBeLessThan(
+      client.moveConfluencePage.mock.invocationCallOrder[0]
+    );
+    expect(result).toMatchObject({ id: '5', parentId: '77' });
+  });
+
+  it('previews a folder move with the v1 move request', async () => {
+    client.getTreeContent.mockResolvedValue(folder('5', '42'));
+
+    const result = parse(
+      await handleMoveFolder({
+        folderId: '5',
+        targetParentId: '77',
+        position: 'before',
+        dryRun: true,
+      })
+    );
+
+    expect(client.moveConfluencePage).not.toHaveBeenCalled();
+    expect(JSON.stringify(result)).toContain('/content/5/move/before/77');
+  });
+
+  it('refuses to move content that is not a folder', async () => {
+    client.getTreeContent.mockRejectedValue(new ConfluenceError('Not found', 'PAGE_NOT_FOUND'));
+
+    const move = handleMoveFolder({ folderId: '42', targetParentId: '77' });
+
+    await expect(move).rejects.toBeInstanceOf(McpError);
+    await expect(move).rejects.toThrow(/Folder 42 or target 77 not found/);
+    expect(client.moveConfluencePage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,62 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+type AsyncMock = jest.Mock<(...args: any[]) => Promise<any>>;
+
+const client = {
+  getConfluencePage: jest.fn() as AsyncMock,
+  getConfluencePageVersion: jest.fn() as AsyncMock,
+  updateConfluencePage: jest.fn() as AsyncMock,
+};
+
+jest.mock('../src/utils/tool-wrapper.js', () => ({
+  withConfluenceContext: (args: any, _options: any, handler: any) =>
+    handler(args, { client, instanceName: 'test' }),
+}));
+
+import { handleRevertPageToVersion } from '../src/handlers/version-handlers.js';
+
+const version = (number: number, body?: string) => ({
+  id: '42',
+  title: 'Runbook',
+  spaceId: '1',
+  version: { number },
+  ...(body !== undefined && { body: { storage: { value: body } } }),
+  _links: { webui: '/pages/42' },
+});
+
+describe('handleRevertPageToVersion', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client.getConfluencePage.mockResolvedValue(version(5, '<p>Now</p>'));
+  });
+
+  it('publishes the old body as a new version', async () => {
+    client.getConfluencePageVersion.mockResolvedValue(version(3, '<p>Then</p>'));
+    client.updateConfluencePage.mockResolvedValue(version(6, '<p>Then</p>'));
+
+    await handleRevertPageToVersion({ pageId: '42', version: 3 });
+
+    expect(client.updateConfluencePage).toHaveBeenCalledWith(
+      '42',
+      'Runbook',
+      '<p>Then</p>',
+      6,
+      'storage',
+      expect.objectContaining({ message: 'Reverted to version 3' })
+    );
+  });
+
+  it.each([
+    ['without a body', undefined],
+    ['with an empty body', ''],
+  ])('refuses to revert to a version %s', async (_case, body) => {
+    client.getConfluencePageVersion.mockResolvedValue(version(3, body));
+
+    const revert = handleRevertPageToVersion({ pageId: '42', version: 3 });
+
+    await expect(revert).rejects.toBeInstanceOf(McpError);
+    await expect(revert).rejects.toThrow(/without a storage body/);
+    expect(client.updateConfluencePage).not.toHaveBeenCalled();
+  });
+});
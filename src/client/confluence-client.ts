@@ -1,4 +1,4 @@
-import axios, {
+import {
   AxiosInstance,
   AxiosError,
   RawAxiosResponseHeaders,
@@ -7,23 +7,53 @@ import axios, {
 } from 'axios';
 
 import type {
+  ApiRequest,
+  Attachment,
+  BlogPost,
+  BodyRepresentation,
+  CommentType,
   ConfluenceConfig,
+  ContentProperty,
   Space,
   Page,
+  PageAncestor,
+  PageChild,
+  PageComment,
+  PageRestriction,
+  PageTemplate,
+  PageVersion,
   Label,
   ConfluenceSearchResult,
   PaginatedResponse,
   RateLimitInfo,
+  TreeChild,
+  TreeContent,
+  TreeContentType,
   V1SearchResponse,
+  VersionOptions,
 } from '../types/index.js';
 import { ConfluenceError } from '../types/index.js';
+import {
+  createConfluenceApiInstance,
+  createConfluenceApiV1Instance,
+} from '../utils/confluence-api.js';
+import { decodeCursor, encodeCursor, nextCursor, paginate } from '../utils/pagination.js';
+import type { PaginateOptions } from '../utils/pagination.js';
+
+// v2 endpoint of each content type in the page tree
+const TREE_CONTENT_PATHS: Record<TreeContentType, string> = {
+  page: 'pages',
+  folder: 'folders',
+  whiteboard: 'whiteboards',
+  database: 'databases',
+  embed: 'embeds',
+};
 
 export class ConfluenceClient {
   private client: AxiosInstance;
   private clientV1: AxiosInstance;
   private domain: string;
-  private baseURL: string;
-  private v2Path: string;
+  private authType: ConfluenceConfig['auth']['type'];
   private verified = false;
   private rateLimitInfo: RateLimitInfo = {
     limit: 0,
@@ -37,40 +67,12 @@ export class ConfluenceClient {
     }
 
     this.domain = config.domain;
-    this.baseURL = `https://${config.domain}/wiki`;
-    this.v2Path = '/api/v2';
-
-    const headers = {
-      Accept: 'application/json',
-      'Content-Type': 'application/json',
-      'User-Agent': config.userAgent || 'Confluence-Cloud-MCP/2.0',
-    };
-
-    // Configure for v2 API with domain in URL
-    const axiosConfig: any = {
-      baseURL: `https://${config.domain}/wiki/api/v2`,
-      headers,
-      auth: {
-        username: config.auth.email,
-        password: config.auth.apiToken,
-      },
-    };
-
-    // Configure v1 client for search and labels
-    const axiosConfigV1: any = {
-      baseURL: `https://${config.domain}/wiki/rest/api`,
-      headers: {
-        ...headers,
-        'X-Atlassian-Token': 'no-check',
-      },
-      auth: {
-        username: config.auth.email,
-        password: config.auth.apiToken,
-      },
-    };
+    this.authType = config.auth.type;
 
-    this.client = axios.create(axiosConfig);
-    this.clientV1 = axios.create(axiosConfigV1);
+    // v2 API for pages and spaces, v1 for search and labels. OAuth instances
+    // are routed through the api.atlassian.com gateway with a Bearer token.
+    this.client = createConfluenceApiInstance(config);
+    this.clientV1 = createConfluenceApiV1Instance(config);
 
     // Add response interceptor for rate limit handling
     this.client.interceptors.response.use(
@@ -93,6 +95,12 @@ export class ConfluenceClient {
       }
     );
 
+    // v1 errors stay axios errors for the callers to map; only the limits are tracked
+    this.clientV1.interceptors.response.use((response) => {
+      this.updateRateLimits(response.headers);
+      return response;
+    });
+
     // Log configuration for debugging
     console.error('Confluence client configured with domain:', config.domain);
   }
@@ -105,6 +113,21 @@ export class ConfluenceClient {
     };
   }
 
+  /**
+   * Wait for the rate limit window to reset when the last response used it up, so
+   * multi-page walks slow down instead of running into 429s
+   */
+  private async waitForRateLimit(): Promise<void> {
+    const { limit, remaining, resetTime } = this.rateLimitInfo;
+    if (limit > 0 && remaining <= 1 && resetTime > Date.now()) {
+      await new Promise((resolve) => setTimeout(resolve, resetTime - Date.now()));
+    }
+  }
+
+  private paginationOptions(options: Omit<PaginateOptions, 'beforeNextPage'>): PaginateOptions {
+    return { ...options, beforeNextPage: () => this.waitForRateLimit() };
+  }
+
   private handleError(error: AxiosError): Error {
     console.error('Full error response:', {
       status: error.response?.status,
@@ -118,6 +141,24 @@ export class ConfluenceClient {
       },
     });
 
+    // Page updates must carry the current version + 1; callers can merge and retry
+    if (error.response?.status === 409) {
+      const data = error.response.data as ConfluenceError | undefined;
+      return new ConfluenceError(
+        `Confluence API Error: ${data?.message || JSON.stringify(data) || error.message}`,
+        'VERSION_CONFLICT'
+      );
+    }
+
+    // Usually a page restriction; get_page_restrictions explains which one
+    if (error.response?.status === 403) {
+      const data = error.response.data as ConfluenceError | undefined;
+      return new ConfluenceError(
+        `Confluence API Error: ${data?.message || JSON.stringify(data) || error.message}`,
+        'PERMISSION_DENIED'
+      );
+    }
+
     if (error.response?.data) {
       const confluenceError = error.response.data as ConfluenceError;
       return new Error(
@@ -147,7 +188,10 @@ export class ConfluenceClient {
 
         // Provide specific error messages based on status code
         if (error.response && error.response.status === 401) {
-          errorMessage = 'Authentication failed: Invalid API token or email';
+          errorMessage =
+            this.authType === 'oauth2'
+              ? 'Authentication failed: Invalid or expired OAuth access token'
+              : 'Authentication failed: Invalid API token or email';
         } else if (error.response && error.response.status === 403) {
           errorMessage = 'Authorization failed: Insufficient permissions';
         } else if (error.response && error.response.status === 404) {
@@ -191,6 +235,26 @@ export class ConfluenceClient {
     return response.data;
   }
 
+  /**
+   * Walk all spaces across pages, up to maxItems
+   */
+  paginateConfluenceSpaces(
+    options: Omit<PaginateOptions, 'beforeNextPage'> & {
+      sort?: 'name' | '-name' | 'key' | '-key';
+      status?: 'current' | 'archived';
+    } = {}
+  ): AsyncGenerator<Space, string | undefined> {
+    return paginate(async (cursor, limit) => {
+      const response = await this.getConfluenceSpaces({
+        limit,
+        cursor,
+        sort: options.sort,
+        status: options.status,
+      });
+      return { results: response.results, nextCursor: nextCursor(response._links) };
+    }, this.paginationOptions(options));
+  }
+
   async getConfluenceSpace(spaceId: string): Promise<Space> {
     const response = await this.client.get(`/spaces/${spaceId}`, {
       params: {
@@ -231,6 +295,35 @@ export class ConfluenceClient {
     return response.data;
   }
 
+  /**
+   * Walk all pages of a space across pages of results, up to maxItems
+   */
+  paginateConfluencePages(
+    spaceId: string,
+    options: Omit<PaginateOptions, 'beforeNextPage'> & {
+      title?: string;
+      status?: 'current' | 'archived' | 'draft' | 'trashed';
+      sort?:
+        | 'created-date'
+        | '-created-date'
+        | 'modified-date'
+        | '-modified-date'
+        | 'title'
+        | '-title';
+    } = {}
+  ): AsyncGenerator<Page, string | undefined> {
+    return paginate(async (cursor, limit) => {
+      const response = await this.getConfluencePages(spaceId, {
+        limit,
+        cursor,
+        title: options.title,
+        status: options.status,
+        sort: options.sort,
+      });
+      return { results: response.results, nextCursor: nextCursor(response._links) };
+    }, this.paginationOptions(options));
+  }
+
   async searchPageByName(title: string, spaceId?: string): Promise<Page[]> {
     try {
       const params: any = {
@@ -289,18 +382,22 @@ export class ConfluenceClient {
     }
   }
 
-  async getConfluencePage(pageId: string): Promise<Page> {
+  async getConfluencePage(
+    pageId: string,
+    bodyFormat: BodyRepresentation = 'storage'
+  ): Promise<Page> {
     try {
       // Get page metadata using v2 API
       const pageResponse = await this.client.get(`/pages/${pageId}`, {
         params: {
-          'body-format': 'storage',
+          'body-format': bodyFormat,
         },
       });
       const page = pageResponse.data;
 
-      // If the page already has body content from v2, return it
-      if (page.body?.storage?.value) {
+      // If the page already has body content from v2, return it.
+      // The v1 fallback below only serves storage format.
+      if (page.body?.[bodyFormat]?.value || bodyFormat !== 'storage') {
         return page;
       }
 
@@ -339,20 +436,11 @@ export class ConfluenceClient {
     spaceId: string,
     title: string,
     content: string,
-    parentId?: string
+    parentId?: string,
+    representation: BodyRepresentation = 'storage'
   ): Promise<Page> {
-    const body = {
-      spaceId,
-      status: 'current',
-      title,
-      parentId,
-      body: {
-        representation: 'storage',
-        value: content,
-      },
-    };
-
-    const response = await this.client.post('/pages', body);
+    const request = this.buildCreatePageRequest(spaceId, title, content, parentId, representation);
+    const response = await this.client.post(request.path, request.body);
     return response.data;
   }
 
@@ -360,23 +448,143 @@ export class ConfluenceClient {
     pageId: string,
     title: string,
     content: string,
-    version: number
+    version: number,
+    representation: BodyRepresentation = 'storage',
+    versionOptions: VersionOptions = {}
   ): Promise<Page> {
-    const body = {
-      id: pageId,
-      status: 'current',
+    const request = this.buildUpdatePageRequest(
+      pageId,
       title,
-      body: {
-        representation: 'storage',
-        value: content,
+      content,
+      version,
+      representation,
+      versionOptions
+    );
+    const response = await this.client.put(request.path, request.body);
+    return response.data;
+  }
+
+  // Blog post operations
+  async getBlogPosts(
+    spaceId: string,
+    options: {
+      limit?: number;
+      cursor?: string;
+      title?: string;
+      status?: 'current' | 'draft' | 'trashed';
+      sort?: 'created-date' | '-created-date' | 'modified-date' | '-modified-date';
+    } = {}
+  ): Promise<PaginatedResponse<BlogPost>> {
+    const response = await this.client.get('/blogposts', {
+      params: {
+        'space-id': spaceId,
+        limit: options.limit || 25,
+        cursor: options.cursor,
+        title: options.title,
+        status: options.status,
+        sort: options.sort,
       },
-      version: {
-        number: version,
-        message: 'Updated via API',
+    });
+    return response.data;
+  }
+
+  async getBlogPost(
+    blogPostId: string,
+    bodyFormat: BodyRepresentation = 'storage'
+  ): Promise<BlogPost> {
+    const response = await this.client.get(`/blogposts/${blogPostId}`, {
+      params: {
+        'body-format': bodyFormat,
       },
-    };
+    });
+    return response.data;
+  }
+
+  async getBlogPostVersion(
+    blogPostId: string,
+    version: number,
+    bodyFormat: BodyRepresentation = 'storage'
+  ): Promise<BlogPost> {
+    const response = await this.client.get(`/blogposts/${blogPostId}`, {
+      params: {
+        version,
+        'body-format': bodyFormat,
+      },
+    });
+    return response.data;
+  }
 
-    const response = await this.client.put(`/pages/${pageId}`, body);
+  async createBlogPost(
+    spaceId: string,
+    title: string,
+    content: string,
+    representation: BodyRepresentation = 'storage'
+  ): Promise<BlogPost> {
+    const request = this.buildCreateBlogPostRequest(spaceId, title, content, representation);
+    const response = await this.client.post(request.path, request.body);
+    return response.data;
+  }
+
+  async updateBlogPost(
+    blogPostId: string,
+    title: string,
+    content: string,
+    version: number,
+    representation: BodyRepresentation = 'storage',
+    versionOptions: VersionOptions = {}
+  ): Promise<BlogPost> {
+    const request = this.buildUpdateBlogPostRequest(
+      blogPostId,
+      title,
+      content,
+      version,
+      representation,
+      versionOptions
+    );
+    const response = await this.client.put(request.path, request.body);
+    return response.data;
+  }
+
+  // Moves the blog post to the trash; purging trashes a current post first
+  async deleteBlogPost(
+    blogPostId: string,
+    options: { purge?: boolean } = {}
+  ): Promise<{ id: string; title: string; status: 'trashed' | 'purged' }> {
+    const { id, title, status } = await this.getContentStatus(blogPostId);
+    for (const request of this.buildDeleteBlogPostRequests(blogPostId, status, options)) {
+      await (request.params
+        ? this.client.delete(request.path, { params: request.params })
+        : this.client.delete(request.path));
+    }
+    return { id, title, status: options.purge ? 'purged' : 'trashed' };
+  }
+
+  // Version history operations
+  async getPageVersions(
+    pageId: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResponse<PageVersion>> {
+    const response = await this.client.get(`/pages/${pageId}/versions`, {
+      params: {
+        limit: options.limit || 25,
+        cursor: options.cursor,
+        sort: '-modified-date',
+      },
+    });
+    return response.data;
+  }
+
+  async getConfluencePageVersion(
+    pageId: string,
+    version: number,
+    bodyFormat: BodyRepresentation = 'storage'
+  ): Promise<Page> {
+    const response = await this.client.get(`/pages/${pageId}`, {
+      params: {
+        version,
+        'body-format': bodyFormat,
+      },
+    });
     return response.data;
   }
 
@@ -398,18 +606,94 @@ export class ConfluenceClient {
     return this.getConfluencePage(pages[0].id);
   }
 
+  // Page tree operations
+  async getPageChildren(
+    pageId: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResponse<PageChild>> {
+    const response = await this.client.get(`/pages/${pageId}/children`, {
+      params: {
+        limit: options.limit || 25,
+        cursor: options.cursor,
+        sort: 'child-position',
+      },
+    });
+    return response.data;
+  }
+
+  async getPageAncestors(pageId: string): Promise<PaginatedResponse<PageAncestor>> {
+    const response = await this.client.get(`/pages/${pageId}/ancestors`, {
+      params: {
+        limit: 250,
+      },
+    });
+    return response.data;
+  }
+
+  async getSpaceRootPages(
+    spaceId: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResponse<PageChild>> {
+    const response = await this.client.get(`/spaces/${spaceId}/pages`, {
+      params: {
+        depth: 'root',
+        limit: options.limit || 25,
+        cursor: options.cursor,
+        sort: 'title',
+      },
+    });
+    return response.data;
+  }
+
+  // Content tree operations: unlike /children, direct-children lists every content type
+  async getTreeChildren(
+    parentId: string,
+    parentType: TreeContentType = 'page',
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResponse<TreeChild>> {
+    const response = await this.client.get(
+      `/${TREE_CONTENT_PATHS[parentType]}/${parentId}/direct-children`,
+      {
+        params: {
+          limit: options.limit || 25,
+          cursor: options.cursor,
+        },
+      }
+    );
+    return response.data;
+  }
+
+  // Metadata of any tree content; pages come back without their body
+  async getTreeContent(contentId: string, type: TreeContentType): Promise<TreeContent> {
+    const response = await this.client.get(`/${TREE_CONTENT_PATHS[type]}/${contentId}`);
+    return { ...response.data, type };
+  }
+
+  async createFolder(spaceId: string, title: string, parentId?: string): Promise<TreeContent> {
+    const request = this.buildCreateFolderRequest(spaceId, title, parentId);
+    const response = await this.client.post(request.path, request.body);
+    return { ...response.data, type: 'folder' };
+  }
+
   // Label operations
-  async getConfluenceLabels(pageId: string): Promise<PaginatedResponse<Label>> {
-    const response = await this.client.get(`/pages/${pageId}/labels`);
+  async getConfluenceLabels(
+    pageId: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResponse<Label>> {
+    const response = await this.client.get(`/pages/${pageId}/labels`, {
+      params: {
+        limit: options.limit,
+        cursor: options.cursor,
+      },
+    });
     return response.data;
   }
 
   async addConfluenceLabel(pageId: string, label: string, prefix = 'global'): Promise<Label> {
     try {
       // V2 API uses a different endpoint and format
-      const response = await this.client.post(`/pages/${pageId}/labels`, {
-        name: label,
-      });
+      const request = this.buildAddLabelRequest(pageId, label);
+      const response = await this.client.post(request.path, request.body);
       return response.data;
     } catch (error) {
       // Fall back to V1 API if V2 fails
@@ -449,7 +733,7 @@ export class ConfluenceClient {
   async removeConfluenceLabel(pageId: string, label: string): Promise<void> {
     try {
       // Try V2 API first
-      await this.client.delete(`/pages/${pageId}/labels/${label}`);
+      await this.client.delete(this.buildRemoveLabelRequest(pageId, label).path);
     } catch (error) {
       // Fall back to V1 API if V2 fails
       if (isAxiosError(error) && error.response?.status === 404) {
@@ -475,16 +759,148 @@ export class ConfluenceClient {
     }
   }
 
+  // Comment operations
+  async getPageComments(
+    pageId: string,
+    type: CommentType,
+    options: {
+      limit?: number;
+      cursor?: string;
+      resolutionStatus?: 'open' | 'reopened' | 'resolved' | 'dangling';
+    } = {}
+  ): Promise<PaginatedResponse<PageComment>> {
+    const response = await this.client.get(`/pages/${pageId}/${type}-comments`, {
+      params: {
+        'body-format': 'storage',
+        limit: options.limit || 25,
+        cursor: options.cursor,
+        'resolution-status': type === 'inline' ? options.resolutionStatus : undefined,
+      },
+    });
+    return response.data;
+  }
+
+  async getCommentReplies(
+    commentId: string,
+    type: CommentType,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResponse<PageComment>> {
+    const response = await this.client.get(`/${type}-comments/${commentId}/children`, {
+      params: {
+        'body-format': 'storage',
+        limit: options.limit || 25,
+        cursor: options.cursor,
+      },
+    });
+    return response.data;
+  }
+
+  async getComment(commentId: string, type: CommentType): Promise<PageComment> {
+    const response = await this.client.get(`/${type}-comments/${commentId}`, {
+      params: {
+        'body-format': 'storage',
+      },
+    });
+    return response.data;
+  }
+
+  async createComment(
+    type: CommentType,
+    target: { pageId: string } | { parentCommentId: string },
+    content: string,
+    inlineSelection?: { text: string; matchCount: number; matchIndex: number }
+  ): Promise<PageComment> {
+    const request = this.buildCreateCommentRequest(type, target, content, inlineSelection);
+    const response = await this.client.post(request.path, request.body);
+    return response.data;
+  }
+
+  async setInlineCommentResolved(comment: PageComment, resolved: boolean): Promise<PageComment> {
+    const request = this.buildResolveCommentRequest(comment, resolved);
+    const response = await this.client.put(request.path, request.body);
+    return response.data;
+  }
+
+  // Attachment operations
+  async getPageAttachments(
+    pageId: string,
+    options: { limit?: number; cursor?: string; filename?: string; mediaType?: string } = {}
+  ): Promise<PaginatedResponse<Attachment>> {
+    const response = await this.client.get(`/pages/${pageId}/attachments`, {
+      params: {
+        limit: options.limit || 25,
+        cursor: options.cursor,
+        filename: options.filename,
+        mediaType: options.mediaType,
+      },
+    });
+    return response.data;
+  }
+
+  async getAttachment(attachmentId: string): Promise<Attachment> {
+    const response = await this.client.get(`/attachments/${attachmentId}`);
+    return response.data;
+  }
+
+  async downloadAttachment(pageId: string, attachmentId: string): Promise<Buffer> {
+    const response = await this.clientV1.get(
+      `/content/${pageId}/child/attachment/${attachmentId}/download`,
+      { responseType: 'arraybuffer' }
+    );
+    return Buffer.from(response.data);
+  }
+
+  // Creates the attachment, or a new version when the page already has a file with this name
+  async uploadAttachment(
+    pageId: string,
+    file: { filename: string; data: Buffer; mediaType: string },
+    options: { comment?: string; minorEdit?: boolean } = {}
+  ): Promise<{ id: string; title: string; version: number; mediaType: string; fileSize: number }> {
+    const request = this.buildUploadAttachmentRequest(pageId, file, options);
+    const form = new FormData();
+    const blob = new Blob([new Uint8Array(file.data)], { type: file.mediaType });
+    form.append('file', blob, file.filename);
+    form.append('minorEdit', String(options.minorEdit ?? false));
+    if (options.comment) {
+      form.append('comment', options.comment);
+    }
+
+    // Override the JSON default so axios sends the form with its multipart boundary;
+    // Confluence rejects attachment uploads without the XSRF opt-out header
+    const response = await this.clientV1.put(request.path, form, {
+      headers: { 'Content-Type': 'multipart/form-data', 'X-Atlassian-Token': 'no-check' },
+    });
+    const attachment = response.data.results[0];
+    return {
+      id: attachment.id,
+      title: attachment.title,
+      version: attachment.version?.number,
+      mediaType: attachment.extensions?.mediaType,
+      fileSize: attachment.extensions?.fileSize,
+    };
+  }
+
   // Search operations
   async searchConfluenceContent(
     cql: string,
     options: {
       limit?: number;
       start?: number;
+      // Opaque cursor from a previous result; takes precedence over start
+      cursor?: string;
       plainText?: boolean;
     } = {}
   ): Promise<ConfluenceSearchResult> {
     try {
+      const position = options.cursor ? decodeCursor(options.cursor) : { start: options.start };
+      // v1 search only pages by offset; a cursor from a v2 listing cannot continue it
+      if (position.start === undefined && options.cursor) {
+        throw new ConfluenceError(
+          'This cursor is from a different listing; search cursors come from search results',
+          'INVALID_REQUEST'
+        );
+      }
+      const start = position.start ?? 0;
       const isPlainText = options.plainText === true;
       const escapedText = cql.replace(/"/g, '\\"'); // eslint-disable-line no-useless-escape
       const cqlQuery = isPlainText ? `text ~ "${escapedText}"` : cql;
@@ -496,15 +912,23 @@ export class ConfluenceClient {
         params: {
           cql: cqlQuery,
           limit: options.limit ?? 25,
-          start: options.start ?? 0,
+          start,
           expand: 'content.space,content.version,content.body.view.value',
         },
       });
 
       console.error(`Found ${response.data.results?.length || 0} results`);
 
+      // The next link is relative and pages by start, so the cursor carries the offset
+      const results: any[] = response.data.results || [];
+      const end = (response.data.start ?? start) + results.length;
+      const totalSize: number | undefined = response.data.totalSize;
+      const hasMore =
+        results.length > 0 &&
+        (!!response.data._links?.next || (totalSize !== undefined && end < totalSize));
+
       return {
-        results: (response.data.results || []).map((result: any) => ({
+        results: results.map((result: any) => ({
           content: {
             id: result.content.id,
             type: result.content.type,
@@ -517,9 +941,11 @@ export class ConfluenceClient {
           lastModified: result.content.version?.when,
           excerpt: result.excerpt || '',
         })),
-        start: response.data.start ?? 0,
+        start: response.data.start ?? start,
         limit: response.data.limit ?? 25,
         size: response.data.size ?? 0,
+        totalSize,
+        nextCursor: hasMore ? encodeCursor({ start: end }) : undefined,
         _links: {
           next: response.data._links?.next,
           self: response.data._links?.self || '',
@@ -528,12 +954,43 @@ export class ConfluenceClient {
     } catch (error) {
       if (isAxiosError(error)) {
         console.error('Error searching content:', error.message, error.response?.data);
-        throw new ConfluenceError(`Failed to search content: ${error.message}`, 'SEARCH_FAILED');
+        // Only a 400 means the CQL itself is invalid; keep the status so callers can tell
+        const data = error.response?.data as { message?: string } | undefined;
+        throw new ConfluenceError(
+          `Failed to search content: ${data?.message || error.message}`,
+          'SEARCH_FAILED',
+          error.response?.status
+        );
       }
       throw error;
     }
   }
 
+  /**
+   * Walk all search results, up to maxItems, with the same opaque cursors as
+   * searchConfluenceContent. onTotalSize receives the match count of each page.
+   */
+  paginateSearchResults(
+    cql: string,
+    options: Omit<PaginateOptions, 'beforeNextPage'> & {
+      plainText?: boolean;
+      onTotalSize?: (totalSize: number | undefined) => void;
+    } = {}
+  ): AsyncGenerator<ConfluenceSearchResult['results'][number], string | undefined> {
+    return paginate(
+      async (cursor, limit) => {
+        const response = await this.searchConfluenceContent(cql, {
+          limit,
+          cursor,
+          plainText: options.plainText,
+        });
+        options.onTotalSize?.(response.totalSize);
+        return { results: response.results, nextCursor: response.nextCursor };
+      },
+      this.paginationOptions({ pageSize: 100, cursor: options.cursor, maxItems: options.maxItems })
+    );
+  }
+
   // V1 Search implementation with CQL support (advanced search)
   async searchContentV1(
     cql: string,
@@ -554,34 +1011,159 @@ export class ConfluenceClient {
   }
 
   // Content property operations
-  async setContentProperty(pageId: string, key: string, value: any): Promise<void> {
+  async getContentProperties(
+    pageId: string,
+    options: { limit?: number; cursor?: string; key?: string } = {}
+  ): Promise<PaginatedResponse<ContentProperty>> {
+    const response = await this.client.get(`/pages/${pageId}/properties`, {
+      params: {
+        limit: options.limit || 25,
+        cursor: options.cursor,
+        key: options.key,
+      },
+    });
+    return response.data;
+  }
+
+  // The v2 API addresses properties by ID, so look the key up first
+  async getContentProperty(pageId: string, key: string): Promise<ContentProperty | undefined> {
+    const response = await this.getContentProperties(pageId, { key, limit: 1 });
+    return response.results[0];
+  }
+
+  // Creates the property or updates it to the next version. With expectedVersion the update
+  // only goes ahead if nobody changed the property since that version was read.
+  async setContentProperty(
+    pageId: string,
+    key: string,
+    value: unknown,
+    options: { expectedVersion?: number; message?: string } = {}
+  ): Promise<ContentProperty> {
+    const existing = await this.getContentProperty(pageId, key);
+    const request = this.buildSetContentPropertyRequest(pageId, key, value, existing, options);
+
     try {
-      // Try V2 API first (if available)
-      await this.client.put(`/pages/${pageId}/properties/${key}`, {
-        key,
-        value,
+      const response =
+        request.method === 'POST'
+          ? await this.client.post(request.path, request.body)
+          : await this.client.put(request.path, request.body);
+      return response.data;
+    } catch (error) {
+      if (error instanceof ConfluenceError) {
+        throw error;
+      }
+      console.error('Error setting content property:', error);
+      throw new ConfluenceError(
+        `Failed to set content property: ${error instanceof Error ? error.message : String(error)}`,
+        'PROPERTY_SET_FAILED'
+      );
+    }
+  }
+
+  async deleteContentProperty(pageId: string, key: string): Promise<ContentProperty> {
+    const existing = await this.getContentProperty(pageId, key);
+    if (!existing) {
+      throw new ConfluenceError(
+        `Property "${key}" not found on page ${pageId}`,
+        'PROPERTY_NOT_FOUND'
+      );
+    }
+    await this.client.delete(this.buildDeleteContentPropertyRequest(pageId, existing).path);
+    return existing;
+  }
+
+  // Restriction operations (v1 API)
+  async getPageRestrictions(pageId: string): Promise<PageRestriction[]> {
+    try {
+      const response = await this.clientV1.get(`/content/${pageId}/restriction`, {
+        params: { expand: 'restrictions.user,restrictions.group' },
       });
+      return response.data.results.map((result: any) => ({
+        operation: result.operation,
+        users: (result.restrictions?.user?.results || []).map((user: any) => ({
+          accountId: user.accountId,
+          displayName: user.displayName,
+        })),
+        groups: (result.restrictions?.group?.results || []).map((group: any) => ({
+          name: group.name,
+          id: group.id,
+        })),
+      }));
     } catch (error) {
-      // Fall back to V1 API
-      if (isAxiosError(error) && error.response?.status === 404) {
-        await this.clientV1.put(`/content/${pageId}/property/${key}`, {
-          key,
-          value,
-        });
-        return;
+      if (isAxiosError(error)) {
+        switch (error.response?.status) {
+          case 404:
+            throw new ConfluenceError(`Page ${pageId} not found`, 'PAGE_NOT_FOUND');
+          case 403:
+            throw new ConfluenceError(
+              'Insufficient permissions to view the restrictions of this page',
+              'PERMISSION_DENIED'
+            );
+        }
       }
+      throw error;
+    }
+  }
 
+  async setPageRestrictions(pageId: string, restrictions: PageRestriction[]): Promise<void> {
+    const request = this.buildSetPageRestrictionsRequest(pageId, restrictions);
+    try {
+      await this.clientV1.put(request.path, request.body);
+    } catch (error) {
       if (isAxiosError(error)) {
-        console.error('Error setting content property:', error.response?.data);
-        throw new ConfluenceError(
-          `Failed to set content property: ${error.message}`,
-          'PROPERTY_SET_FAILED'
-        );
+        console.error('Error setting page restrictions:', error.response?.data);
+
+        switch (error.response?.status) {
+          case 404:
+            throw new ConfluenceError(`Page ${pageId} not found`, 'PAGE_NOT_FOUND');
+          case 403:
+            throw new ConfluenceError(
+              'Insufficient permissions to change the restrictions of this page',
+              'PERMISSION_DENIED'
+            );
+          case 400:
+            throw new ConfluenceError(
+              `Invalid restrictions: ${error.response?.data?.message || error.message}`,
+              'INVALID_REQUEST'
+            );
+          default:
+            throw new ConfluenceError(
+              `Failed to set page restrictions: ${error.message}`,
+              'RESTRICTION_UPDATE_FAILED'
+            );
+        }
       }
       throw error;
     }
   }
 
+  // Template and user operations (v1 API)
+  async getPageTemplates(
+    spaceKey?: string,
+    options: { limit?: number; start?: number } = {}
+  ): Promise<{ results: PageTemplate[]; size: number }> {
+    const response = await this.clientV1.get('/template/page', {
+      params: {
+        spaceKey,
+        limit: options.limit || 100,
+        start: options.start,
+      },
+    });
+    return response.data;
+  }
+
+  async getPageTemplate(templateId: string): Promise<PageTemplate> {
+    const response = await this.clientV1.get(`/template/${templateId}`, {
+      params: { expand: 'body.storage' },
+    });
+    return response.data;
+  }
+
+  async getCurrentUser(): Promise<{ accountId: string; displayName: string; email?: string }> {
+    const response = await this.clientV1.get('/user/current');
+    return response.data;
+  }
+
   // Move page to a new location
   async moveConfluencePage(
     pageId: string,
@@ -590,7 +1172,8 @@ export class ConfluenceClient {
   ): Promise<void> {
     try {
       // Use V1 API for move operation as it's the documented approach
-      await this.clientV1.put(`/content/${pageId}/move/${position}/${targetParentId}`, {}, {
+      const request = this.buildMovePageRequest(pageId, targetParentId, position);
+      await this.clientV1.put(request.path, request.body, {
         headers: {
           'Atl-Confluence-With-Admin-Key': true,
         },
@@ -626,6 +1209,444 @@ export class ConfluenceClient {
     }
   }
 
+  // Trash and restore operations: the v2 page listing filters by status=trashed, while
+  // deleting and restoring go through the v1 content API
+  async getTrashedPages(
+    spaceId: string,
+    options: { limit?: number; cursor?: string } = {}
+  ): Promise<PaginatedResponse<Page>> {
+    const response = await this.client.get('/pages', {
+      params: {
+        'space-id': spaceId,
+        status: 'trashed',
+        limit: options.limit || 25,
+        cursor: options.cursor,
+      },
+    });
+    return response.data;
+  }
+
+  async deleteConfluencePage(
+    pageId: string,
+    options: { purge?: boolean } = {}
+  ): Promise<{ id: string; title: string; status: 'trashed' | 'purged' }> {
+    try {
+      const { id, title, status } = await this.getContentStatus(pageId);
+      for (const request of this.buildDeletePageRequests(pageId, status, options)) {
+        await (request.params
+          ? this.clientV1.delete(request.path, { params: request.params })
+          : this.clientV1.delete(request.path));
+      }
+
+      return { id, title, status: options.purge ? 'purged' : 'trashed' };
+    } catch (error) {
+      if (isAxiosError(error)) {
+        console.error('Error deleting page:', error.response?.data);
+
+        switch (error.response?.status) {
+          case 404:
+            throw new ConfluenceError(`Page ${pageId} not found`, 'PAGE_NOT_FOUND');
+          case 403:
+            throw new ConfluenceError(
+              options.purge
+                ? 'Insufficient permissions to purge this page (requires space admin)'
+                : 'Insufficient permissions to delete this page',
+              'PERMISSION_DENIED'
+            );
+          case 400:
+          case 409:
+            throw new ConfluenceError(
+              `Invalid delete operation: ${error.response?.data?.message || error.message}`,
+              'INVALID_REQUEST'
+            );
+          default:
+            throw new ConfluenceError(
+              `Failed to delete page: ${error.message}`,
+              'DELETE_FAILED'
+            );
+        }
+      }
+      throw error;
+    }
+  }
+
+  async restoreConfluencePage(
+    pageId: string,
+    versionOptions: VersionOptions = {}
+  ): Promise<{ id: string; title: string; version: number }> {
+    try {
+      const trashed = await this.getTrashedPage(pageId);
+      const request = this.buildRestorePageRequest(trashed, versionOptions);
+      const restored = await this.clientV1.put(request.path, request.body);
+
+      return {
+        id: restored.data.id,
+        title: restored.data.title,
+        version: restored.data.version?.number ?? trashed.version + 1,
+      };
+    } catch (error) {
+      if (isAxiosError(error)) {
+        console.error('Error restoring page:', error.response?.data);
+
+        switch (error.response?.status) {
+          case 404:
+            throw new ConfluenceError(
+              `Page ${pageId} not found in the trash`,
+              'PAGE_NOT_FOUND'
+            );
+          case 403:
+            throw new ConfluenceError(
+              'Insufficient permissions to restore this page',
+              'PERMISSION_DENIED'
+            );
+          case 400:
+          case 409:
+            throw new ConfluenceError(
+              `Invalid restore operation: ${error.response?.data?.message || error.message}`,
+              'INVALID_REQUEST'
+            );
+          default:
+            throw new ConfluenceError(
+              `Failed to restore page: ${error.message}`,
+              'RESTORE_FAILED'
+            );
+        }
+      }
+      throw error;
+    }
+  }
+
+  // Current status of any content, including trashed pages (v1 API)
+  async getContentStatus(pageId: string): Promise<{ id: string; title: string; status: string }> {
+    const response = await this.clientV1.get(`/content/${pageId}`, {
+      params: { status: 'any' },
+    });
+    const { id, title, status } = response.data;
+    return { id, title, status };
+  }
+
+  async getTrashedPage(
+    pageId: string
+  ): Promise<{ id: string; type: string; title: string; version: number }> {
+    const response = await this.clientV1.get(`/content/${pageId}`, {
+      params: { status: 'trashed', expand: 'version' },
+    });
+    const { id, type, title, version } = response.data;
+    return { id, type, title, version: version.number };
+  }
+
+  // Write request builders, shared by the write operations and by dry runs
+  buildCreatePageRequest(
+    spaceId: string,
+    title: string,
+    content: string,
+    parentId?: string,
+    representation: BodyRepresentation = 'storage'
+  ): ApiRequest {
+    return {
+      method: 'POST',
+      api: 'v2',
+      path: '/pages',
+      body: {
+        spaceId,
+        status: 'current',
+        title,
+        parentId,
+        body: {
+          representation,
+          value: content,
+        },
+      },
+    };
+  }
+
+  buildUpdatePageRequest(
+    pageId: string,
+    title: string,
+    content: string,
+    version: number,
+    representation: BodyRepresentation = 'storage',
+    versionOptions: VersionOptions = {}
+  ): ApiRequest {
+    return {
+      method: 'PUT',
+      api: 'v2',
+      path: `/pages/${pageId}`,
+      body: {
+        id: pageId,
+        status: 'current',
+        title,
+        body: {
+          representation,
+          value: content,
+        },
+        version: {
+          number: version,
+          message: versionOptions.message || 'Updated via API',
+          minorEdit: versionOptions.minorEdit ?? false,
+        },
+      },
+    };
+  }
+
+  buildCreateBlogPostRequest(
+    spaceId: string,
+    title: string,
+    content: string,
+    representation: BodyRepresentation = 'storage'
+  ): ApiRequest {
+    return {
+      method: 'POST',
+      api: 'v2',
+      path: '/blogposts',
+      body: {
+        spaceId,
+        status: 'current',
+        title,
+        body: {
+          representation,
+          value: content,
+        },
+      },
+    };
+  }
+
+  // Same body as a page update, on the blog post endpoint
+  buildUpdateBlogPostRequest(
+    blogPostId: string,
+    title: string,
+    content: string,
+    version: number,
+    representation: BodyRepresentation = 'storage',
+    versionOptions: VersionOptions = {}
+  ): ApiRequest {
+    const request = this.buildUpdatePageRequest(
+      blogPostId,
+      title,
+      content,
+      version,
+      representation,
+      versionOptions
+    );
+    return { ...request, path: `/blogposts/${blogPostId}` };
+  }
+
+  buildDeleteBlogPostRequests(
+    blogPostId: string,
+    status: string,
+    options: { purge?: boolean } = {}
+  ): ApiRequest[] {
+    const requests: ApiRequest[] = [];
+
+    // Like pages, blog posts must be in the trash before they can be purged
+    if (status === 'current' || status === 'draft') {
+      requests.push({ method: 'DELETE', api: 'v2', path: `/blogposts/${blogPostId}` });
+    }
+    if (options.purge) {
+      requests.push({
+        method: 'DELETE',
+        api: 'v2',
+        path: `/blogposts/${blogPostId}`,
+        params: { purge: 'true' },
+      });
+    }
+    return requests;
+  }
+
+  buildCreateFolderRequest(spaceId: string, title: string, parentId?: string): ApiRequest {
+    return { method: 'POST', api: 'v2', path: '/folders', body: { spaceId, title, parentId } };
+  }
+
+  buildMovePageRequest(
+    pageId: string,
+    targetParentId: string,
+    position: 'append' | 'before' | 'after' = 'append'
+  ): ApiRequest {
+    return {
+      method: 'PUT',
+      api: 'v1',
+      path: `/content/${pageId}/move/${position}/${targetParentId}`,
+      body: {},
+    };
+  }
+
+  buildAddLabelRequest(pageId: string, label: string): ApiRequest {
+    return { method: 'POST', api: 'v2', path: `/pages/${pageId}/labels`, body: { name: label } };
+  }
+
+  buildRemoveLabelRequest(pageId: string, label: string): ApiRequest {
+    return { method: 'DELETE', api: 'v2', path: `/pages/${pageId}/labels/${label}` };
+  }
+
+  buildDeletePageRequests(
+    pageId: string,
+    status: string,
+    options: { purge?: boolean } = {}
+  ): ApiRequest[] {
+    const requests: ApiRequest[] = [];
+
+    // Pages must be in the trash before they can be purged
+    if (status === 'current' || status === 'draft' || status === 'archived') {
+      requests.push({ method: 'DELETE', api: 'v1', path: `/content/${pageId}` });
+    }
+    if (options.purge) {
+      requests.push({
+        method: 'DELETE',
+        api: 'v1',
+        path: `/content/${pageId}`,
+        params: { status: 'trashed' },
+      });
+    }
+    return requests;
+  }
+
+  buildCreateCommentRequest(
+    type: CommentType,
+    target: { pageId: string } | { parentCommentId: string },
+    content: string,
+    inlineSelection?: { text: string; matchCount: number; matchIndex: number }
+  ): ApiRequest {
+    return {
+      method: 'POST',
+      api: 'v2',
+      path: `/${type}-comments`,
+      body: {
+        ...target,
+        body: {
+          representation: 'storage',
+          value: content,
+        },
+        // Inline comments anchor to one occurrence of the selected text on the page
+        ...(inlineSelection && {
+          inlineCommentProperties: {
+            textSelection: inlineSelection.text,
+            textSelectionMatchCount: inlineSelection.matchCount,
+            textSelectionMatchIndex: inlineSelection.matchIndex,
+          },
+        }),
+      },
+    };
+  }
+
+  // Only inline comments can be resolved; the update must carry the body and next version
+  buildResolveCommentRequest(comment: PageComment, resolved: boolean): ApiRequest {
+    return {
+      method: 'PUT',
+      api: 'v2',
+      path: `/inline-comments/${comment.id}`,
+      body: {
+        version: {
+          number: comment.version.number + 1,
+          message: resolved ? 'Resolved' : 'Reopened',
+        },
+        body: {
+          representation: 'storage',
+          value: comment.body?.storage?.value || '',
+        },
+        resolved,
+      },
+    };
+  }
+
+  buildSetContentPropertyRequest(
+    pageId: string,
+    key: string,
+    value: unknown,
+    existing: ContentProperty | undefined,
+    options: { expectedVersion?: number; message?: string } = {}
+  ): ApiRequest {
+    const currentVersion = existing?.version.number ?? 0;
+    if (options.expectedVersion !== undefined && options.expectedVersion !== currentVersion) {
+      throw new ConfluenceError(
+        `Property "${key}" is at version ${currentVersion}, expected ${options.expectedVersion}`,
+        'VERSION_CONFLICT'
+      );
+    }
+
+    if (!existing) {
+      return {
+        method: 'POST',
+        api: 'v2',
+        path: `/pages/${pageId}/properties`,
+        body: { key, value },
+      };
+    }
+    return {
+      method: 'PUT',
+      api: 'v2',
+      path: `/pages/${pageId}/properties/${existing.id}`,
+      body: {
+        key,
+        value,
+        version: {
+          number: currentVersion + 1,
+          ...(options.message && { message: options.message }),
+        },
+      },
+    };
+  }
+
+  buildDeleteContentPropertyRequest(pageId: string, property: ContentProperty): ApiRequest {
+    return { method: 'DELETE', api: 'v2', path: `/pages/${pageId}/properties/${property.id}` };
+  }
+
+  // The PUT replaces every restriction on the page, so include all operations
+  buildSetPageRestrictionsRequest(pageId: string, restrictions: PageRestriction[]): ApiRequest {
+    return {
+      method: 'PUT',
+      api: 'v1',
+      path: `/content/${pageId}/restriction`,
+      body: restrictions.map((restriction) => ({
+        operation: restriction.operation,
+        restrictions: {
+          user: restriction.users.map((user) => ({ type: 'known', accountId: user.accountId })),
+          group: restriction.groups.map((group) => ({ type: 'group', name: group.name })),
+        },
+      })),
+    };
+  }
+
+  // The file itself is summarized; it is sent as multipart form data
+  buildUploadAttachmentRequest(
+    pageId: string,
+    file: { filename: string; data: Buffer; mediaType: string },
+    options: { comment?: string; minorEdit?: boolean } = {}
+  ): ApiRequest {
+    return {
+      method: 'PUT',
+      api: 'v1',
+      path: `/content/${pageId}/child/attachment`,
+      body: {
+        file: { filename: file.filename, mediaType: file.mediaType, size: file.data.length },
+        minorEdit: options.minorEdit ?? false,
+        ...(options.comment && { comment: options.comment }),
+      },
+    };
+  }
+
+  // Updating trashed content to current with the next version number restores it
+  buildRestorePageRequest(
+    trashed: { id: string; type: string; title: string; version: number },
+    versionOptions: VersionOptions = {}
+  ): ApiRequest {
+    return {
+      method: 'PUT',
+      api: 'v1',
+      path: `/content/${trashed.id}`,
+      body: {
+        id: trashed.id,
+        type: trashed.type,
+        title: trashed.title,
+        status: 'current',
+        version: {
+          number: trashed.version + 1,
+          ...(versionOptions.message && { message: versionOptions.message }),
+          ...(versionOptions.minorEdit !== undefined && { minorEdit: versionOptions.minorEdit }),
+        },
+      },
+    };
+  }
+
   // Get rate limit information
   getRateLimitInfo(): RateLimitInfo {
     return { ...this.rateLimitInfo };
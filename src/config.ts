@@ -1,12 +1,13 @@
-import { readFile } from 'fs/promises';
+import { chmod, readFile, writeFile } from 'fs/promises';
 import { homedir } from 'os';
 import { join } from 'path';
 
 import type { ConfluenceConfig } from './types/index.js';
 
 export interface InstanceConfig {
-  email: string;
-  apiToken: string;
+  // Basic auth (not needed for OAuth instances)
+  email?: string;
+  apiToken?: string;
   domain: string;
   spaces?: string[];
   // OAuth2 fields
@@ -14,12 +15,32 @@ export interface InstanceConfig {
   oauthRefreshToken?: string;
   oauthClientId?: string;
   oauthClientSecret?: string;
+  // Site cloudId for OAuth instances (looked up from the token if omitted)
+  cloudId?: string;
+}
+
+// Named page template: a local file or a Confluence page template
+export interface PageTemplateConfig {
+  description?: string;
+  // Markdown or storage file; relative paths resolve against the config file's directory
+  file?: string;
+  // Format of the file (default: markdown for .md files, storage otherwise)
+  format?: 'markdown' | 'storage';
+  // ID of a Confluence space or global page template, used instead of file
+  templateId?: string;
+  // Default title of new pages, may contain {{variables}}
+  title?: string;
+  parentPageId?: string;
+  labels?: string[];
+  // Default values for template variables
+  variables?: Record<string, string>;
 }
 
 interface SpaceConfig {
   instance: string;
   defaultParentPageId?: string;
   defaultLabels?: string[];
+  templates?: Record<string, PageTemplateConfig>;
 }
 
 interface MultiInstanceConfig {
@@ -33,6 +54,14 @@ let configCache: MultiInstanceConfig | null = null;
 let configLoadTime = 0;
 const CONFIG_TTL = 5 * 60 * 1000; // 5 minutes
 
+/**
+ * Path of the configuration file: CONFLUENCE_CONFIG_FILE (set from
+ * CONFLUENCE_CONFIG_PATH by config-loader) or ~/.confluence-config.json
+ */
+export function getConfigPath(): string {
+  return process.env.CONFLUENCE_CONFIG_FILE || join(homedir(), '.confluence-config.json');
+}
+
 /**
  * Load multi-instance configuration from .confluence-config.json
  */
@@ -42,10 +71,7 @@ export async function loadMultiInstanceConfig(): Promise<MultiInstanceConfig> {
     return configCache;
   }
 
-  // Check for custom config path first (from CONFLUENCE_CONFIG_PATH via config-loader)
-  // then default to ~/.confluence-config.json
-  const configPath =
-    process.env.CONFLUENCE_CONFIG_FILE || join(homedir(), '.confluence-config.json');
+  const configPath = getConfigPath();
 
   try {
     const configData = await readFile(configPath, 'utf-8');
@@ -58,8 +84,13 @@ export async function loadMultiInstanceConfig(): Promise<MultiInstanceConfig> {
 
     // Validate each instance
     for (const [name, instance] of Object.entries(config.instances)) {
-      if (!instance.email || !instance.apiToken || !instance.domain) {
-        throw new Error(`Instance "${name}" missing required fields (email, apiToken, domain)`);
+      if (
+        !instance.domain ||
+        (!instance.oauthAccessToken && (!instance.email || !instance.apiToken))
+      ) {
+        throw new Error(
+          `Instance "${name}" missing required fields (domain and either email/apiToken or oauthAccessToken)`
+        );
       }
     }
 
@@ -103,6 +134,7 @@ function createConfigFromEnv(): MultiInstanceConfig {
         oauthRefreshToken: process.env.CONFLUENCE_OAUTH_REFRESH_TOKEN,
         oauthClientId: process.env.CONFLUENCE_OAUTH_CLIENT_ID,
         oauthClientSecret: process.env.CONFLUENCE_OAUTH_CLIENT_SECRET,
+        cloudId: process.env.CONFLUENCE_CLOUD_ID,
       },
     },
     defaultInstance: 'default',
@@ -217,6 +249,7 @@ export function instanceToConfluenceConfig(instance: InstanceConfig): Confluence
   if (instance.oauthAccessToken) {
     return {
       domain: instance.domain,
+      cloudId: instance.cloudId,
       auth: {
         type: 'oauth2',
         accessToken: instance.oauthAccessToken,
@@ -238,6 +271,39 @@ export function instanceToConfluenceConfig(instance: InstanceConfig): Confluence
   };
 }
 
+/**
+ * Add an instance to the configuration file or update the fields of an
+ * existing one, keeping the rest of the file as it is. The file holds
+ * credentials, so it is written with 0600.
+ */
+export async function saveInstanceConfig(
+  name: string,
+  instance: InstanceConfig,
+  options: { makeDefault?: boolean } = {}
+): Promise<string> {
+  const configPath = getConfigPath();
+
+  let config: MultiInstanceConfig = { instances: {} };
+  try {
+    config = JSON.parse(await readFile(configPath, 'utf-8')) as MultiInstanceConfig;
+    config.instances = config.instances || {};
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  config.instances[name] = { ...config.instances[name], ...instance };
+  if (options.makeDefault || Object.keys(config.instances).length === 1) {
+    config.defaultInstance = name;
+  }
+
+  await writeFile(configPath, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+  await chmod(configPath, 0o600);
+  clearConfigCache();
+  return configPath;
+}
+
 /**
  * Clear config cache (useful for testing or config updates)
  */
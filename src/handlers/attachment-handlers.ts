@@ -0,0 +1,305 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { Attachment } from '../types/index.js';
+import { dryRunResponse } from '../utils/dry-run.js';
+import { nextCursor } from '../utils/pagination.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+// Largest download returned inline by default, and the most a caller may raise it to
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const MAX_BYTES_LIMIT = 10 * 1024 * 1024;
+
+const TEXT_MEDIA_TYPES = [
+  /^text\//,
+  /[/+]json$/,
+  /[/+]xml$/,
+  /\/(x-)?yaml$/,
+  /\/(x-)?javascript$/,
+  /\/csv$/,
+];
+
+function isTextMediaType(mediaType: string): boolean {
+  return TEXT_MEDIA_TYPES.some((pattern) => pattern.test(mediaType));
+}
+
+function simplifyAttachment(attachment: Attachment) {
+  return {
+    id: attachment.id,
+    title: attachment.title,
+    mediaType: attachment.mediaType,
+    fileSize: attachment.fileSize,
+    comment: attachment.comment,
+    pageId: attachment.pageId,
+    version: attachment.version?.number,
+    createdAt: attachment.createdAt,
+    downloadLink: attachment.downloadLink,
+    url: attachment.webuiLink,
+  };
+}
+
+interface ListPageAttachmentsArgs extends ToolArgs {
+  pageId: string;
+  limit?: number;
+  cursor?: string;
+  filename?: string;
+  mediaType?: string;
+}
+
+export async function handleListPageAttachments(args: ListPageAttachmentsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const response = await client.getPageAttachments(toolArgs.pageId, {
+          limit: toolArgs.limit,
+          cursor: toolArgs.cursor,
+          filename: toolArgs.filename,
+          mediaType: toolArgs.mediaType,
+        });
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          results: response.results.map(simplifyAttachment),
+          cursor: nextCursor(response._links),
+          hasMore: !!response._links.next,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error listing attachments:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to list attachments: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface GetAttachmentArgs extends ToolArgs {
+  attachmentId?: string;
+  pageId?: string;
+  filename?: string;
+  encoding?: 'auto' | 'base64' | 'text';
+  maxBytes?: number;
+}
+
+export async function handleGetAttachment(args: GetAttachmentArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        let attachment: Attachment | undefined;
+        if (toolArgs.attachmentId) {
+          attachment = await client.getAttachment(toolArgs.attachmentId);
+        } else if (toolArgs.pageId && toolArgs.filename) {
+          const response = await client.getPageAttachments(toolArgs.pageId, {
+            filename: toolArgs.filename,
+            limit: 1,
+          });
+          attachment = response.results[0];
+          if (!attachment) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `No attachment named "${toolArgs.filename}" on page ${toolArgs.pageId}`
+            );
+          }
+        } else {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            'Provide attachmentId, or pageId together with filename'
+          );
+        }
+
+        const pageId = attachment.pageId || toolArgs.pageId;
+        const maxBytes = Math.min(toolArgs.maxBytes || DEFAULT_MAX_BYTES, MAX_BYTES_LIMIT);
+        const metadata = { instance: instanceName, ...simplifyAttachment(attachment) };
+
+        // Oversized files (and attachments not on a page) are described but not downloaded
+        if (!pageId || attachment.fileSize > maxBytes) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    ...metadata,
+                    note: pageId
+                      ? `Content omitted: ${attachment.fileSize} bytes exceeds maxBytes (${maxBytes})`
+                      : 'Content omitted: the attachment does not belong to a page',
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const data = await client.downloadAttachment(pageId, attachment.id);
+        const mediaType = attachment.mediaType || 'application/octet-stream';
+        const encoding =
+          toolArgs.encoding && toolArgs.encoding !== 'auto'
+            ? toolArgs.encoding
+            : isTextMediaType(mediaType)
+              ? 'text'
+              : 'base64';
+
+        // Images go out as embedded resources so clients can render them
+        if (mediaType.startsWith('image/') && encoding === 'base64') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(metadata, null, 2),
+              },
+              {
+                type: 'resource',
+                resource: {
+                  uri: `confluence://${instanceName}/attachments/${attachment.id}`,
+                  mimeType: mediaType,
+                  blob: data.toString('base64'),
+                },
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  ...metadata,
+                  encoding,
+                  content: encoding === 'text' ? data.toString('utf8') : data.toString('base64'),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting attachment:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to get attachment: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface UploadAttachmentArgs extends ToolArgs {
+  pageId: string;
+  filename: string;
+  content?: string;
+  text?: string;
+  mediaType?: string;
+  comment?: string;
+  minorEdit?: boolean;
+  dryRun?: boolean;
+}
+
+export async function handleUploadAttachment(args: UploadAttachmentArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if ((toolArgs.content === undefined) === (toolArgs.text === undefined)) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            'Provide exactly one of content (base64) or text'
+          );
+        }
+
+        const file = {
+          filename: toolArgs.filename,
+          data:
+            toolArgs.text !== undefined
+              ? Buffer.from(toolArgs.text, 'utf8')
+              : Buffer.from(toolArgs.content as string, 'base64'),
+          mediaType:
+            toolArgs.mediaType ||
+            (toolArgs.text !== undefined ? 'text/plain' : 'application/octet-stream'),
+        };
+        const options = { comment: toolArgs.comment, minorEdit: toolArgs.minorEdit };
+
+        if (toolArgs.dryRun) {
+          const existing = await client.getPageAttachments(toolArgs.pageId, {
+            filename: toolArgs.filename,
+            limit: 1,
+          });
+          return dryRunResponse(
+            instanceName,
+            [client.buildUploadAttachmentRequest(toolArgs.pageId, file, options)],
+            {
+              pageId: toolArgs.pageId,
+              existingAttachment: existing.results[0]
+                ? simplifyAttachment(existing.results[0])
+                : undefined,
+            }
+          );
+        }
+
+        const uploaded = await client.uploadAttachment(toolArgs.pageId, file, options);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message:
+                    uploaded.version > 1
+                      ? `Uploaded version ${uploaded.version} of ${uploaded.title}`
+                      : `Uploaded ${uploaded.title}`,
+                  pageId: toolArgs.pageId,
+                  ...uploaded,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error uploading attachment:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to upload attachment: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
@@ -0,0 +1,397 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { BlogPost, ContentFormat } from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+import { updateVersionedContent } from '../utils/content-write.js';
+import type { ContentUpdateArgs } from '../utils/content-write.js';
+import { dryRunResponse } from '../utils/dry-run.js';
+import { readPageBody, toPageBody } from '../utils/page-body.js';
+import type { BodyFormat } from '../utils/page-body.js';
+import { nextCursor } from '../utils/pagination.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+/**
+ * Parse a from/to bound; a bare date covers that whole day
+ */
+function parseDateBound(value: string | undefined, bound: 'from' | 'to'): number | undefined {
+  if (!value) return undefined;
+  const endOfDay = bound === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = Date.parse(endOfDay ? `${value}T23:59:59.999Z` : value);
+  if (Number.isNaN(time)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${bound} date: ${value}`);
+  }
+  return time;
+}
+
+function toBlogPostMcpError(error: unknown, action: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (error instanceof ConfluenceError && error.code === 'VERSION_CONFLICT') {
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      `Failed to ${action} (VERSION_CONFLICT): ${error.message}. Pass the current version number plus 1.`
+    );
+  }
+  if (error instanceof ConfluenceError && error.code === 'PERMISSION_DENIED') {
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      `Failed to ${action} (PERMISSION_DENIED): ${error.message}`
+    );
+  }
+  return new McpError(
+    ErrorCode.InternalError,
+    `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`
+  );
+}
+
+interface ListBlogPostsArgs extends ToolArgs {
+  spaceId: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  cursor?: string;
+  sort?: 'created-date' | '-created-date' | 'modified-date' | '-modified-date';
+  status?: 'current' | 'draft' | 'trashed';
+}
+
+export async function handleListBlogPosts(args: ListBlogPostsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresSpace: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const from = parseDateBound(toolArgs.from, 'from');
+        const to = parseDateBound(toolArgs.to, 'to');
+        const dateFiltered = from !== undefined || to !== undefined;
+
+        // Date ranges walk the posts newest first, stopping once they are older than `from`.
+        // Each request asks only for what is left of the limit, so the results never exceed
+        // it and the cursor resumes right after the last one returned
+        const limit = toolArgs.limit || 25;
+        const posts: BlogPost[] = [];
+        let cursor = toolArgs.cursor;
+        let pastRange = false;
+        do {
+          const response = await client.getBlogPosts(toolArgs.spaceId, {
+            limit: limit - posts.length,
+            cursor,
+            status: toolArgs.status,
+            sort: dateFiltered ? '-created-date' : toolArgs.sort,
+          });
+          cursor = nextCursor(response._links);
+
+          for (const post of response.results) {
+            const created = Date.parse(post.createdAt);
+            if (from !== undefined && created < from) {
+              pastRange = true;
+              break;
+            }
+            if (to === undefined || created <= to) {
+              posts.push(post);
+            }
+          }
+        } while (dateFiltered && cursor && !pastRange && posts.length < limit);
+
+        const simplified = {
+          instance: instanceName,
+          spaceId: toolArgs.spaceId,
+          results: posts.map((post) => ({
+            id: post.id,
+            title: post.title,
+            status: post.status?.value,
+            authorId: post.authorId,
+            createdAt: post.createdAt,
+            version: post.version?.number,
+            url: post._links?.webui,
+          })),
+          cursor: pastRange ? undefined : cursor,
+          hasMore: !pastRange && !!cursor,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error listing blog posts:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toBlogPostMcpError(error, 'list blog posts');
+      }
+    }
+  );
+}
+
+interface GetBlogPostArgs extends ToolArgs {
+  blogPostId: string;
+  bodyFormat?: BodyFormat;
+}
+
+export async function handleGetBlogPost(args: GetBlogPostArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const post = await client.getBlogPost(
+          toolArgs.blogPostId,
+          toolArgs.bodyFormat === 'adf' ? 'atlas_doc_format' : 'storage'
+        );
+        const { markdown, adf } = readPageBody(post);
+
+        const simplified = {
+          instance: instanceName,
+          title: post.title,
+          content: markdown,
+          ...(adf && { adf }),
+          metadata: {
+            id: post.id,
+            spaceId: post.spaceId,
+            status: post.status?.value,
+            version: post.version.number,
+            authorId: post.authorId,
+            createdAt: post.createdAt,
+            lastModified: post.version.createdAt,
+            url: post._links.webui,
+          },
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting blog post:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toBlogPostMcpError(error, 'get blog post');
+      }
+    }
+  );
+}
+
+interface CreateBlogPostArgs extends ToolArgs {
+  spaceId: string;
+  title: string;
+  content: string;
+  contentFormat?: ContentFormat;
+  bodyFormat?: BodyFormat;
+  dryRun?: boolean;
+}
+
+export async function handleCreateBlogPost(args: CreateBlogPostArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresSpace: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const body = toPageBody(toolArgs.content, toolArgs.contentFormat, toolArgs.bodyFormat);
+
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [
+              client.buildCreateBlogPostRequest(
+                toolArgs.spaceId,
+                toolArgs.title,
+                body.value,
+                body.representation
+              ),
+            ],
+            { spaceId: toolArgs.spaceId, title: toolArgs.title }
+          );
+        }
+
+        const post = await client.createBlogPost(
+          toolArgs.spaceId,
+          toolArgs.title,
+          body.value,
+          body.representation
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: 'Blog post created successfully',
+                  blogPostId: post.id,
+                  title: post.title,
+                  spaceId: post.spaceId,
+                  version: post.version.number,
+                  url: post._links.webui,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error creating blog post:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toBlogPostMcpError(error, 'create blog post');
+      }
+    }
+  );
+}
+
+interface UpdateBlogPostArgs extends ToolArgs, ContentUpdateArgs {
+  blogPostId: string;
+}
+
+export async function handleUpdateBlogPost(args: UpdateBlogPostArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const result = await updateVersionedContent(
+          {
+            getCurrent: () => client.getBlogPost(toolArgs.blogPostId),
+            getVersion: (version) => client.getBlogPostVersion(toolArgs.blogPostId, version),
+            buildUpdateRequest: (...update) =>
+              client.buildUpdateBlogPostRequest(toolArgs.blogPostId, ...update),
+            update: (...update) => client.updateBlogPost(toolArgs.blogPostId, ...update),
+          },
+          toolArgs
+        );
+
+        if (result.outcome === 'preview') {
+          return dryRunResponse(instanceName, [result.request], {
+            blogPostId: toolArgs.blogPostId,
+            ...result.details,
+          });
+        }
+
+        if (result.outcome === 'conflict') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    instance: instanceName,
+                    message: `Version conflict: the blog post changed since version ${result.baseVersion} and the changes clash with this update. Nothing was written; resolve the conflicts and update again with version ${result.currentVersion + 1}.`,
+                    conflict: true,
+                    blogPostId: toolArgs.blogPostId,
+                    baseVersion: result.baseVersion,
+                    currentVersion: result.currentVersion,
+                    conflicts: result.conflicts,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const { content: post, mergedFrom } = result;
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message:
+                    mergedFrom === undefined
+                      ? 'Blog post updated successfully'
+                      : `Blog post updated successfully after merging with the concurrent changes in version ${mergedFrom}`,
+                  blogPostId: post.id,
+                  title: post.title,
+                  version: post.version.number,
+                  ...(mergedFrom !== undefined && { merged: true }),
+                  url: post._links.webui,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error updating blog post:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toBlogPostMcpError(error, 'update blog post');
+      }
+    }
+  );
+}
+
+interface DeleteBlogPostArgs extends ToolArgs {
+  blogPostId: string;
+  purge?: boolean;
+  dryRun?: boolean;
+}
+
+export async function handleDeleteBlogPost(args: DeleteBlogPostArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if (toolArgs.dryRun) {
+          const post = await client.getContentStatus(toolArgs.blogPostId);
+          return dryRunResponse(
+            instanceName,
+            client.buildDeleteBlogPostRequests(post.id, post.status, { purge: toolArgs.purge }),
+            { blogPostId: post.id, title: post.title, status: post.status }
+          );
+        }
+
+        const result = await client.deleteBlogPost(toolArgs.blogPostId, {
+          purge: toolArgs.purge,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message:
+                    result.status === 'purged'
+                      ? 'Blog post purged permanently'
+                      : 'Blog post moved to the trash',
+                  blogPostId: result.id,
+                  title: result.title,
+                  status: result.status,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error deleting blog post:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toBlogPostMcpError(error, 'delete blog post');
+      }
+    }
+  );
+}
@@ -0,0 +1,387 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ConfluenceClient } from '../client/confluence-client.js';
+import type { CommentType, PageComment, PaginatedResponse } from '../types/index.js';
+import {
+  convertMarkdownToStorage,
+  convertStorageToMarkdown,
+  parseStorageFormat,
+} from '../utils/content-converter.js';
+import type { StorageNode } from '../utils/content-converter.js';
+import { dryRunResponse } from '../utils/dry-run.js';
+import { collectPaginated, nextCursor, paginate } from '../utils/pagination.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+// Upper bound on the comments fetched per listing (top-level comments and replies each)
+const MAX_COMMENTS = 500;
+
+interface CommentThread {
+  id: string;
+  type: CommentType;
+  authorId: string;
+  createdAt: string;
+  version: number;
+  content: string;
+  resolutionStatus?: string;
+  highlightedText?: string;
+  url: string;
+  replies: CommentThread[];
+}
+
+/**
+ * Follow the cursor of a comment listing until it is exhausted or MAX_COMMENTS is reached
+ */
+async function collectComments(
+  fetchPage: (cursor: string | undefined, limit: number) => Promise<PaginatedResponse<PageComment>>
+): Promise<PageComment[]> {
+  const { results } = await collectPaginated(
+    paginate(
+      async (cursor, limit) => {
+        const response = await fetchPage(cursor, limit);
+        return { results: response.results, nextCursor: nextCursor(response._links) };
+      },
+      { pageSize: 100, maxItems: MAX_COMMENTS }
+    )
+  );
+  return results;
+}
+
+/**
+ * Load threads one at a time: each one lists its replies, and firing those requests for
+ * hundreds of comments at once runs into Confluence's rate limit
+ */
+async function loadThreads(
+  client: ConfluenceClient,
+  comments: PageComment[],
+  type: CommentType,
+  includeReplies: boolean
+): Promise<CommentThread[]> {
+  const threads: CommentThread[] = [];
+  for (const comment of comments) {
+    threads.push(await loadThread(client, comment, type, includeReplies));
+  }
+  return threads;
+}
+
+async function loadThread(
+  client: ConfluenceClient,
+  comment: PageComment,
+  type: CommentType,
+  includeReplies: boolean
+): Promise<CommentThread> {
+  const replies = includeReplies
+    ? await collectComments((cursor, limit) =>
+        client.getCommentReplies(comment.id, type, { limit, cursor })
+      )
+    : [];
+
+  return {
+    id: comment.id,
+    type,
+    authorId: comment.version.authorId,
+    createdAt: comment.version.createdAt,
+    version: comment.version.number,
+    content: comment.body?.storage?.value
+      ? convertStorageToMarkdown(comment.body.storage.value)
+      : '',
+    ...(type === 'inline' && {
+      resolutionStatus: comment.resolutionStatus,
+      highlightedText: comment.properties?.inlineOriginalSelection,
+    }),
+    url: comment._links.webui,
+    replies: await loadThreads(client, replies, type, includeReplies),
+  };
+}
+
+function toCommentStorage(content: string, format: 'markdown' | 'storage' = 'markdown'): string {
+  return format === 'markdown' ? convertMarkdownToStorage(content) : content;
+}
+
+/**
+ * Text Confluence matches inline comment selections against: macro parameters and
+ * CDATA bodies such as code blocks are not part of it
+ */
+function selectableText(node: StorageNode): string {
+  if (node.type === 'text') return node.cdata ? '' : node.value;
+  if (node.name === 'ac:parameter') return '';
+  return node.children.map(selectableText).join('');
+}
+
+function countOccurrences(text: string, search: string): number {
+  let count = 0;
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + 1)) {
+    count++;
+  }
+  return count;
+}
+
+interface ListPageCommentsArgs extends ToolArgs {
+  pageId: string;
+  type?: CommentType | 'all';
+  resolutionStatus?: 'open' | 'reopened' | 'resolved' | 'dangling';
+  includeReplies?: boolean;
+}
+
+export async function handleListPageComments(args: ListPageCommentsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const types: CommentType[] =
+          toolArgs.type && toolArgs.type !== 'all' ? [toolArgs.type] : ['footer', 'inline'];
+        const includeReplies = toolArgs.includeReplies !== false;
+
+        const threads: Record<string, CommentThread[]> = {};
+        for (const type of types) {
+          const comments = await collectComments((cursor, limit) =>
+            client.getPageComments(toolArgs.pageId, type, {
+              limit,
+              cursor,
+              resolutionStatus: toolArgs.resolutionStatus,
+            })
+          );
+          threads[type] = await loadThreads(client, comments, type, includeReplies);
+        }
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          ...threads,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error listing page comments:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to list page comments: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface AddPageCommentArgs extends ToolArgs {
+  pageId: string;
+  content: string;
+  contentFormat?: 'markdown' | 'storage';
+  highlightedText?: string;
+  matchIndex?: number;
+  dryRun?: boolean;
+}
+
+export async function handleAddPageComment(args: AddPageCommentArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const body = toCommentStorage(toolArgs.content, toolArgs.contentFormat);
+        let selection: { text: string; matchCount: number; matchIndex: number } | undefined;
+
+        // Inline comments anchor to one occurrence of the highlighted text on the page
+        if (toolArgs.highlightedText) {
+          const page = await client.getConfluencePage(toolArgs.pageId);
+          const pageText = selectableText(parseStorageFormat(page.body?.storage?.value || ''));
+          const matchCount = countOccurrences(pageText, toolArgs.highlightedText);
+          const matchIndex = toolArgs.matchIndex ?? 0;
+          if (matchCount === 0) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Text to highlight not found on the page: "${toolArgs.highlightedText}"`
+            );
+          }
+          if (matchIndex < 0 || matchIndex >= matchCount) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `matchIndex ${matchIndex} is out of range: the text occurs ${matchCount} time(s)`
+            );
+          }
+          selection = { text: toolArgs.highlightedText, matchCount, matchIndex };
+        }
+
+        const type: CommentType = selection ? 'inline' : 'footer';
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [client.buildCreateCommentRequest(type, { pageId: toolArgs.pageId }, body, selection)],
+            { pageId: toolArgs.pageId, type }
+          );
+        }
+
+        const comment = await client.createComment(
+          type,
+          { pageId: toolArgs.pageId },
+          body,
+          selection
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: `${type === 'inline' ? 'Inline' : 'Footer'} comment added successfully`,
+                  pageId: toolArgs.pageId,
+                  commentId: comment.id,
+                  type,
+                  url: comment._links?.webui,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error adding comment:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to add comment: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface ReplyToCommentArgs extends ToolArgs {
+  commentId: string;
+  commentType: CommentType;
+  content: string;
+  contentFormat?: 'markdown' | 'storage';
+  dryRun?: boolean;
+}
+
+export async function handleReplyToComment(args: ReplyToCommentArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const body = toCommentStorage(toolArgs.content, toolArgs.contentFormat);
+        const target = { parentCommentId: toolArgs.commentId };
+
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [client.buildCreateCommentRequest(toolArgs.commentType, target, body)],
+            { commentId: toolArgs.commentId, type: toolArgs.commentType }
+          );
+        }
+
+        const reply = await client.createComment(toolArgs.commentType, target, body);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: 'Reply added successfully',
+                  commentId: reply.id,
+                  parentCommentId: toolArgs.commentId,
+                  type: toolArgs.commentType,
+                  url: reply._links?.webui,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error replying to comment:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to reply to comment: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface ResolveCommentArgs extends ToolArgs {
+  commentId: string;
+  resolved?: boolean;
+  dryRun?: boolean;
+}
+
+export async function handleResolveComment(args: ResolveCommentArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const resolved = toolArgs.resolved !== false;
+        const comment = await client.getComment(toolArgs.commentId, 'inline');
+
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [client.buildResolveCommentRequest(comment, resolved)],
+            {
+              commentId: comment.id,
+              resolutionStatus: comment.resolutionStatus,
+            }
+          );
+        }
+
+        const updated = await client.setInlineCommentResolved(comment, resolved);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: resolved ? 'Comment resolved' : 'Comment reopened',
+                  commentId: updated.id,
+                  resolutionStatus: updated.resolutionStatus,
+                  version: updated.version?.number,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error resolving comment:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to resolve comment (only inline comments can be resolved): ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+  );
+}
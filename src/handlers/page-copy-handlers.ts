@@ -0,0 +1,376 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ConfluenceClient } from '../client/confluence-client.js';
+import type { ApiRequest, Page } from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+import { parseStorageFormat, serializeStorageFormat } from '../utils/content-converter.js';
+import type { StorageNode } from '../utils/content-converter.js';
+import { dryRunResponse } from '../utils/dry-run.js';
+import { cachePageInstance } from '../utils/instance-cache.js';
+import { collectPaginated, nextCursor, paginate } from '../utils/pagination.js';
+import { rewriteTitle } from '../utils/title-rules.js';
+import type { TitleRule } from '../utils/title-rules.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+const DEFAULT_MAX_PAGES = 100;
+const MAX_PAGES_LIMIT = 500;
+
+interface SourcePage {
+  id: string;
+  title: string;
+  // Index of the parent in the copy plan; undefined for the root of the copy
+  parentIndex?: number;
+}
+
+interface CopiedPage {
+  sourceId: string;
+  pageId: string;
+  title: string;
+  url?: string;
+}
+
+/**
+ * List the pages to copy, parents before their children, within the page budget
+ */
+async function collectSourcePages(
+  client: ConfluenceClient,
+  root: Page,
+  includeDescendants: boolean,
+  maxPages: number
+): Promise<{ pages: SourcePage[]; truncated: boolean }> {
+  const pages: SourcePage[] = [{ id: root.id, title: root.title }];
+  let truncated = false;
+
+  for (let index = 0; includeDescendants && index < pages.length && !truncated; index++) {
+    let cursor: string | undefined;
+    do {
+      const response = await client.getPageChildren(pages[index].id, { limit: 250, cursor });
+      for (const child of response.results) {
+        if (pages.length >= maxPages) {
+          truncated = true;
+          break;
+        }
+        pages.push({ id: child.id, title: child.title, parentIndex: index });
+      }
+      cursor = nextCursor(response._links);
+    } while (cursor && !truncated);
+  }
+
+  return { pages, truncated };
+}
+
+/**
+ * Point links between copied pages at the copies: `ri:page` references without a
+ * space resolve by title in the page's own space, so renamed copies need their new
+ * titles, and links to pages left behind need the source space when copying across spaces
+ */
+function rewritePageLinks(
+  storage: string,
+  titles: Map<string, string>,
+  sourceSpaceKey?: string
+): string {
+  let changed = false;
+  const visit = (nodes: StorageNode[]) => {
+    for (const node of nodes) {
+      if (node.type !== 'element') continue;
+      if (node.name === 'ri:page' && !node.attributes['ri:space-key']) {
+        const title = node.attributes['ri:content-title'];
+        if (titles.has(title)) {
+          node.attributes['ri:content-title'] = titles.get(title) as string;
+          changed = true;
+        } else if (sourceSpaceKey) {
+          node.attributes['ri:space-key'] = sourceSpaceKey;
+          changed = true;
+        }
+      }
+      visit(node.children);
+    }
+  };
+
+  const document = parseStorageFormat(storage);
+  visit(document.children);
+  return changed ? serializeStorageFormat(document.children) : storage;
+}
+
+async function collectPropertyValues(client: ConfluenceClient, pageId: string) {
+  const { results } = await collectPaginated(
+    paginate(
+      async (cursor, limit) => {
+        const response = await client.getContentProperties(pageId, { limit, cursor });
+        return { results: response.results, nextCursor: nextCursor(response._links) };
+      },
+      { pageSize: 100 }
+    )
+  );
+  return results.map(({ key, value }) => ({ key, value }));
+}
+
+async function collectLabels(client: ConfluenceClient, pageId: string) {
+  const { results } = await collectPaginated(
+    paginate(async (cursor, limit) => {
+      const response = await client.getConfluenceLabels(pageId, { limit, cursor });
+      return { results: response.results, nextCursor: nextCursor(response._links) };
+    })
+  );
+  return results;
+}
+
+async function collectAttachments(client: ConfluenceClient, pageId: string) {
+  const { results } = await collectPaginated(
+    paginate(
+      async (cursor, limit) => {
+        const response = await client.getPageAttachments(pageId, { limit, cursor });
+        return { results: response.results, nextCursor: nextCursor(response._links) };
+      },
+      { pageSize: 100 }
+    )
+  );
+  return results.map(({ id, title, mediaType, comment }) => ({ id, title, mediaType, comment }));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+interface CopyPageArgs extends ToolArgs {
+  pageId: string;
+  targetParentId?: string;
+  targetSpaceId?: string;
+  includeDescendants?: boolean;
+  includeAttachments?: boolean;
+  includeLabels?: boolean;
+  includeProperties?: boolean;
+  titleRules?: TitleRule[];
+  titlePrefix?: string;
+  titleSuffix?: string;
+  maxPages?: number;
+  dryRun?: boolean;
+}
+
+export async function handleCopyConfluencePage(args: CopyPageArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      const copied: CopiedPage[] = [];
+      try {
+        if (!toolArgs.targetParentId && !toolArgs.targetSpaceId) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            'Provide targetParentId or targetSpaceId to copy the page to'
+          );
+        }
+
+        // A target parent decides the space; a space alone puts the copy at its root
+        const targetParent = toolArgs.targetParentId
+          ? await client.getConfluencePage(toolArgs.targetParentId)
+          : undefined;
+        const targetSpaceId = targetParent?.spaceId || (toolArgs.targetSpaceId as string);
+
+        const root = await client.getConfluencePage(toolArgs.pageId);
+        const rewrite = {
+          rules: toolArgs.titleRules,
+          prefix: toolArgs.titlePrefix,
+          suffix: toolArgs.titleSuffix,
+        };
+        // Titles are unique within a space, so a same-space copy has to rename the pages
+        const sameSpace = targetSpaceId === root.spaceId;
+        if (sameSpace && rewriteTitle(root.title, rewrite) === root.title) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Copying "${root.title}" into its own space needs a new title: pass titlePrefix, titleSuffix or titleRules`
+          );
+        }
+
+        const maxPages = Math.min(toolArgs.maxPages || DEFAULT_MAX_PAGES, MAX_PAGES_LIMIT);
+        const { pages, truncated } = await collectSourcePages(
+          client,
+          root,
+          toolArgs.includeDescendants === true,
+          maxPages
+        );
+
+        const sourceSpaceKey = sameSpace
+          ? undefined
+          : (await client.getConfluenceSpace(root.spaceId)).key;
+
+        const titles = new Map(
+          pages.map((page) => [page.title, rewriteTitle(page.title, rewrite)])
+        );
+        const unrenamed = sameSpace && pages.find((page) => titles.get(page.title) === page.title);
+        if (unrenamed) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `The title rules leave "${unrenamed.title}" unchanged, and it cannot be copied into its own space under the same title`
+          );
+        }
+
+        const includeLabels = toolArgs.includeLabels !== false;
+        const includeAttachments = toolArgs.includeAttachments !== false;
+        const includeProperties = toolArgs.includeProperties === true;
+
+        if (toolArgs.dryRun) {
+          // Copies only get IDs once created, so requests refer to them as {copy of <source ID>}
+          const requests: ApiRequest[] = [];
+          const plan = [];
+          for (const page of pages) {
+            const source = page.id === root.id ? root : await client.getConfluencePage(page.id);
+            const placeholder = `{copy of ${page.id}}`;
+            const parentId =
+              page.parentIndex === undefined
+                ? targetParent?.id
+                : `{copy of ${pages[page.parentIndex].id}}`;
+            requests.push(
+              client.buildCreatePageRequest(
+                targetSpaceId,
+                titles.get(page.title) as string,
+                rewritePageLinks(source.body?.storage?.value || '', titles, sourceSpaceKey),
+                parentId
+              )
+            );
+
+            const labels = includeLabels
+              ? (await collectLabels(client, page.id)).map((label) => label.name)
+              : [];
+            requests.push(
+              ...labels.map((label) => client.buildAddLabelRequest(placeholder, label))
+            );
+
+            const properties = includeProperties
+              ? await collectPropertyValues(client, page.id)
+              : [];
+            requests.push(
+              ...properties.map((property) =>
+                client.buildSetContentPropertyRequest(
+                  placeholder,
+                  property.key,
+                  property.value,
+                  undefined
+                )
+              )
+            );
+
+            const attachments = includeAttachments ? await collectAttachments(client, page.id) : [];
+            plan.push({
+              sourceId: page.id,
+              title: titles.get(page.title),
+              labels,
+              properties: properties.map((property) => property.key),
+              attachments: attachments.map((attachment) => attachment.title),
+            });
+          }
+
+          return dryRunResponse(instanceName, requests, {
+            targetSpaceId,
+            targetParentId: targetParent?.id || null,
+            truncated,
+            pages: plan,
+          });
+        }
+
+        const warnings: string[] = [];
+        for (const page of pages) {
+          const source = page.id === root.id ? root : await client.getConfluencePage(page.id);
+          const parentId =
+            page.parentIndex === undefined ? targetParent?.id : copied[page.parentIndex].pageId;
+          const copy = await client.createConfluencePage(
+            targetSpaceId,
+            titles.get(page.title) as string,
+            rewritePageLinks(source.body?.storage?.value || '', titles, sourceSpaceKey),
+            parentId
+          );
+          await cachePageInstance(copy.id, targetSpaceId, instanceName);
+          copied.push({
+            sourceId: page.id,
+            pageId: copy.id,
+            title: copy.title,
+            url: copy._links?.webui,
+          });
+
+          // Labels, properties and attachments are copied best effort
+          if (includeLabels) {
+            for (const label of await collectLabels(client, page.id)) {
+              try {
+                await client.addConfluenceLabel(copy.id, label.name, label.prefix || 'global');
+              } catch (error) {
+                warnings.push(`Label "${label.name}" on "${copy.title}": ${errorMessage(error)}`);
+              }
+            }
+          }
+          if (includeProperties) {
+            for (const property of await collectPropertyValues(client, page.id)) {
+              try {
+                await client.setContentProperty(copy.id, property.key, property.value);
+              } catch (error) {
+                warnings.push(
+                  `Property "${property.key}" on "${copy.title}": ${errorMessage(error)}`
+                );
+              }
+            }
+          }
+          if (includeAttachments) {
+            for (const attachment of await collectAttachments(client, page.id)) {
+              try {
+                const data = await client.downloadAttachment(page.id, attachment.id);
+                await client.uploadAttachment(
+                  copy.id,
+                  { filename: attachment.title, data, mediaType: attachment.mediaType },
+                  { comment: attachment.comment, minorEdit: true }
+                );
+              } catch (error) {
+                warnings.push(
+                  `Attachment "${attachment.title}" on "${copy.title}": ${errorMessage(error)}`
+                );
+              }
+            }
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: `Copied ${copied.length} page(s)${
+                    truncated ? ` (stopped at maxPages ${maxPages}; the rest was not copied)` : ''
+                  }`,
+                  pageId: copied[0].pageId,
+                  targetSpaceId,
+                  targetParentId: targetParent?.id || null,
+                  truncated,
+                  pages: copied,
+                  ...(warnings.length > 0 && { warnings }),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error copying page:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof McpError) {
+          throw error;
+        }
+        // Report partial copies so the caller can clean them up or resume
+        const partial =
+          copied.length > 0
+            ? ` after copying ${copied.length} page(s): ${copied.map((page) => page.pageId).join(', ')}`
+            : '';
+        if (error instanceof ConfluenceError && error.code === 'INVALID_REQUEST') {
+          throw new McpError(ErrorCode.InvalidParams, `${error.message}${partial}`);
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to copy page${partial}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
@@ -1,7 +1,18 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 
-import { convertStorageToMarkdown } from '../utils/content-converter.js';
+import type { ContentFormat, Page, VersionOptions } from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+import { composeVersionMessage, summarizeChange } from '../utils/change-summary.js';
+import { convertMarkdownToStorage, convertStorageToMarkdown } from '../utils/content-converter.js';
+import { updateVersionedContent } from '../utils/content-write.js';
+import type { ContentUpdateArgs } from '../utils/content-write.js';
+import { dryRunResponse, previewPageChange } from '../utils/dry-run.js';
 import { cachePageInstance } from '../utils/instance-cache.js';
+import { readPageBody, toPageBody } from '../utils/page-body.js';
+import type { BodyFormat } from '../utils/page-body.js';
+import { patchStorageSection } from '../utils/page-sections.js';
+import type { SectionOperation } from '../utils/page-sections.js';
+import { autoPaginationLimit, collectPaginated, nextCursor } from '../utils/pagination.js';
 import { withConfluenceContext } from '../utils/tool-wrapper.js';
 import type { ToolArgs } from '../utils/tool-wrapper.js';
 
@@ -11,6 +22,8 @@ interface ListPagesArgs extends ToolArgs {
   cursor?: string;
   sort?: 'created-date' | '-created-date' | 'modified-date' | '-modified-date' | 'title' | '-title';
   status?: 'current' | 'archived' | 'draft' | 'trashed';
+  all?: boolean;
+  maxItems?: number;
 }
 
 export async function handleListConfluencePages(args: ListPagesArgs) {
@@ -19,12 +32,27 @@ export async function handleListConfluencePages(args: ListPagesArgs) {
     { requiresSpace: true },
     async (toolArgs, { client, instanceName }) => {
       try {
-        const pages = await client.getConfluencePages(toolArgs.spaceId, {
-          limit: toolArgs.limit,
-          cursor: toolArgs.cursor,
-          sort: toolArgs.sort,
-          status: toolArgs.status,
-        });
+        const maxItems = autoPaginationLimit(toolArgs);
+        let pages: { results: Page[]; cursor?: string; limit: number; size: number };
+        if (maxItems === undefined) {
+          const response = await client.getConfluencePages(toolArgs.spaceId, {
+            limit: toolArgs.limit,
+            cursor: toolArgs.cursor,
+            sort: toolArgs.sort,
+            status: toolArgs.status,
+          });
+          pages = { ...response, cursor: nextCursor(response._links) };
+        } else {
+          const { results, cursor } = await collectPaginated(
+            client.paginateConfluencePages(toolArgs.spaceId, {
+              cursor: toolArgs.cursor,
+              maxItems,
+              sort: toolArgs.sort,
+              status: toolArgs.status,
+            })
+          );
+          pages = { results, cursor, limit: maxItems, size: results.length };
+        }
 
         // Cache page instances for future lookups
         for (const page of pages.results) {
@@ -46,10 +74,11 @@ export async function handleListConfluencePages(args: ListPagesArgs) {
               webui: page._links.webui,
             },
           })),
-          cursor: pages._links.next?.split('cursor=')[1],
+          cursor: pages.cursor,
           limit: pages.limit,
           size: pages.size,
-          hasMore: !!pages._links.next,
+          hasMore: !!pages.cursor,
+          note: 'Only pages are listed; browse folders, whiteboards and databases with get_content_children',
         };
 
         return {
@@ -76,6 +105,7 @@ export async function handleListConfluencePages(args: ListPagesArgs) {
 
 interface GetPageArgs extends ToolArgs {
   pageId: string;
+  bodyFormat?: BodyFormat;
 }
 
 export async function handleGetConfluencePage(args: GetPageArgs) {
@@ -84,21 +114,23 @@ export async function handleGetConfluencePage(args: GetPageArgs) {
     { requiresPage: true },
     async (toolArgs, { client, instanceName }) => {
       try {
-        const page = await client.getConfluencePage(toolArgs.pageId);
+        const page = await client.getConfluencePage(
+          toolArgs.pageId,
+          toolArgs.bodyFormat === 'adf' ? 'atlas_doc_format' : 'storage'
+        );
 
         // Cache the page instance
         await cachePageInstance(page.id, page.spaceId, instanceName);
 
         // Convert content to markdown
-        const markdownContent = page.body?.storage?.value
-          ? convertStorageToMarkdown(page.body.storage.value)
-          : '';
+        const { markdown, adf } = readPageBody(page);
 
         // Return simplified format with markdown
         const simplified = {
           instance: instanceName,
           title: page.title,
-          content: markdownContent,
+          content: markdown,
+          ...(adf && { adf }),
           metadata: {
             id: page.id,
             spaceId: page.spaceId,
@@ -203,7 +235,10 @@ interface CreatePageArgs extends ToolArgs {
   spaceId: string;
   title: string;
   content: string;
+  contentFormat?: ContentFormat;
+  bodyFormat?: BodyFormat;
   parentId?: string;
+  dryRun?: boolean;
 }
 
 export async function handleCreateConfluencePage(args: CreatePageArgs) {
@@ -214,12 +249,38 @@ export async function handleCreateConfluencePage(args: CreatePageArgs) {
       try {
         // Apply default parent page if configured and not provided
         const parentId = toolArgs.parentId || spaceConfig?.defaultParentPageId;
+        const body = toPageBody(toolArgs.content, toolArgs.contentFormat, toolArgs.bodyFormat);
+
+        if (toolArgs.dryRun) {
+          // Default labels go to the new page, whose ID is only known after creation
+          const labels: string[] = spaceConfig?.defaultLabels || [];
+          return dryRunResponse(
+            instanceName,
+            [
+              client.buildCreatePageRequest(
+                toolArgs.spaceId,
+                toolArgs.title,
+                body.value,
+                parentId,
+                body.representation
+              ),
+              ...labels.map((label) => client.buildAddLabelRequest('{pageId}', label)),
+            ],
+            {
+              spaceId: toolArgs.spaceId,
+              title: toolArgs.title,
+              parentId: parentId || null,
+              labels,
+            }
+          );
+        }
 
         const page = await client.createConfluencePage(
           toolArgs.spaceId,
           toolArgs.title,
-          toolArgs.content,
-          parentId
+          body.value,
+          parentId,
+          body.representation
         );
 
         // Cache the new page instance
@@ -273,11 +334,8 @@ export async function handleCreateConfluencePage(args: CreatePageArgs) {
   );
 }
 
-interface UpdatePageArgs extends ToolArgs {
+interface UpdatePageArgs extends ToolArgs, ContentUpdateArgs {
   pageId: string;
-  title: string;
-  content: string;
-  version: number;
 }
 
 export async function handleUpdateConfluencePage(args: UpdatePageArgs) {
@@ -286,13 +344,49 @@ export async function handleUpdateConfluencePage(args: UpdatePageArgs) {
     { requiresPage: true },
     async (toolArgs, { client, instanceName }) => {
       try {
-        const page = await client.updateConfluencePage(
-          toolArgs.pageId,
-          toolArgs.title,
-          toolArgs.content,
-          toolArgs.version
+        const result = await updateVersionedContent(
+          {
+            getCurrent: () => client.getConfluencePage(toolArgs.pageId),
+            getVersion: (version) => client.getConfluencePageVersion(toolArgs.pageId, version),
+            buildUpdateRequest: (...update) =>
+              client.buildUpdatePageRequest(toolArgs.pageId, ...update),
+            update: (...update) => client.updateConfluencePage(toolArgs.pageId, ...update),
+          },
+          toolArgs
         );
 
+        if (result.outcome === 'preview') {
+          return dryRunResponse(instanceName, [result.request], {
+            pageId: toolArgs.pageId,
+            ...result.details,
+          });
+        }
+
+        if (result.outcome === 'conflict') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(
+                  {
+                    instance: instanceName,
+                    message: `Version conflict: the page changed since version ${result.baseVersion} and the changes clash with this update. Nothing was written; resolve the conflicts and update again with version ${result.currentVersion + 1}.`,
+                    conflict: true,
+                    pageId: toolArgs.pageId,
+                    baseVersion: result.baseVersion,
+                    currentVersion: result.currentVersion,
+                    conflicts: result.conflicts,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        const { content: page, mergedFrom } = result;
+
         // Update cache with the latest instance info
         await cachePageInstance(page.id, page.spaceId, instanceName);
 
@@ -303,10 +397,14 @@ export async function handleUpdateConfluencePage(args: UpdatePageArgs) {
               text: JSON.stringify(
                 {
                   instance: instanceName,
-                  message: 'Page updated successfully',
+                  message:
+                    mergedFrom === undefined
+                      ? 'Page updated successfully'
+                      : `Page updated successfully after merging with the concurrent changes in version ${mergedFrom}`,
                   pageId: page.id,
                   title: page.title,
                   version: page.version.number,
+                  ...(mergedFrom !== undefined && { merged: true }),
                   url: page._links.webui,
                 },
                 null,
@@ -323,6 +421,16 @@ export async function handleUpdateConfluencePage(args: UpdatePageArgs) {
         if (error instanceof McpError) {
           throw error;
         }
+        if (error instanceof ConfluenceError && error.code === 'PERMISSION_DENIED') {
+          throw new McpError(ErrorCode.InvalidRequest, permissionDeniedMessage('update', error));
+        }
+        // A stale version that could not be merged, or another version landed during the merge
+        if (error instanceof ConfluenceError && error.code === 'VERSION_CONFLICT') {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Failed to update page (VERSION_CONFLICT): ${error.message}. Pass the current version number plus 1.`
+          );
+        }
         throw new McpError(
           ErrorCode.InternalError,
           `Failed to update page: ${error instanceof Error ? error.message : String(error)}`
@@ -332,10 +440,142 @@ export async function handleUpdateConfluencePage(args: UpdatePageArgs) {
   );
 }
 
+interface PatchPageArgs extends ToolArgs {
+  pageId: string;
+  headingPath?: string[];
+  anchor?: string;
+  operation: SectionOperation;
+  content?: string;
+  contentFormat?: 'storage' | 'markdown';
+  versionMessage?: string;
+  minorEdit?: boolean;
+  autoSummary?: boolean;
+  dryRun?: boolean;
+}
+
+export async function handlePatchConfluencePage(args: PatchPageArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if (!toolArgs.headingPath?.length && !toolArgs.anchor) {
+          throw new McpError(ErrorCode.InvalidParams, 'Either headingPath or anchor is required');
+        }
+        if (toolArgs.operation !== 'delete' && toolArgs.content === undefined) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `content is required for the ${toolArgs.operation} operation`
+          );
+        }
+
+        const current = await client.getConfluencePage(toolArgs.pageId);
+        const content =
+          toolArgs.contentFormat === 'markdown'
+            ? convertMarkdownToStorage(toolArgs.content || '')
+            : toolArgs.content;
+        const patched = patchStorageSection(
+          current.body?.storage?.value || '',
+          { headingPath: toolArgs.headingPath, anchor: toolArgs.anchor },
+          toolArgs.operation,
+          content
+        );
+
+        const before = { title: current.title, markdown: readPageBody(current).markdown };
+        const after = { title: current.title, markdown: convertStorageToMarkdown(patched.storage) };
+        const versionOptions: VersionOptions = {
+          message: composeVersionMessage(
+            toolArgs.versionMessage,
+            toolArgs.autoSummary ? summarizeChange(before, after) : undefined
+          ),
+          minorEdit: toolArgs.minorEdit,
+        };
+
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [
+              client.buildUpdatePageRequest(
+                toolArgs.pageId,
+                current.title,
+                patched.storage,
+                current.version.number + 1,
+                'storage',
+                versionOptions
+              ),
+            ],
+            {
+              pageId: toolArgs.pageId,
+              section: patched.section.join(' > '),
+              operation: toolArgs.operation,
+              ...previewPageChange(before, after),
+            }
+          );
+        }
+
+        const page = await client.updateConfluencePage(
+          toolArgs.pageId,
+          current.title,
+          patched.storage,
+          current.version.number + 1,
+          'storage',
+          versionOptions
+        );
+
+        await cachePageInstance(page.id, page.spaceId, instanceName);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: 'Page section updated successfully',
+                  pageId: page.id,
+                  title: page.title,
+                  section: patched.section.join(' > '),
+                  operation: toolArgs.operation,
+                  version: page.version.number,
+                  url: page._links.webui,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error patching page:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof McpError) {
+          throw error;
+        }
+        if (
+          error instanceof ConfluenceError &&
+          (error.code === 'SECTION_NOT_FOUND' || error.code === 'MULTIPLE_MATCHES')
+        ) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        if (error instanceof ConfluenceError && error.code === 'PERMISSION_DENIED') {
+          throw new McpError(ErrorCode.InvalidRequest, permissionDeniedMessage('patch', error));
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to patch page: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
 interface MovePageArgs extends ToolArgs {
   pageId: string;
   targetParentId: string;
   position?: 'append' | 'before' | 'after';
+  dryRun?: boolean;
 }
 
 export async function handleMoveConfluencePage(args: MovePageArgs) {
@@ -348,6 +588,28 @@ export async function handleMoveConfluencePage(args: MovePageArgs) {
         const page = await client.getConfluencePage(toolArgs.pageId);
         const targetParent = await client.getConfluencePage(toolArgs.targetParentId);
 
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [
+              client.buildMovePageRequest(
+                toolArgs.pageId,
+                toolArgs.targetParentId,
+                toolArgs.position || 'append'
+              ),
+            ],
+            {
+              pageId: toolArgs.pageId,
+              pageTitle: page.title,
+              currentParentId: page.parentId || null,
+              targetParentId: toolArgs.targetParentId,
+              targetParentTitle: targetParent.title,
+              targetSpaceId: targetParent.spaceId,
+              position: toolArgs.position || 'append',
+            }
+          );
+        }
+
         // Perform the move operation
         await client.moveConfluencePage(
           toolArgs.pageId,
@@ -393,3 +655,201 @@ export async function handleMoveConfluencePage(args: MovePageArgs) {
     }
   );
 }
+
+/**
+ * Point callers at the page restrictions when a write is refused
+ */
+function permissionDeniedMessage(action: string, error: ConfluenceError): string {
+  return `Failed to ${action} page (PERMISSION_DENIED): ${error.message}. The page or one of its ancestors may be restricted; get_page_restrictions shows who can view and edit it.`;
+}
+
+/**
+ * Map trash/restore failures to MCP errors, keeping the ConfluenceError code visible
+ */
+function toPageLifecycleError(error: unknown, action: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (error instanceof ConfluenceError) {
+    switch (error.code) {
+      case 'PERMISSION_DENIED':
+      case 'PAGE_NOT_FOUND':
+      case 'INVALID_REQUEST':
+        return new McpError(
+          ErrorCode.InvalidRequest,
+          `Failed to ${action} (${error.code}): ${error.message}`
+        );
+    }
+  }
+  return new McpError(
+    ErrorCode.InternalError,
+    `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`
+  );
+}
+
+interface DeletePageArgs extends ToolArgs {
+  pageId: string;
+  purge?: boolean;
+  dryRun?: boolean;
+}
+
+export async function handleDeleteConfluencePage(args: DeletePageArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if (toolArgs.dryRun) {
+          const page = await client.getContentStatus(toolArgs.pageId);
+          return dryRunResponse(
+            instanceName,
+            client.buildDeletePageRequests(page.id, page.status, { purge: toolArgs.purge }),
+            { pageId: page.id, title: page.title, status: page.status }
+          );
+        }
+
+        const result = await client.deleteConfluencePage(toolArgs.pageId, {
+          purge: toolArgs.purge,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message:
+                    result.status === 'purged'
+                      ? 'Page permanently deleted'
+                      : 'Page moved to trash. Use restore_confluence_page to restore it',
+                  pageId: result.id,
+                  title: result.title,
+                  status: result.status,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error deleting page:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toPageLifecycleError(error, 'delete page');
+      }
+    }
+  );
+}
+
+interface ListTrashedPagesArgs extends ToolArgs {
+  spaceId: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export async function handleListTrashedPages(args: ListTrashedPagesArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresSpace: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const pages = await client.getTrashedPages(toolArgs.spaceId, {
+          limit: toolArgs.limit,
+          cursor: toolArgs.cursor,
+        });
+
+        const simplified = {
+          instance: instanceName,
+          spaceId: toolArgs.spaceId,
+          results: pages.results.map((page) => ({
+            id: page.id,
+            title: page.title,
+            parentId: page.parentId || null,
+            version: page.version.number,
+            lastModified: page.version.createdAt,
+          })),
+          cursor: nextCursor(pages._links),
+          limit: pages.limit,
+          size: pages.size,
+          hasMore: !!pages._links.next,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error listing trashed pages:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toPageLifecycleError(error, 'list trashed pages');
+      }
+    }
+  );
+}
+
+interface RestorePageArgs extends ToolArgs {
+  pageId: string;
+  versionMessage?: string;
+  dryRun?: boolean;
+}
+
+export async function handleRestoreConfluencePage(args: RestorePageArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if (toolArgs.dryRun) {
+          const trashed = await client.getTrashedPage(toolArgs.pageId);
+          return dryRunResponse(
+            instanceName,
+            [client.buildRestorePageRequest(trashed, { message: toolArgs.versionMessage })],
+            {
+              pageId: trashed.id,
+              title: trashed.title,
+              version: trashed.version + 1,
+            }
+          );
+        }
+
+        const page = await client.restoreConfluencePage(toolArgs.pageId, {
+          message: toolArgs.versionMessage,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: 'Page restored from trash',
+                  pageId: page.id,
+                  title: page.title,
+                  version: page.version,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error restoring page:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toPageLifecycleError(error, 'restore page');
+      }
+    }
+  );
+}
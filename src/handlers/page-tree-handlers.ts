@@ -0,0 +1,360 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ConfluenceClient } from '../client/confluence-client.js';
+import type { PaginatedResponse, TreeChild, TreeContent, TreeContentType } from '../types/index.js';
+import { cachePageInstance } from '../utils/instance-cache.js';
+import { nextCursor } from '../utils/pagination.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+const DEFAULT_TREE_DEPTH = 3;
+const MAX_TREE_DEPTH = 10;
+const DEFAULT_MAX_PAGES = 500;
+
+interface PageTreeNode {
+  id: string;
+  title: string;
+  // Folders, whiteboards, databases and smart links sit in the tree next to pages
+  type: TreeContentType;
+  status: string;
+  // Omitted when the depth limit stopped the walk before this page was expanded
+  children?: PageTreeNode[];
+}
+
+interface TreeBudget {
+  remaining: number;
+  truncated: boolean;
+}
+
+/**
+ * Follow the cursor of a paginated listing until it is exhausted or the page budget runs out
+ */
+async function collectPages(
+  fetchPage: (cursor?: string) => Promise<PaginatedResponse<TreeChild>>,
+  budget: TreeBudget
+): Promise<TreeChild[]> {
+  const pages: TreeChild[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const response = await fetchPage(cursor);
+    for (const page of response.results) {
+      if (budget.remaining === 0) {
+        budget.truncated = true;
+        return pages;
+      }
+      budget.remaining--;
+      pages.push(page);
+    }
+    cursor = nextCursor(response._links);
+  } while (cursor);
+
+  return pages;
+}
+
+/**
+ * Expand pages into tree nodes, walking children depth-first until the depth limit
+ */
+async function buildTree(
+  client: ConfluenceClient,
+  pages: TreeChild[],
+  depth: number,
+  budget: TreeBudget,
+  instanceName: string
+): Promise<PageTreeNode[]> {
+  const nodes: PageTreeNode[] = [];
+
+  for (const page of pages) {
+    if (page.type === 'page') {
+      await cachePageInstance(page.id, page.spaceId, instanceName);
+    }
+
+    const node: PageTreeNode = {
+      id: page.id,
+      title: page.title,
+      type: page.type,
+      status: page.status,
+    };
+    if (depth > 0 && !budget.truncated) {
+      const children = await collectPages(
+        (cursor) => client.getTreeChildren(page.id, page.type, { limit: 250, cursor }),
+        budget
+      );
+      node.children = await buildTree(client, children, depth - 1, budget, instanceName);
+    }
+    nodes.push(node);
+  }
+
+  return nodes;
+}
+
+function countNodes(nodes: PageTreeNode[]): number {
+  return nodes.reduce((count, node) => count + 1 + countNodes(node.children || []), 0);
+}
+
+/**
+ * Render tree nodes as an indented Markdown list
+ */
+function renderOutline(nodes: PageTreeNode[], indent = ''): string[] {
+  return nodes.flatMap((node) => [
+    `${indent}- ${node.title} (${node.type === 'page' ? '' : `${node.type} `}${node.id})`,
+    ...renderOutline(node.children || [], `${indent}  `),
+  ]);
+}
+
+function clampDepth(depth: number | undefined): number {
+  return Math.min(Math.max(depth ?? DEFAULT_TREE_DEPTH, 1), MAX_TREE_DEPTH);
+}
+
+interface GetPageChildrenArgs extends ToolArgs {
+  pageId: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export async function handleGetPageChildren(args: GetPageChildrenArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const children = await client.getTreeChildren(toolArgs.pageId, 'page', {
+          limit: toolArgs.limit,
+          cursor: toolArgs.cursor,
+        });
+
+        for (const page of children.results) {
+          if (page.type === 'page') {
+            await cachePageInstance(page.id, page.spaceId, instanceName);
+          }
+        }
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          results: children.results.map((page) => ({
+            id: page.id,
+            title: page.title,
+            type: page.type,
+            status: page.status,
+            position: page.childPosition,
+          })),
+          cursor: nextCursor(children._links),
+          hasMore: !!children._links.next,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting page children:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to get page children: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface GetPageDescendantsArgs extends ToolArgs {
+  pageId: string;
+  depth?: number;
+  maxPages?: number;
+  format?: 'json' | 'outline';
+}
+
+export async function handleGetPageDescendants(args: GetPageDescendantsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const depth = clampDepth(toolArgs.depth);
+        const budget: TreeBudget = {
+          remaining: toolArgs.maxPages || DEFAULT_MAX_PAGES,
+          truncated: false,
+        };
+
+        const children = await collectPages(
+          (cursor) => client.getTreeChildren(toolArgs.pageId, 'page', { limit: 250, cursor }),
+          budget
+        );
+        const tree = await buildTree(client, children, depth - 1, budget, instanceName);
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          depth,
+          count: countNodes(tree),
+          truncated: budget.truncated,
+          ...(toolArgs.format === 'outline'
+            ? { outline: renderOutline(tree).join('\n') }
+            : { descendants: tree }),
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting page descendants:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to get page descendants: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface GetPageAncestorsArgs extends ToolArgs {
+  pageId: string;
+}
+
+export async function handleGetPageAncestors(args: GetPageAncestorsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const ancestors = await client.getPageAncestors(toolArgs.pageId);
+
+        // The ancestors endpoint only returns IDs; look each one up for its title, without
+        // the body, one at a time to stay under rate limits
+        const pages: TreeContent[] = [];
+        for (const ancestor of ancestors.results) {
+          pages.push(await client.getTreeContent(ancestor.id, ancestor.type));
+        }
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          path: pages.map((page) => page.title).join(' / '),
+          ancestors: pages.map((page) => ({
+            id: page.id,
+            title: page.title,
+            type: page.type,
+            url: page._links?.webui,
+          })),
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting page ancestors:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to get page ancestors: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface GetSpacePageTreeArgs extends ToolArgs {
+  spaceId: string;
+  depth?: number;
+  maxPages?: number;
+  format?: 'json' | 'outline';
+}
+
+export async function handleGetSpacePageTree(args: GetSpacePageTreeArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresSpace: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const depth = clampDepth(toolArgs.depth);
+        const budget: TreeBudget = {
+          remaining: toolArgs.maxPages || DEFAULT_MAX_PAGES,
+          truncated: false,
+        };
+
+        // Top-level content sits under the homepage, and its direct children include folders
+        const space = await client.getConfluenceSpace(toolArgs.spaceId);
+        const homepageId = space.homepageId;
+        const rootContent = homepageId
+          ? await collectPages(
+              (cursor) => client.getTreeChildren(homepageId, 'page', { limit: 250, cursor }),
+              budget
+            )
+          : [];
+        // Pages can also sit beside the homepage at the root of the space
+        const otherRootPages = await collectPages(async (cursor) => {
+          const response = await client.getSpaceRootPages(toolArgs.spaceId, {
+            limit: 250,
+            cursor,
+          });
+          return {
+            ...response,
+            results: response.results
+              .filter((page) => page.id !== homepageId)
+              .map((page) => ({ ...page, type: 'page' as const })),
+          };
+        }, budget);
+        const tree = await buildTree(
+          client,
+          [...rootContent, ...otherRootPages],
+          depth - 1,
+          budget,
+          instanceName
+        );
+
+        const simplified = {
+          instance: instanceName,
+          spaceId: toolArgs.spaceId,
+          homepageId: homepageId || null,
+          depth,
+          count: countNodes(tree),
+          truncated: budget.truncated,
+          ...(toolArgs.format === 'outline'
+            ? { outline: renderOutline(tree).join('\n') }
+            : { pages: tree }),
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting space page tree:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to get space page tree: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
@@ -0,0 +1,263 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ContentProperty } from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+import { dryRunResponse } from '../utils/dry-run.js';
+import { nextCursor } from '../utils/pagination.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+function simplifyProperty(property: ContentProperty) {
+  return {
+    id: property.id,
+    key: property.key,
+    value: property.value,
+    version: property.version?.number,
+    updatedAt: property.version?.createdAt,
+    updatedBy: property.version?.authorId,
+  };
+}
+
+/**
+ * Map content property failures to MCP errors; conflicts and missing keys are caller errors
+ */
+function toPropertyMcpError(action: string, error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (error instanceof ConfluenceError && error.code === 'VERSION_CONFLICT') {
+    return new McpError(
+      ErrorCode.InvalidRequest,
+      `Failed to ${action} (VERSION_CONFLICT): ${error.message}. Read the property again and retry with its current version.`
+    );
+  }
+  if (error instanceof ConfluenceError && error.code === 'PROPERTY_NOT_FOUND') {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  return new McpError(
+    ErrorCode.InternalError,
+    `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`
+  );
+}
+
+interface ListContentPropertiesArgs extends ToolArgs {
+  pageId: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export async function handleListContentProperties(args: ListContentPropertiesArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const response = await client.getContentProperties(toolArgs.pageId, {
+          limit: toolArgs.limit,
+          cursor: toolArgs.cursor,
+        });
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          results: response.results.map(simplifyProperty),
+          cursor: nextCursor(response._links),
+          hasMore: !!response._links.next,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error listing content properties:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toPropertyMcpError('list content properties', error);
+      }
+    }
+  );
+}
+
+interface GetContentPropertyArgs extends ToolArgs {
+  pageId: string;
+  key: string;
+}
+
+export async function handleGetContentProperty(args: GetContentPropertyArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const property = await client.getContentProperty(toolArgs.pageId, toolArgs.key);
+        if (!property) {
+          throw new ConfluenceError(
+            `Property "${toolArgs.key}" not found on page ${toolArgs.pageId}`,
+            'PROPERTY_NOT_FOUND'
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { instance: instanceName, pageId: toolArgs.pageId, ...simplifyProperty(property) },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting content property:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toPropertyMcpError('get content property', error);
+      }
+    }
+  );
+}
+
+interface SetContentPropertyArgs extends ToolArgs {
+  pageId: string;
+  key: string;
+  value: unknown;
+  version?: number;
+  versionMessage?: string;
+  dryRun?: boolean;
+}
+
+export async function handleSetContentProperty(args: SetContentPropertyArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if (toolArgs.value === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, 'value is required');
+        }
+        const options = { expectedVersion: toolArgs.version, message: toolArgs.versionMessage };
+
+        if (toolArgs.dryRun) {
+          const existing = await client.getContentProperty(toolArgs.pageId, toolArgs.key);
+          return dryRunResponse(
+            instanceName,
+            [
+              client.buildSetContentPropertyRequest(
+                toolArgs.pageId,
+                toolArgs.key,
+                toolArgs.value,
+                existing,
+                options
+              ),
+            ],
+            {
+              pageId: toolArgs.pageId,
+              current: existing ? simplifyProperty(existing) : undefined,
+            }
+          );
+        }
+
+        const property = await client.setContentProperty(
+          toolArgs.pageId,
+          toolArgs.key,
+          toolArgs.value,
+          options
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message:
+                    property.version?.number > 1
+                      ? `Property updated to version ${property.version.number}`
+                      : 'Property created',
+                  pageId: toolArgs.pageId,
+                  ...simplifyProperty(property),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error setting content property:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toPropertyMcpError('set content property', error);
+      }
+    }
+  );
+}
+
+interface DeleteContentPropertyArgs extends ToolArgs {
+  pageId: string;
+  key: string;
+  dryRun?: boolean;
+}
+
+export async function handleDeleteContentProperty(args: DeleteContentPropertyArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if (toolArgs.dryRun) {
+          const existing = await client.getContentProperty(toolArgs.pageId, toolArgs.key);
+          if (!existing) {
+            throw new ConfluenceError(
+              `Property "${toolArgs.key}" not found on page ${toolArgs.pageId}`,
+              'PROPERTY_NOT_FOUND'
+            );
+          }
+          return dryRunResponse(
+            instanceName,
+            [client.buildDeleteContentPropertyRequest(toolArgs.pageId, existing)],
+            { pageId: toolArgs.pageId, current: simplifyProperty(existing) }
+          );
+        }
+
+        const deleted = await client.deleteContentProperty(toolArgs.pageId, toolArgs.key);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: 'Property deleted',
+                  pageId: toolArgs.pageId,
+                  key: deleted.key,
+                  lastValue: deleted.value,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error deleting content property:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toPropertyMcpError('delete content property', error);
+      }
+    }
+  );
+}
@@ -0,0 +1,222 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { PageRestriction, RestrictionOperation } from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+import { dryRunResponse } from '../utils/dry-run.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+const OPERATIONS: RestrictionOperation[] = ['read', 'update'];
+
+interface RestrictionSubjects {
+  users?: string[];
+  groups?: string[];
+}
+
+function findRestriction(
+  restrictions: PageRestriction[],
+  operation: RestrictionOperation
+): PageRestriction {
+  return (
+    restrictions.find((restriction) => restriction.operation === operation) || {
+      operation,
+      users: [],
+      groups: [],
+    }
+  );
+}
+
+function isRestricted(restriction: PageRestriction): boolean {
+  return restriction.users.length > 0 || restriction.groups.length > 0;
+}
+
+/**
+ * Restrictions keyed by operation, with null for operations anyone may perform
+ */
+function simplifyRestrictions(restrictions: PageRestriction[]) {
+  return Object.fromEntries(
+    OPERATIONS.map((operation) => {
+      const restriction = findRestriction(restrictions, operation);
+      return [
+        operation,
+        isRestricted(restriction)
+          ? { users: restriction.users, groups: restriction.groups.map((group) => group.name) }
+          : null,
+      ];
+    })
+  );
+}
+
+function toRestrictionMcpError(error: unknown, action: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+  if (error instanceof ConfluenceError) {
+    switch (error.code) {
+      case 'PERMISSION_DENIED':
+      case 'PAGE_NOT_FOUND':
+      case 'INVALID_REQUEST':
+        return new McpError(
+          ErrorCode.InvalidRequest,
+          `Failed to ${action} (${error.code}): ${error.message}`
+        );
+    }
+  }
+  return new McpError(
+    ErrorCode.InternalError,
+    `Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`
+  );
+}
+
+interface GetPageRestrictionsArgs extends ToolArgs {
+  pageId: string;
+  includeInherited?: boolean;
+}
+
+export async function handleGetPageRestrictions(args: GetPageRestrictionsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const restrictions = await client.getPageRestrictions(toolArgs.pageId);
+        const read = findRestriction(restrictions, 'read');
+        const update = findRestriction(restrictions, 'update');
+
+        // View restrictions on any ancestor also apply to this page; edit restrictions do not
+        const inherited: { id: string; title: string; read: unknown }[] = [];
+        if (toolArgs.includeInherited !== false) {
+          const ancestors = await client.getPageAncestors(toolArgs.pageId);
+          for (const ancestor of ancestors.results) {
+            const ancestorRead = findRestriction(
+              await client.getPageRestrictions(ancestor.id),
+              'read'
+            );
+            if (isRestricted(ancestorRead)) {
+              const { title } = await client.getContentStatus(ancestor.id);
+              inherited.push({
+                id: ancestor.id,
+                title,
+                read: simplifyRestrictions([ancestorRead]).read,
+              });
+            }
+          }
+        }
+
+        const explanation: string[] = [];
+        if (isRestricted(read)) {
+          explanation.push('Viewing is restricted on this page.');
+        }
+        for (const ancestor of inherited) {
+          explanation.push(`Viewing is restricted by the ancestor page "${ancestor.title}".`);
+        }
+        if (isRestricted(update)) {
+          explanation.push(
+            'Editing is restricted: only the listed users and groups can update this page.'
+          );
+        }
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          viewRestricted: isRestricted(read) || inherited.length > 0,
+          editRestricted: isRestricted(update),
+          restrictions: simplifyRestrictions(restrictions),
+          ...(toolArgs.includeInherited !== false && { inheritedViewRestrictions: inherited }),
+          explanation:
+            explanation.length > 0
+              ? explanation.join(' ')
+              : 'No restrictions: space permissions alone decide who can view and edit this page.',
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting page restrictions:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toRestrictionMcpError(error, 'get page restrictions');
+      }
+    }
+  );
+}
+
+interface SetPageRestrictionsArgs extends ToolArgs {
+  pageId: string;
+  read?: RestrictionSubjects;
+  update?: RestrictionSubjects;
+  dryRun?: boolean;
+}
+
+export async function handleSetPageRestrictions(args: SetPageRestrictionsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if (!toolArgs.read && !toolArgs.update) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide read and/or update restrictions');
+        }
+
+        // Operations that were not passed keep their current restrictions
+        const current = await client.getPageRestrictions(toolArgs.pageId);
+        const restrictions = OPERATIONS.map((operation): PageRestriction => {
+          const subjects = toolArgs[operation];
+          if (!subjects) {
+            return findRestriction(current, operation);
+          }
+          return {
+            operation,
+            users: (subjects.users || []).map((accountId) => ({ accountId })),
+            groups: (subjects.groups || []).map((name) => ({ name })),
+          };
+        });
+
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [client.buildSetPageRestrictionsRequest(toolArgs.pageId, restrictions)],
+            {
+              pageId: toolArgs.pageId,
+              current: simplifyRestrictions(current),
+              proposed: simplifyRestrictions(restrictions),
+            }
+          );
+        }
+
+        await client.setPageRestrictions(toolArgs.pageId, restrictions);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: 'Page restrictions updated',
+                  pageId: toolArgs.pageId,
+                  restrictions: simplifyRestrictions(restrictions),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error setting page restrictions:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw toRestrictionMcpError(error, 'set page restrictions');
+      }
+    }
+  );
+}
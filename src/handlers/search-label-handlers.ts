@@ -1,14 +1,40 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 
+import type { ConfluenceSearchResult } from '../types/index.js';
 import { ConfluenceError } from '../types/index.js';
+import { buildCqlQuery } from '../utils/cql-builder.js';
+import type { CqlFilters } from '../utils/cql-builder.js';
+import { dryRunResponse } from '../utils/dry-run.js';
 import { cachePageInstance } from '../utils/instance-cache.js';
+import { autoPaginationLimit, collectPaginated } from '../utils/pagination.js';
 import { withConfluenceContext } from '../utils/tool-wrapper.js';
 import type { ToolArgs } from '../utils/tool-wrapper.js';
 
+function simplifySearchResult(result: ConfluenceSearchResult['results'][number]) {
+  return {
+    id: result.content.id,
+    type: result.content.type,
+    title: result.content.title,
+    spaceId: result.content.spaceId,
+    excerpt: result.excerpt,
+    lastModified: result.lastModified,
+    url: result.content._links.webui,
+  };
+}
+
+/**
+ * Whether Confluence rejected the CQL itself, rather than the request failing
+ */
+function isInvalidCql(error: unknown): error is ConfluenceError {
+  return error instanceof ConfluenceError && error.code === 'SEARCH_FAILED' && error.status === 400;
+}
+
 interface SearchPagesArgs extends ToolArgs {
   cql: string;
   limit?: number;
   cursor?: string;
+  all?: boolean;
+  maxItems?: number;
 }
 
 export async function handleSearchConfluencePages(args: SearchPagesArgs) {
@@ -17,10 +43,34 @@ export async function handleSearchConfluencePages(args: SearchPagesArgs) {
     { requiresSpace: false },
     async (toolArgs, { client, instanceName }) => {
       try {
-        const results = await client.searchConfluenceContent(toolArgs.cql, {
-          limit: toolArgs.limit,
-          start: toolArgs.cursor ? parseInt(toolArgs.cursor) : undefined,
-        });
+        const maxItems = autoPaginationLimit(toolArgs);
+        let results: Pick<ConfluenceSearchResult, 'results' | 'size' | 'totalSize'> & {
+          cursor?: string;
+        };
+        if (maxItems === undefined) {
+          const response = await client.searchConfluenceContent(toolArgs.cql, {
+            limit: toolArgs.limit,
+            cursor: toolArgs.cursor,
+          });
+          results = { ...response, cursor: response.nextCursor };
+        } else {
+          let totalSize: number | undefined;
+          const walk = await collectPaginated(
+            client.paginateSearchResults(toolArgs.cql, {
+              cursor: toolArgs.cursor,
+              maxItems,
+              onTotalSize: (size) => {
+                totalSize = size;
+              },
+            })
+          );
+          results = {
+            results: walk.results,
+            cursor: walk.cursor,
+            size: walk.results.length,
+            totalSize,
+          };
+        }
 
         // Cache page instances for search results
         for (const result of results.results) {
@@ -33,21 +83,11 @@ export async function handleSearchConfluencePages(args: SearchPagesArgs) {
         const simplified = {
           instance: instanceName,
           cql: toolArgs.cql,
-          results: results.results.map((result) => ({
-            id: result.content.id,
-            type: result.content.type,
-            title: result.content.title,
-            spaceId: result.content.spaceId,
-            excerpt: result.excerpt,
-            lastModified: result.lastModified,
-            url: result.content._links.webui,
-          })),
-          cursor: results._links.next
-            ? new URL(results._links.next).searchParams.get('cursor')
-            : undefined,
-          hasMore: !!results._links.next,
+          results: results.results.map(simplifySearchResult),
+          cursor: results.cursor,
+          hasMore: !!results.cursor,
           size: results.size,
-          totalSize: results.size,
+          totalSize: results.totalSize,
         };
 
         return {
@@ -63,9 +103,12 @@ export async function handleSearchConfluencePages(args: SearchPagesArgs) {
           'Error searching content:',
           error instanceof Error ? error.message : String(error)
         );
-        if (error instanceof ConfluenceError && error.code === 'SEARCH_FAILED') {
+        if (isInvalidCql(error)) {
           throw new McpError(ErrorCode.InvalidRequest, `Invalid CQL query: ${error.message}`);
         }
+        if (error instanceof ConfluenceError && error.code === 'INVALID_REQUEST') {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
         throw new McpError(
           ErrorCode.InternalError,
           `Failed to search content: ${error instanceof Error ? error.message : String(error)}`
@@ -75,6 +118,91 @@ export async function handleSearchConfluencePages(args: SearchPagesArgs) {
   );
 }
 
+interface BuildCqlQueryArgs extends ToolArgs, CqlFilters {
+  validate?: boolean;
+  run?: boolean;
+  limit?: number;
+  cursor?: string;
+}
+
+export async function handleBuildCqlQuery(args: BuildCqlQueryArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresSpace: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const cql = buildCqlQuery(toolArgs);
+
+        let simplified;
+        if (toolArgs.run) {
+          const response = await client.searchConfluenceContent(cql, {
+            limit: toolArgs.limit,
+            cursor: toolArgs.cursor,
+          });
+          for (const result of response.results) {
+            if (result.content?.spaceId) {
+              await cachePageInstance(result.content.id, result.content.spaceId, instanceName);
+            }
+          }
+          simplified = {
+            instance: instanceName,
+            cql,
+            valid: true,
+            results: response.results.map(simplifySearchResult),
+            cursor: response.nextCursor,
+            hasMore: !!response.nextCursor,
+            size: response.size,
+            totalSize: response.totalSize,
+          };
+        } else if (toolArgs.validate !== false) {
+          // Confluence is the judge of valid CQL; a one-result search asks it cheaply
+          try {
+            const response = await client.searchConfluenceContent(cql, { limit: 1 });
+            simplified = {
+              instance: instanceName,
+              cql,
+              valid: true,
+              totalSize: response.totalSize,
+            };
+          } catch (error) {
+            // Auth failures, rate limits and outages say nothing about the query
+            if (!isInvalidCql(error)) {
+              throw error;
+            }
+            simplified = { instance: instanceName, cql, valid: false, error: error.message };
+          }
+        } else {
+          simplified = { instance: instanceName, cql };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error building CQL query:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof ConfluenceError && error.code === 'INVALID_REQUEST') {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        if (isInvalidCql(error)) {
+          throw new McpError(ErrorCode.InvalidRequest, `Invalid CQL query: ${error.message}`);
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to build CQL query: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
 interface GetLabelsArgs extends ToolArgs {
   pageId: string;
 }
@@ -124,6 +252,7 @@ interface AddLabelArgs extends ToolArgs {
   pageId: string;
   label: string;
   prefix?: string;
+  dryRun?: boolean;
 }
 
 export async function handleAddConfluenceLabel(args: AddLabelArgs) {
@@ -132,6 +261,14 @@ export async function handleAddConfluenceLabel(args: AddLabelArgs) {
     { requiresPage: true },
     async (toolArgs, { client, instanceName }) => {
       try {
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [client.buildAddLabelRequest(toolArgs.pageId, toolArgs.label)],
+            { pageId: toolArgs.pageId, label: toolArgs.label }
+          );
+        }
+
         const result = await client.addConfluenceLabel(
           toolArgs.pageId,
           toolArgs.label,
@@ -184,6 +321,7 @@ export async function handleAddConfluenceLabel(args: AddLabelArgs) {
 interface RemoveLabelArgs extends ToolArgs {
   pageId: string;
   label: string;
+  dryRun?: boolean;
 }
 
 export async function handleRemoveConfluenceLabel(args: RemoveLabelArgs) {
@@ -192,6 +330,14 @@ export async function handleRemoveConfluenceLabel(args: RemoveLabelArgs) {
     { requiresPage: true },
     async (toolArgs, { client, instanceName }) => {
       try {
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [client.buildRemoveLabelRequest(toolArgs.pageId, toolArgs.label)],
+            { pageId: toolArgs.pageId, label: toolArgs.label }
+          );
+        }
+
         await client.removeConfluenceLabel(toolArgs.pageId, toolArgs.label);
 
         return {
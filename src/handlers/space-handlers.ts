@@ -1,5 +1,7 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 
+import type { Space } from '../types/index.js';
+import { autoPaginationLimit, collectPaginated, nextCursor } from '../utils/pagination.js';
 import { withConfluenceContext } from '../utils/tool-wrapper.js';
 import type { ToolArgs } from '../utils/tool-wrapper.js';
 
@@ -8,6 +10,8 @@ interface ListSpacesArgs extends ToolArgs {
   cursor?: string;
   sort?: 'name' | '-name' | 'key' | '-key';
   status?: 'current' | 'archived';
+  all?: boolean;
+  maxItems?: number;
 }
 
 export async function handleListConfluenceSpaces(args: ListSpacesArgs) {
@@ -16,12 +20,27 @@ export async function handleListConfluenceSpaces(args: ListSpacesArgs) {
     { requiresSpace: false },
     async (toolArgs, { client, instanceName }) => {
       try {
-        const spaces = await client.getConfluenceSpaces({
-          limit: toolArgs.limit,
-          cursor: toolArgs.cursor,
-          sort: toolArgs.sort,
-          status: toolArgs.status,
-        });
+        const maxItems = autoPaginationLimit(toolArgs);
+        let spaces: { results: Space[]; cursor?: string; limit: number; size: number };
+        if (maxItems === undefined) {
+          const response = await client.getConfluenceSpaces({
+            limit: toolArgs.limit,
+            cursor: toolArgs.cursor,
+            sort: toolArgs.sort,
+            status: toolArgs.status,
+          });
+          spaces = { ...response, cursor: nextCursor(response._links) };
+        } else {
+          const { results, cursor } = await collectPaginated(
+            client.paginateConfluenceSpaces({
+              cursor: toolArgs.cursor,
+              maxItems,
+              sort: toolArgs.sort,
+              status: toolArgs.status,
+            })
+          );
+          spaces = { results, cursor, limit: maxItems, size: results.length };
+        }
 
         // Transform to minimal format with cursor pagination support
         const simplified = {
@@ -37,10 +56,10 @@ export async function handleListConfluenceSpaces(args: ListSpacesArgs) {
               webui: space._links.webui,
             },
           })),
-          cursor: spaces._links.next?.split('cursor=')[1],
+          cursor: spaces.cursor,
           limit: spaces.limit,
           size: spaces.size,
-          hasMore: !!spaces._links.next,
+          hasMore: !!spaces.cursor,
         };
 
         return {
@@ -0,0 +1,291 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ConfluenceClient } from '../client/confluence-client.js';
+import type { PageTemplateConfig } from '../config.js';
+import { ConfluenceError } from '../types/index.js';
+import { convertMarkdownToStorage } from '../utils/content-converter.js';
+import { dryRunResponse } from '../utils/dry-run.js';
+import { cachePageInstance } from '../utils/instance-cache.js';
+import {
+  builtInTemplateVariables,
+  extractTemplateVariables,
+  fillTemplate,
+  loadTemplateFile,
+} from '../utils/page-templates.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+interface ResolvedTemplate {
+  name: string;
+  content: string;
+  format: 'markdown' | 'storage';
+  config: PageTemplateConfig;
+}
+
+/**
+ * Space templates are listed by space key; numeric IDs are looked up first
+ */
+async function resolveSpaceKey(client: ConfluenceClient, spaceId: string): Promise<string> {
+  return /^\d+$/.test(spaceId) ? (await client.getConfluenceSpace(spaceId)).key : spaceId;
+}
+
+/**
+ * Load the body of a configured template, or of a Confluence template by ID
+ */
+async function resolveTemplate(
+  client: ConfluenceClient,
+  templates: Record<string, PageTemplateConfig>,
+  args: { template?: string; templateId?: string }
+): Promise<ResolvedTemplate> {
+  if (args.template) {
+    const config = templates[args.template];
+    if (!config) {
+      const available = Object.keys(templates);
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Template "${args.template}" is not configured for this space. ${
+          available.length > 0 ? `Available: ${available.join(', ')}` : 'No templates configured'
+        }`
+      );
+    }
+    if (config.file) {
+      return { name: args.template, config, ...(await loadTemplateFile(config)) };
+    }
+    if (config.templateId) {
+      const template = await client.getPageTemplate(config.templateId);
+      return {
+        name: args.template,
+        config,
+        content: template.body?.storage?.value || '',
+        format: 'storage',
+      };
+    }
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Template "${args.template}" needs a file or a templateId in the configuration`
+    );
+  }
+
+  if (args.templateId) {
+    const template = await client.getPageTemplate(args.templateId);
+    return {
+      name: template.name,
+      config: {},
+      content: template.body?.storage?.value || '',
+      format: 'storage',
+    };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, 'Provide template or templateId');
+}
+
+interface ListPageTemplatesArgs extends ToolArgs {
+  spaceId: string;
+  includeConfluenceTemplates?: boolean;
+}
+
+export async function handleListPageTemplates(args: ListPageTemplatesArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresSpace: true },
+    async (toolArgs, { client, instanceName, spaceConfig }) => {
+      try {
+        const templates: Record<string, PageTemplateConfig> = spaceConfig?.templates || {};
+        const builtIns = [...Object.keys(builtInTemplateVariables()), 'author'];
+
+        const configured = [];
+        for (const [name, config] of Object.entries(templates)) {
+          let variables: string[] | undefined;
+          let error: string | undefined;
+          try {
+            const { content } = config.file ? await loadTemplateFile(config) : { content: '' };
+            variables = extractTemplateVariables(`${config.title || ''}\n${content}`);
+          } catch (loadError) {
+            error = loadError instanceof Error ? loadError.message : String(loadError);
+          }
+
+          configured.push({
+            name,
+            description: config.description,
+            source: config.file ? 'file' : 'confluence',
+            ...(config.file ? { file: config.file } : { templateId: config.templateId }),
+            title: config.title,
+            // Variables the caller has to pass: neither built in nor given a default
+            requiredVariables: variables?.filter(
+              (variable) =>
+                variable !== 'title' &&
+                !builtIns.includes(variable) &&
+                !(config.variables && variable in config.variables)
+            ),
+            defaults: config.variables,
+            labels: config.labels,
+            parentPageId: config.parentPageId,
+            ...(error && { error }),
+          });
+        }
+
+        let confluenceTemplates: { templateId: string; name: string; description?: string }[] = [];
+        if (toolArgs.includeConfluenceTemplates !== false) {
+          const spaceKey = await resolveSpaceKey(client, toolArgs.spaceId);
+          const response = await client.getPageTemplates(spaceKey);
+          confluenceTemplates = response.results.map((template) => ({
+            templateId: template.templateId,
+            name: template.name,
+            description: template.description,
+          }));
+        }
+
+        const simplified = {
+          instance: instanceName,
+          spaceId: toolArgs.spaceId,
+          builtInVariables: builtIns,
+          templates: configured,
+          ...(toolArgs.includeConfluenceTemplates !== false && { confluenceTemplates }),
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error listing page templates:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to list page templates: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface CreatePageFromTemplateArgs extends ToolArgs {
+  spaceId: string;
+  template?: string;
+  templateId?: string;
+  title?: string;
+  variables?: Record<string, string>;
+  parentId?: string;
+  dryRun?: boolean;
+}
+
+export async function handleCreatePageFromTemplate(args: CreatePageFromTemplateArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresSpace: true },
+    async (toolArgs, { client, instanceName, spaceConfig }) => {
+      try {
+        const template = await resolveTemplate(client, spaceConfig?.templates || {}, toolArgs);
+
+        const titleTemplate = toolArgs.title || template.config.title;
+        if (!titleTemplate) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Template "${template.name}" has no default title; pass title`
+          );
+        }
+
+        // Caller variables override template defaults, which override the built-ins
+        const variables: Record<string, string> = {
+          ...builtInTemplateVariables(),
+          ...template.config.variables,
+          ...toolArgs.variables,
+        };
+        const used = extractTemplateVariables(`${titleTemplate}\n${template.content}`);
+        if (used.includes('author') && !('author' in variables)) {
+          variables.author = (await client.getCurrentUser()).displayName;
+        }
+
+        const title = fillTemplate(titleTemplate, variables);
+        variables.title = variables.title ?? title;
+        const filled = fillTemplate(template.content, variables, {
+          escapeXml: template.format === 'storage',
+        });
+        const content = template.format === 'markdown' ? convertMarkdownToStorage(filled) : filled;
+
+        const parentId =
+          toolArgs.parentId || template.config.parentPageId || spaceConfig?.defaultParentPageId;
+        const labels = [
+          ...new Set<string>([
+            ...(template.config.labels || []),
+            ...(spaceConfig?.defaultLabels || []),
+          ]),
+        ];
+
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [
+              client.buildCreatePageRequest(toolArgs.spaceId, title, content, parentId),
+              ...labels.map((label) => client.buildAddLabelRequest('{pageId}', label)),
+            ],
+            {
+              spaceId: toolArgs.spaceId,
+              template: template.name,
+              title,
+              parentId: parentId || null,
+              labels,
+              variables,
+            }
+          );
+        }
+
+        const page = await client.createConfluencePage(toolArgs.spaceId, title, content, parentId);
+        await cachePageInstance(page.id, toolArgs.spaceId, instanceName);
+
+        for (const label of labels) {
+          try {
+            await client.addConfluenceLabel(page.id, label, 'global');
+          } catch (error) {
+            console.warn(`Failed to add template label "${label}":`, error);
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: `Page created from template "${template.name}"`,
+                  pageId: page.id,
+                  title: page.title,
+                  spaceId: page.spaceId,
+                  version: page.version.number,
+                  labels,
+                  url: page._links.webui,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error creating page from template:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof McpError) {
+          throw error;
+        }
+        if (error instanceof ConfluenceError && error.code === 'INVALID_REQUEST') {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to create page from template: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+  );
+}
@@ -0,0 +1,283 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { TreeContent, TreeContentType } from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+import { dryRunResponse } from '../utils/dry-run.js';
+import { cachePageInstance } from '../utils/instance-cache.js';
+import { nextCursor } from '../utils/pagination.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+function simplifyTreeContent(content: TreeContent) {
+  return {
+    id: content.id,
+    type: content.type,
+    title: content.title,
+    status: content.status,
+    spaceId: content.spaceId,
+    parentId: content.parentId || null,
+    parentType: content.parentType,
+    position: content.position,
+    authorId: content.authorId,
+    ownerId: content.ownerId,
+    createdAt: content.createdAt,
+    version: content.version?.number,
+    ...(content.embedUrl && { embedUrl: content.embedUrl }),
+    url: content._links?.webui,
+  };
+}
+
+interface GetContentChildrenArgs extends ToolArgs {
+  parentId: string;
+  parentType?: TreeContentType;
+  type?: TreeContentType;
+  limit?: number;
+  cursor?: string;
+}
+
+export async function handleGetContentChildren(args: GetContentChildrenArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const children = await client.getTreeChildren(
+          toolArgs.parentId,
+          toolArgs.parentType || 'page',
+          { limit: toolArgs.limit, cursor: toolArgs.cursor }
+        );
+
+        for (const child of children.results) {
+          if (child.type === 'page') {
+            await cachePageInstance(child.id, child.spaceId, instanceName);
+          }
+        }
+
+        // The API cannot filter by type, so the filter applies to each fetched batch
+        const results = toolArgs.type
+          ? children.results.filter((child) => child.type === toolArgs.type)
+          : children.results;
+
+        const simplified = {
+          instance: instanceName,
+          parentId: toolArgs.parentId,
+          parentType: toolArgs.parentType || 'page',
+          results: results.map((child) => ({
+            id: child.id,
+            title: child.title,
+            type: child.type,
+            status: child.status,
+            position: child.childPosition,
+          })),
+          cursor: nextCursor(children._links),
+          hasMore: !!children._links.next,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting content children:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to get content children: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface DescribeTreeContentArgs extends ToolArgs {
+  contentId: string;
+  type: Exclude<TreeContentType, 'page'>;
+}
+
+export async function handleDescribeTreeContent(args: DescribeTreeContentArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const content = await client.getTreeContent(toolArgs.contentId, toolArgs.type);
+
+        // Whiteboards and databases have no body in the API; describe where they sit instead.
+        // Embeds cannot have children
+        const children =
+          content.type === 'embed'
+            ? undefined
+            : await client.getTreeChildren(content.id, content.type, { limit: 250 });
+
+        const simplified = {
+          instance: instanceName,
+          ...simplifyTreeContent(content),
+          ...(children && {
+            children: children.results.map((child) => ({
+              id: child.id,
+              title: child.title,
+              type: child.type,
+            })),
+            hasMoreChildren: !!children._links.next,
+          }),
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          `Error describing ${args.type}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to describe ${args.type}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface CreateFolderArgs extends ToolArgs {
+  spaceId: string;
+  title: string;
+  parentId?: string;
+  dryRun?: boolean;
+}
+
+export async function handleCreateFolder(args: CreateFolderArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresSpace: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [client.buildCreateFolderRequest(toolArgs.spaceId, toolArgs.title, toolArgs.parentId)],
+            {
+              spaceId: toolArgs.spaceId,
+              title: toolArgs.title,
+              parentId: toolArgs.parentId || null,
+            }
+          );
+        }
+
+        const folder = await client.createFolder(
+          toolArgs.spaceId,
+          toolArgs.title,
+          toolArgs.parentId
+        );
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: 'Folder created successfully',
+                  ...simplifyTreeContent(folder),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error creating folder:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to create folder: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface MoveFolderArgs extends ToolArgs {
+  folderId: string;
+  targetParentId: string;
+  position?: 'append' | 'before' | 'after';
+  dryRun?: boolean;
+}
+
+export async function handleMoveFolder(args: MoveFolderArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: false },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        // The v1 move endpoint takes any content ID, so check the ID is a folder first
+        await client.getTreeContent(toolArgs.folderId, 'folder');
+
+        // Folders are content in the v1 API, so they move like pages
+        const position = toolArgs.position || 'append';
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [client.buildMovePageRequest(toolArgs.folderId, toolArgs.targetParentId, position)],
+            { folderId: toolArgs.folderId, targetParentId: toolArgs.targetParentId, position }
+          );
+        }
+
+        await client.moveConfluencePage(toolArgs.folderId, toolArgs.targetParentId, position);
+        const folder = await client.getTreeContent(toolArgs.folderId, 'folder');
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: 'Folder moved successfully',
+                  ...simplifyTreeContent(folder),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error moving folder:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof ConfluenceError) {
+          switch (error.code) {
+            case 'PAGE_NOT_FOUND':
+              throw new McpError(
+                ErrorCode.InvalidRequest,
+                `Folder ${toolArgs.folderId} or target ${toolArgs.targetParentId} not found`
+              );
+            case 'ACCESS_DENIED':
+            case 'INVALID_REQUEST':
+              throw new McpError(ErrorCode.InvalidRequest, error.message);
+          }
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to move folder: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
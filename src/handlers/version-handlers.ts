@@ -0,0 +1,307 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import type { ConfluenceClient } from '../client/confluence-client.js';
+import type { Page, VersionOptions } from '../types/index.js';
+import { convertStorageToMarkdown } from '../utils/content-converter.js';
+import { dryRunResponse, previewPageChange } from '../utils/dry-run.js';
+import { cachePageInstance } from '../utils/instance-cache.js';
+import { nextCursor } from '../utils/pagination.js';
+import { diffLines, diffStats, formatUnifiedDiff, splitLines } from '../utils/text-diff.js';
+import { withConfluenceContext } from '../utils/tool-wrapper.js';
+import type { ToolArgs } from '../utils/tool-wrapper.js';
+
+/**
+ * Fetch a page at a given version, or the current version when none is given
+ */
+async function getPageAtVersion(
+  client: ConfluenceClient,
+  pageId: string,
+  version?: number
+): Promise<Page> {
+  return version === undefined
+    ? client.getConfluencePage(pageId)
+    : client.getConfluencePageVersion(pageId, version);
+}
+
+function toMarkdown(page: Page): string {
+  return page.body?.storage?.value ? convertStorageToMarkdown(page.body.storage.value) : '';
+}
+
+interface ListPageVersionsArgs extends ToolArgs {
+  pageId: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export async function handleListPageVersions(args: ListPageVersionsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const versions = await client.getPageVersions(toolArgs.pageId, {
+          limit: toolArgs.limit,
+          cursor: toolArgs.cursor,
+        });
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          results: versions.results.map((version) => ({
+            number: version.number,
+            authorId: version.authorId,
+            createdAt: version.createdAt,
+            message: version.message || '',
+            minorEdit: version.minorEdit,
+          })),
+          cursor: nextCursor(versions._links),
+          hasMore: !!versions._links.next,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error listing page versions:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to list page versions: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface GetPageVersionArgs extends ToolArgs {
+  pageId: string;
+  version: number;
+}
+
+export async function handleGetPageVersion(args: GetPageVersionArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const page = await client.getConfluencePageVersion(toolArgs.pageId, toolArgs.version);
+
+        // Cache the page instance
+        await cachePageInstance(page.id, page.spaceId, instanceName);
+
+        const simplified = {
+          instance: instanceName,
+          title: page.title,
+          content: toMarkdown(page),
+          metadata: {
+            id: page.id,
+            spaceId: page.spaceId,
+            version: page.version.number,
+            authorId: page.version.authorId,
+            createdAt: page.version.createdAt,
+            message: page.version.message || '',
+            minorEdit: page.version.minorEdit,
+          },
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error getting page version:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to get page version: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface DiffPageVersionsArgs extends ToolArgs {
+  pageId: string;
+  fromVersion: number;
+  toVersion?: number;
+  context?: number;
+}
+
+export async function handleDiffPageVersions(args: DiffPageVersionsArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const [from, to] = await Promise.all([
+          getPageAtVersion(client, toolArgs.pageId, toolArgs.fromVersion),
+          getPageAtVersion(client, toolArgs.pageId, toolArgs.toVersion),
+        ]);
+
+        const before = toMarkdown(from);
+        const after = toMarkdown(to);
+        const stats = diffStats(diffLines(splitLines(before), splitLines(after)));
+
+        const simplified = {
+          instance: instanceName,
+          pageId: toolArgs.pageId,
+          fromVersion: from.version.number,
+          toVersion: to.version.number,
+          titleChanged: from.title !== to.title ? { from: from.title, to: to.title } : undefined,
+          stats,
+          diff: formatUnifiedDiff(before, after, {
+            fromLabel: `version ${from.version.number}`,
+            toLabel: `version ${to.version.number}`,
+            context: toolArgs.context,
+          }),
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(simplified, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error diffing page versions:',
+          error instanceof Error ? error.message : String(error)
+        );
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to diff page versions: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+interface RevertPageArgs extends ToolArgs {
+  pageId: string;
+  version: number;
+  versionMessage?: string;
+  minorEdit?: boolean;
+  dryRun?: boolean;
+}
+
+export async function handleRevertPageToVersion(args: RevertPageArgs) {
+  return withConfluenceContext(
+    args,
+    { requiresPage: true },
+    async (toolArgs, { client, instanceName }) => {
+      try {
+        const [target, current] = await Promise.all([
+          client.getConfluencePageVersion(toolArgs.pageId, toolArgs.version),
+          client.getConfluencePage(toolArgs.pageId),
+        ]);
+
+        if (target.version.number === current.version.number) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Version ${toolArgs.version} is already the current version`
+          );
+        }
+
+        // Writing a missing body would blank the page rather than restore it
+        const body = target.body?.storage?.value;
+        if (!body) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Version ${target.version.number} came back without a storage body; the page was not reverted`
+          );
+        }
+
+        const versionOptions: VersionOptions = {
+          message: toolArgs.versionMessage || `Reverted to version ${target.version.number}`,
+          minorEdit: toolArgs.minorEdit,
+        };
+
+        if (toolArgs.dryRun) {
+          return dryRunResponse(
+            instanceName,
+            [
+              client.buildUpdatePageRequest(
+                toolArgs.pageId,
+                target.title,
+                body,
+                current.version.number + 1,
+                'storage',
+                versionOptions
+              ),
+            ],
+            {
+              pageId: toolArgs.pageId,
+              revertedFrom: current.version.number,
+              revertedTo: target.version.number,
+              ...previewPageChange(
+                { title: current.title, markdown: toMarkdown(current) },
+                { title: target.title, markdown: toMarkdown(target) }
+              ),
+            }
+          );
+        }
+
+        // Reverting publishes the old title and body as a new version
+        const page = await client.updateConfluencePage(
+          toolArgs.pageId,
+          target.title,
+          body,
+          current.version.number + 1,
+          'storage',
+          versionOptions
+        );
+
+        await cachePageInstance(page.id, page.spaceId, instanceName);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  instance: instanceName,
+                  message: `Page reverted to version ${target.version.number}`,
+                  pageId: page.id,
+                  title: page.title,
+                  revertedFrom: current.version.number,
+                  revertedTo: target.version.number,
+                  version: page.version.number,
+                  url: page._links.webui,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          'Error reverting page:',
+          error instanceof Error ? error.message : String(error)
+        );
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to revert page: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
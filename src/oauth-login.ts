@@ -0,0 +1,187 @@
+#!/usr/bin/env node
+/**
+ * Interactive OAuth 2.0 (3LO) login for the Confluence Cloud MCP server.
+ *
+ * Runs the Atlassian authorization-code flow with PKCE against a loopback
+ * callback, looks up the sites the token can access and writes the instance
+ * (tokens, client credentials and cloudId) into .confluence-config.json.
+ *
+ *   node build/oauth-login.js --client-id=... --client-secret=... [--site=company.atlassian.net]
+ *     [--instance=name] [--port=8107] [--scopes="..."] [--default] [--no-browser]
+ *
+ * The app's callback URL in the developer console must be http://localhost:<port>/callback.
+ */
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
+import { createInterface } from 'readline/promises';
+
+import { loadConfiguration } from './config-loader.js';
+import { saveInstanceConfig } from './config.js';
+import { getAccessibleResources } from './utils/confluence-api.js';
+import type { AccessibleResource } from './utils/confluence-api.js';
+import {
+  DEFAULT_OAUTH_SCOPES,
+  buildAuthorizationUrl,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  startCallbackListener,
+} from './utils/oauth-authorization.js';
+import { toStoredTokens } from './utils/oauth.js';
+import { saveStoredTokens } from './utils/token-store.js';
+
+const DEFAULT_CALLBACK_PORT = 8107;
+const CALLBACK_PATH = '/callback';
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+
+// Read --name=value or --name value from CLI args
+function getArg(name: string): string | undefined {
+  const flag = `--${name}`;
+  const index = process.argv.findIndex((arg) => arg === flag || arg.startsWith(`${flag}=`));
+  if (index === -1) return undefined;
+
+  const arg = process.argv[index];
+  return arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : process.argv[index + 1];
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+// Best effort; the URL is always printed as well
+function openBrowser(url: string): void {
+  const command =
+    process.platform === 'darwin'
+      ? 'open'
+      : process.platform === 'win32'
+        ? 'explorer.exe'
+        : 'xdg-open';
+  try {
+    const child = spawn(command, [url], { stdio: 'ignore', detached: true });
+    child.on('error', () => undefined);
+    child.unref();
+  } catch {
+    // Ignore; the user can open the printed URL
+  }
+}
+
+async function selectResource(
+  resources: AccessibleResource[],
+  site?: string
+): Promise<AccessibleResource> {
+  if (resources.length === 0) {
+    throw new Error('The authorized token cannot access any Confluence site');
+  }
+
+  if (site) {
+    const host = site.replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+    const match = resources.find((resource) => new URL(resource.url).host === host);
+    if (!match) {
+      throw new Error(
+        `Site ${host} is not accessible with this token. Accessible sites: ${resources
+          .map((resource) => resource.url)
+          .join(', ')}`
+      );
+    }
+    return match;
+  }
+
+  if (resources.length === 1) return resources[0];
+
+  console.info('The token can access several sites:');
+  resources.forEach((resource, index) => {
+    console.info(`  ${index + 1}. ${resource.name} (${resource.url})`);
+  });
+
+  const prompt = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    const answer = await prompt.question(`Select a site [1-${resources.length}]: `);
+    const selected = resources[parseInt(answer, 10) - 1];
+    if (!selected) {
+      throw new Error(`Invalid selection: ${answer}`);
+    }
+    return selected;
+  } finally {
+    prompt.close();
+  }
+}
+
+async function main() {
+  await loadConfiguration();
+
+  const clientId = getArg('client-id') || process.env.CONFLUENCE_OAUTH_CLIENT_ID;
+  const clientSecret = getArg('client-secret') || process.env.CONFLUENCE_OAUTH_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error(
+      'Provide --client-id and --client-secret (or CONFLUENCE_OAUTH_CLIENT_ID / CONFLUENCE_OAUTH_CLIENT_SECRET)'
+    );
+  }
+
+  const port = parseInt(getArg('port') || String(DEFAULT_CALLBACK_PORT), 10);
+  const scopesArg = getArg('scopes');
+  const scopes = scopesArg ? scopesArg.split(/[\s,]+/).filter(Boolean) : DEFAULT_OAUTH_SCOPES;
+  const redirectUri = `http://localhost:${port}${CALLBACK_PATH}`;
+  const pkce = createPkcePair();
+  const state = randomBytes(16).toString('hex');
+
+  const listener = await startCallbackListener({
+    port,
+    path: CALLBACK_PATH,
+    state,
+    timeoutMs: CALLBACK_TIMEOUT_MS,
+  });
+
+  const authorizationUrl = buildAuthorizationUrl({
+    clientId,
+    redirectUri,
+    scopes,
+    state,
+    codeChallenge: pkce.challenge,
+  });
+  console.info(`Open this URL to authorize access to Confluence:\n\n  ${authorizationUrl}\n`);
+  if (!hasFlag('no-browser')) {
+    openBrowser(authorizationUrl);
+  }
+  console.info(`Waiting for the callback on ${redirectUri} ...`);
+
+  const code = await listener.code;
+  const tokens = await exchangeAuthorizationCode({
+    clientId,
+    clientSecret,
+    code,
+    redirectUri,
+    codeVerifier: pkce.verifier,
+  });
+  if (!tokens.refresh_token) {
+    console.warn('No refresh token was issued; add the offline_access scope to stay signed in.');
+  }
+
+  const resource = await selectResource(
+    await getAccessibleResources(tokens.access_token),
+    getArg('site')
+  );
+  const domain = new URL(resource.url).host;
+  const instanceName = getArg('instance') || resource.name;
+
+  const configPath = await saveInstanceConfig(
+    instanceName,
+    {
+      domain,
+      cloudId: resource.id,
+      oauthAccessToken: tokens.access_token,
+      oauthRefreshToken: tokens.refresh_token,
+      oauthClientId: clientId,
+      oauthClientSecret: clientSecret,
+    },
+    { makeDefault: hasFlag('default') }
+  );
+
+  // Replace any previously rotated tokens so the new grant is used right away
+  await saveStoredTokens(domain, toStoredTokens(tokens));
+
+  console.info(`Saved instance "${instanceName}" (${domain}) to ${configPath}`);
+}
+
+main().catch((error) => {
+  console.error('Authorization failed:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
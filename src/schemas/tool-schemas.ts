@@ -18,7 +18,7 @@ export const toolSchemas: Record<string, ToolSchema> = {
   },
   list_confluence_spaces: {
     description:
-      'List all available Confluence spaces. Best used as the first step in a content discovery workflow. Returns space IDs, names, and keys that you can use with other tools. TIP: Use a higher limit (e.g., 100) on first call to get a comprehensive view of available spaces.',
+      'List all available Confluence spaces. Best used as the first step in a content discovery workflow. Returns space IDs, names, and keys that you can use with other tools. TIP: Pass all: true to get a comprehensive view of available spaces in one call.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -40,6 +40,16 @@ export const toolSchemas: Record<string, ToolSchema> = {
           enum: ['name', '-name', 'key', '-key'],
           description: 'Sort spaces by field (prefix with - for descending)',
         },
+        all: {
+          type: 'boolean',
+          description:
+            'Follow the pagination and return every space in one call, up to 5000. The response has a cursor to continue from when more remain',
+        },
+        maxItems: {
+          type: 'number',
+          description:
+            'Follow the pagination until this many spaces are collected (max: 5000). Implies all; limit is ignored',
+        },
       },
     },
   },
@@ -66,7 +76,7 @@ export const toolSchemas: Record<string, ToolSchema> = {
 
   list_confluence_pages: {
     description:
-      'List pages in a specific Confluence space. Essential for content navigation and discovery within a space. Returns page IDs and titles that can be used with get_confluence_page. TIP: Use status filter to find specific page states (current, archived, draft, trashed).',
+      'List pages in a specific Confluence space. Essential for content navigation and discovery within a space. Returns page IDs and titles that can be used with get_confluence_page. TIP: Use status filter to find specific page states (current, archived, draft, trashed). Folders, whiteboards and databases are not listed; browse them with get_content_children.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -104,6 +114,16 @@ export const toolSchemas: Record<string, ToolSchema> = {
           enum: ['current', 'archived', 'draft', 'trashed'],
           description: 'Filter by page status (default: current)',
         },
+        all: {
+          type: 'boolean',
+          description:
+            'Follow the pagination and return every page in one call, up to 5000. The response has a cursor to continue from when more remain',
+        },
+        maxItems: {
+          type: 'number',
+          description:
+            'Follow the pagination until this many pages are collected (max: 5000). Implies all; limit is ignored',
+        },
       },
       required: ['spaceId'],
     },
@@ -111,7 +131,7 @@ export const toolSchemas: Record<string, ToolSchema> = {
 
   get_confluence_page: {
     description:
-      'Get the full content of a specific Confluence page, automatically converted to Markdown format. Essential for reading and understanding page content. Includes metadata like version, author, and last modified date. TIP: Always check the version number before updating a page.',
+      'Get the full content of a specific Confluence page, automatically converted to Markdown format. Essential for reading and understanding page content. Macros appear as directives (e.g. :::info{title="Note"} ... :::, ::toc{}, :jira{key="ABC-1"}); keep them intact when writing the content back with contentFormat: "markdown". Includes metadata like version, author, and last modified date. TIP: Always check the version number before updating a page.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -124,6 +144,12 @@ export const toolSchemas: Record<string, ToolSchema> = {
           type: 'string',
           description: 'ID of the page to retrieve',
         },
+        bodyFormat: {
+          type: 'string',
+          enum: ['storage', 'adf'],
+          description:
+            'Body representation to fetch (default: storage). With adf the raw Atlassian Document Format is returned alongside the Markdown content',
+        },
       },
       required: ['pageId'],
     },
@@ -155,7 +181,7 @@ export const toolSchemas: Record<string, ToolSchema> = {
 
   create_confluence_page: {
     description:
-      'Create a new page in Confluence. Content should be in Confluence storage format (XHTML). Use for adding new documentation, meeting notes, or project pages. TIP: Wrap content in proper HTML tags like <p>, <h1>, <ul>, etc. Returns the created page details including its ID.',
+      'Create a new page in Confluence. Content can be Confluence storage format (XHTML, the default), Markdown with contentFormat: "markdown" or ADF JSON with contentFormat: "adf". Use for adding new documentation, meeting notes, or project pages. TIP: Markdown supports headings, nested lists, GFM tables, fenced code blocks (rendered as code macros), task lists, links and images. Returns the created page details including its ID.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -174,12 +200,29 @@ export const toolSchemas: Record<string, ToolSchema> = {
         },
         content: {
           type: 'string',
-          description: 'Page content in Confluence storage format (XHTML)',
+          description: 'Page content in the format given by contentFormat',
+        },
+        contentFormat: {
+          type: 'string',
+          enum: ['storage', 'markdown', 'adf'],
+          description:
+            'Format of the content argument (default: storage). Use markdown to write the same format get_confluence_page returns, or adf for an Atlassian Document Format JSON string',
+        },
+        bodyFormat: {
+          type: 'string',
+          enum: ['storage', 'adf'],
+          description:
+            'Body representation sent to Confluence for storage or markdown content (default: storage). adf content is always sent as ADF',
         },
         parentId: {
           type: 'string',
           description: 'Optional: ID of the parent page',
         },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without creating anything: returns the resolved requests (parent page and default labels included)',
+        },
       },
       required: ['spaceId', 'title', 'content'],
     },
@@ -187,7 +230,7 @@ export const toolSchemas: Record<string, ToolSchema> = {
 
   update_confluence_page: {
     description:
-      'Update an existing Confluence page. Requires the current version number to prevent conflicts. Content should be in Confluence storage format. IMPORTANT: Always get the current version with get_confluence_page first. TIP: Increment the version number by 1 when updating.',
+      'Update an existing Confluence page. Requires the version number to prevent conflicts. Content can be Confluence storage format (default), Markdown with contentFormat: "markdown" or ADF JSON with contentFormat: "adf". IMPORTANT: Always get the current version with get_confluence_page first. TIP: Increment the version number by 1 when updating. If someone else published a version in the meantime, storage and Markdown updates are three-way merged with their changes; when the changes clash nothing is written and the response lists the conflicting hunks (conflict: true).',
     inputSchema: {
       type: 'object',
       properties: {
@@ -206,17 +249,111 @@ export const toolSchemas: Record<string, ToolSchema> = {
         },
         content: {
           type: 'string',
-          description: 'New content in Confluence storage format (XHTML)',
+          description: 'New content in the format given by contentFormat',
+        },
+        contentFormat: {
+          type: 'string',
+          enum: ['storage', 'markdown', 'adf'],
+          description:
+            'Format of the content argument (default: storage). Use markdown to write the same format get_confluence_page returns, or adf for an Atlassian Document Format JSON string',
+        },
+        bodyFormat: {
+          type: 'string',
+          enum: ['storage', 'adf'],
+          description:
+            'Body representation sent to Confluence for storage or markdown content (default: storage). adf content is always sent as ADF',
         },
         version: {
           type: 'number',
-          description: 'Current version number of the page (required for conflict detection)',
+          description:
+            'New version number: the version you read plus 1. The version you read is the base for merging concurrent changes',
+        },
+        versionMessage: {
+          type: 'string',
+          description: 'Version message shown in the page history (default: "Updated via API")',
+        },
+        minorEdit: {
+          type: 'boolean',
+          description: 'Record as a minor edit, which does not notify watchers (default: false)',
+        },
+        autoSummary: {
+          type: 'boolean',
+          description:
+            'Add a summary generated from the Markdown diff to the version message, e.g. +4 -1 lines in "Install"',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without writing: returns the request that would be sent and a diff against the current page',
         },
       },
       required: ['pageId', 'title', 'content', 'version'],
     },
   },
 
+  patch_confluence_page: {
+    description:
+      'Edit one section of a Confluence page without sending the whole body. The section is found by its heading path or an anchor, the current version is fetched internally and only the changed document is written back. Operations: replace (everything under the heading, subsections included), append (end of the section before its subsections), prepend (directly below the heading), insert-after (after the section and its subsections) and delete (the heading and everything under it).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page to patch',
+        },
+        headingPath: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Heading texts from the outer heading down to the target, e.g. ["Setup", "Install"]. A trailing part of the path is enough when it is unique. Matching ignores case and extra whitespace',
+        },
+        anchor: {
+          type: 'string',
+          description:
+            'Alternative to headingPath: an anchor macro name, heading id or the anchor Confluence generates from a heading (e.g. "PageTitle-Install")',
+        },
+        operation: {
+          type: 'string',
+          enum: ['replace', 'append', 'prepend', 'insert-after', 'delete'],
+          description: 'What to do with the section',
+        },
+        content: {
+          type: 'string',
+          description: 'Content to insert or replace with (not needed for delete)',
+        },
+        contentFormat: {
+          type: 'string',
+          enum: ['storage', 'markdown'],
+          description: 'Format of the content argument (default: storage)',
+        },
+        versionMessage: {
+          type: 'string',
+          description: 'Version message shown in the page history (default: "Updated via API")',
+        },
+        minorEdit: {
+          type: 'boolean',
+          description: 'Record as a minor edit, which does not notify watchers (default: false)',
+        },
+        autoSummary: {
+          type: 'boolean',
+          description:
+            'Add a summary generated from the Markdown diff to the version message, e.g. +4 -1 lines in "Install"',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without writing: returns the request that would be sent and a diff against the current page',
+        },
+      },
+      required: ['pageId', 'operation'],
+    },
+  },
+
   search_confluence_pages: {
     description: `Search for Confluence content using CQL (Confluence Query Language). Powerful tool for finding pages across spaces.
 
@@ -228,7 +365,7 @@ Common query patterns:
 - Recent changes: lastmodified > now("-7d")
 - Combined: space = "DEV" AND text ~ "api" AND lastmodified > now("-30d")
 
-Returns page summaries with IDs for detailed retrieval. TIP: Use ~ for fuzzy matching, = for exact matching.`,
+Returns page summaries with IDs for detailed retrieval. TIP: Use ~ for fuzzy matching, = for exact matching. To avoid CQL syntax errors, build the query with build_cql_query.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -247,13 +384,141 @@ Returns page summaries with IDs for detailed retrieval. TIP: Use ~ for fuzzy mat
         },
         cursor: {
           type: 'string',
-          description: 'Cursor for pagination, obtained from _links.next',
+          description:
+            'Opaque pagination cursor, as returned in the cursor field of a previous search',
+        },
+        all: {
+          type: 'boolean',
+          description:
+            'Follow the pagination and return every result in one call, up to 5000. The response has a cursor to continue from when more remain',
+        },
+        maxItems: {
+          type: 'number',
+          description:
+            'Follow the pagination until this many results are collected (max: 5000). Implies all; limit is ignored',
         },
       },
       required: ['cql'],
     },
   },
 
+  build_cql_query: {
+    description:
+      'Build a CQL query for search_confluence_pages from structured filters instead of writing CQL by hand. Values are quoted and escaped, and filters are combined with AND. By default the query is checked against Confluence, returning valid and the number of matches; pass run: true to get the results as well.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from space/page context or defaults.',
+        },
+        spaceKeys: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only content in these spaces, by space key',
+        },
+        types: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['page', 'blogpost', 'comment', 'attachment', 'folder', 'whiteboard', 'database'],
+          },
+          description: 'Only content of these types',
+        },
+        labels: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only content with these labels',
+        },
+        labelMatch: {
+          type: 'string',
+          enum: ['any', 'all'],
+          description:
+            'any matches content with one of the labels, all needs every label (default: any)',
+        },
+        excludeLabels: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Leave out content with any of these labels',
+        },
+        contributors: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Only content edited by these users, by account ID; "me" is the calling user',
+        },
+        creators: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Only content created by these users, by account ID; "me" is the calling user',
+        },
+        ancestorIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only content anywhere below these pages',
+        },
+        parentId: {
+          type: 'string',
+          description: 'Only direct children of this page',
+        },
+        title: {
+          type: 'string',
+          description: 'Words the title contains',
+        },
+        text: {
+          type: 'string',
+          description: 'Words the title, body or labels contain',
+        },
+        createdAfter: {
+          type: 'string',
+          description:
+            'Created on or after this date: YYYY-MM-DD, "YYYY-MM-DD HH:mm", or relative to now like -7d, -2w or -1M',
+        },
+        createdBefore: {
+          type: 'string',
+          description: 'Created before this date, in the same formats as createdAfter',
+        },
+        modifiedAfter: {
+          type: 'string',
+          description: 'Last modified on or after this date, in the same formats as createdAfter',
+        },
+        modifiedBefore: {
+          type: 'string',
+          description: 'Last modified before this date, in the same formats as createdAfter',
+        },
+        orderBy: {
+          type: 'string',
+          enum: ['created', 'lastmodified', 'title'],
+          description: 'Field to sort the results by (default: relevance)',
+        },
+        orderDirection: {
+          type: 'string',
+          enum: ['asc', 'desc'],
+          description: 'Sort direction for orderBy (default: desc)',
+        },
+        validate: {
+          type: 'boolean',
+          description:
+            'Check the query with Confluence; invalid queries return valid: false and the error (default: true)',
+        },
+        run: {
+          type: 'boolean',
+          description: 'Also run the query and return the first page of results',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return with run (default: 25, max: 100)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Opaque pagination cursor from a previous run of the same filters',
+        },
+      },
+    },
+  },
+
   get_confluence_labels: {
     description:
       'Get all labels attached to a specific page. Labels are key-value tags used for categorization and discovery. Useful for understanding page context and finding related content. Returns label names with their prefixes (global, personal, or team).',
@@ -304,6 +569,10 @@ Common uses: categorization, workflow states, team ownership, priority marking.
           type: 'string',
           description: 'Label name (lowercase, no spaces, use hyphens)',
         },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without adding the label: returns the request that would be sent',
+        },
       },
       required: ['contentId', 'prefix', 'name'],
     },
@@ -328,6 +597,10 @@ Common uses: categorization, workflow states, team ownership, priority marking.
           type: 'string',
           description: 'Exact name of the label to remove',
         },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without removing the label: returns the request that would be sent',
+        },
       },
       required: ['pageId', 'label'],
     },
@@ -358,8 +631,1309 @@ Common uses: categorization, workflow states, team ownership, priority marking.
           enum: ['append', 'before', 'after'],
           description: 'Position relative to the target parent (default: append)',
         },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without moving: returns the request that would be sent with the current and target parent',
+        },
       },
       required: ['pageId', 'targetParentId'],
     },
   },
+
+  copy_confluence_page: {
+    description:
+      'Copy a Confluence page, and optionally all pages below it, to a new parent page or to the root of a space. Labels and attachments are copied by default, content properties on request. Titles can be rewritten with find/replace rules, and links between the copied pages follow the new titles.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page to copy',
+        },
+        targetParentId: {
+          type: 'string',
+          description: 'ID of the page to copy under. The copy is created in its space',
+        },
+        targetSpaceId: {
+          type: 'string',
+          description:
+            'ID of the space to copy to, at its root. Used when targetParentId is not given',
+        },
+        includeDescendants: {
+          type: 'boolean',
+          description:
+            'Also copy every page below the page, keeping the hierarchy (default: false)',
+        },
+        includeAttachments: {
+          type: 'boolean',
+          description: 'Copy attachments (default: true)',
+        },
+        includeLabels: {
+          type: 'boolean',
+          description: 'Copy labels (default: true)',
+        },
+        includeProperties: {
+          type: 'boolean',
+          description: 'Copy content properties (default: false)',
+        },
+        titleRules: {
+          type: 'array',
+          description:
+            'Rules applied in order to every copied title, e.g. [{"find": "Template", "replace": "2.4"}]. Titles must be unique within a space, so copies into the same space need a rule, prefix or suffix',
+          items: {
+            type: 'object',
+            properties: {
+              find: { type: 'string', description: 'Text to find' },
+              replace: { type: 'string', description: 'Replacement text' },
+              regex: {
+                type: 'boolean',
+                description:
+                  'Treat find as a regular expression; replace may use $1 (default: false)',
+              },
+            },
+            required: ['find', 'replace'],
+          },
+        },
+        titlePrefix: {
+          type: 'string',
+          description: 'Text added before every copied title, after the rules',
+        },
+        titleSuffix: {
+          type: 'string',
+          description: 'Text added after every copied title, after the rules',
+        },
+        maxPages: {
+          type: 'number',
+          description: 'Maximum number of pages to copy (default: 100, max: 500)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without copying: returns the new titles and the requests that would be sent',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  // Page lifecycle tools
+  delete_confluence_page: {
+    description:
+      'Delete a Confluence page. By default the page is moved to the trash and can be brought back with restore_confluence_page. Set purge: true to delete it permanently (requires space admin permission).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page to delete',
+        },
+        purge: {
+          type: 'boolean',
+          description:
+            'Permanently delete the page instead of moving it to the trash (default: false). Cannot be undone',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            "Preview without deleting: returns the requests that would be sent for the page's current status",
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  list_trashed_pages: {
+    description:
+      'List the pages in the trash of a Confluence space. Use to find pages to restore with restore_confluence_page or to purge with delete_confluence_page. Supports cursor pagination.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from space context or defaults.',
+        },
+        spaceId: {
+          type: 'string',
+          description: 'ID of the space to list trashed pages from',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of pages to return (default: 25)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor from a previous response',
+        },
+      },
+      required: ['spaceId'],
+    },
+  },
+
+  restore_confluence_page: {
+    description:
+      'Restore a trashed Confluence page to its original location. Purged pages cannot be restored.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the trashed page to restore',
+        },
+        versionMessage: {
+          type: 'string',
+          description: 'Version message shown in the page history',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without restoring: returns the request that would be sent',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  // Version history tools
+  list_page_versions: {
+    description:
+      'List the version history of a Confluence page, newest first: version number, author, date, version message and whether it was a minor edit. Use with get_page_version, diff_page_versions and revert_page_to_version to audit and undo edits.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of versions to return (default: 25)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor from a previous response',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  get_page_version: {
+    description:
+      'Get the content of a specific version of a Confluence page, converted to Markdown like get_confluence_page, with the version author, date and message.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        version: {
+          type: 'number',
+          description: 'Version number to retrieve',
+        },
+      },
+      required: ['pageId', 'version'],
+    },
+  },
+
+  diff_page_versions: {
+    description:
+      'Compare two versions of a Confluence page. Returns a unified diff of their Markdown rendering plus added/removed line counts. Omit toVersion to compare against the current version.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        fromVersion: {
+          type: 'number',
+          description: 'Older version number (the "before" side of the diff)',
+        },
+        toVersion: {
+          type: 'number',
+          description: 'Newer version number (default: current version)',
+        },
+        context: {
+          type: 'number',
+          description: 'Lines of context around each change (default: 3)',
+        },
+      },
+      required: ['pageId', 'fromVersion'],
+    },
+  },
+
+  revert_page_to_version: {
+    description:
+      "Revert a Confluence page to an earlier version by publishing that version's title and content as a new version. History is kept, so a revert can itself be reverted.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        version: {
+          type: 'number',
+          description: 'Version number to restore',
+        },
+        versionMessage: {
+          type: 'string',
+          description:
+            'Version message shown in the page history (default: "Reverted to version N")',
+        },
+        minorEdit: {
+          type: 'boolean',
+          description: 'Record as a minor edit, which does not notify watchers (default: false)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without writing: returns the request that would be sent and a diff against the current page',
+        },
+      },
+      required: ['pageId', 'version'],
+    },
+  },
+
+  // Page tree tools
+  get_page_children: {
+    description:
+      'List the direct children of a Confluence page in their sidebar order. Children include folders, whiteboards and databases, marked by their type.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the parent page',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of children to return (default: 25)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor from a previous response',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  get_page_descendants: {
+    description:
+      'Get all pages below a Confluence page as a nested tree, down to a depth limit. Pages at the depth limit have no children field.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page whose descendants to return',
+        },
+        depth: {
+          type: 'number',
+          description: 'How many levels to walk, from 1 to 10 (default: 3)',
+        },
+        maxPages: {
+          type: 'number',
+          description:
+            'Stop after this many pages; the response reports truncated: true (default: 500)',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'outline'],
+          description:
+            'json returns nested nodes with id, title, status and children; outline returns an indented Markdown list (default: json)',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  get_page_ancestors: {
+    description:
+      'Get the ancestors of a Confluence page from the space root down to its parent, with a readable breadcrumb path. Ancestors can be folders as well as pages.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  get_space_page_tree: {
+    description:
+      'Get the content hierarchy of a space, starting from the pages and folders directly under its homepage. Useful for deciding where a new page belongs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from space context or defaults.',
+        },
+        spaceId: {
+          type: 'string',
+          description: 'ID of the space',
+        },
+        depth: {
+          type: 'number',
+          description: 'How many levels to walk, from 1 to 10 (default: 3)',
+        },
+        maxPages: {
+          type: 'number',
+          description:
+            'Stop after this many pages; the response reports truncated: true (default: 500)',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'outline'],
+          description:
+            'json returns nested nodes with id, title, status and children; outline returns an indented Markdown list (default: json)',
+        },
+      },
+      required: ['spaceId'],
+    },
+  },
+
+  // Folder and content tree tools
+  get_content_children: {
+    description:
+      'List the direct children of any node in the page tree: a page, folder, whiteboard or database. Each child has a type (page, folder, whiteboard, database or embed), so use this to browse folders, which list_confluence_pages does not return.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        parentId: {
+          type: 'string',
+          description: 'ID of the parent content',
+        },
+        parentType: {
+          type: 'string',
+          enum: ['page', 'folder', 'whiteboard', 'database'],
+          description: 'Type of the parent content (default: page)',
+        },
+        type: {
+          type: 'string',
+          enum: ['page', 'folder', 'whiteboard', 'database', 'embed'],
+          description: 'Only return children of this type, filtered within each fetched batch',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of children to return (default: 25)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor from a previous response',
+        },
+      },
+      required: ['parentId'],
+    },
+  },
+
+  describe_tree_content: {
+    description:
+      'Get the metadata of a folder, whiteboard, database or Smart Link embed: title, parent, position, owner, version and URL, plus its direct children. Whiteboard and database contents are not available through the API.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        contentId: {
+          type: 'string',
+          description: 'ID of the content',
+        },
+        type: {
+          type: 'string',
+          enum: ['folder', 'whiteboard', 'database', 'embed'],
+          description: 'Type of the content, as returned by get_content_children',
+        },
+      },
+      required: ['contentId', 'type'],
+    },
+  },
+
+  create_folder: {
+    description:
+      'Create a folder in a Confluence space to group pages in the page tree. Folders have no body; move pages into them with move_confluence_page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from space/page context or defaults.',
+        },
+        spaceId: {
+          type: 'string',
+          description: 'ID of the space to create the folder in',
+        },
+        title: {
+          type: 'string',
+          description: 'Title of the folder',
+        },
+        parentId: {
+          type: 'string',
+          description: 'Optional ID of the parent page or folder (default: the space root)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without creating: returns the request that would be sent',
+        },
+      },
+      required: ['spaceId', 'title'],
+    },
+  },
+
+  move_folder: {
+    description:
+      'Move a folder, with everything in it, under another page or folder, or next to it in the sidebar order.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        folderId: {
+          type: 'string',
+          description: 'ID of the folder to move',
+        },
+        targetParentId: {
+          type: 'string',
+          description: 'ID of the page or folder to move relative to',
+        },
+        position: {
+          type: 'string',
+          enum: ['append', 'before', 'after'],
+          description:
+            'append makes the folder the last child of the target; before and after make it a sibling of the target (default: append)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without moving: returns the request that would be sent',
+        },
+      },
+      required: ['folderId', 'targetParentId'],
+    },
+  },
+
+  // Comment tools
+  list_page_comments: {
+    description:
+      'List the comments on a Confluence page as threads: footer comments and inline comments with their replies. Inline comments include the highlighted text and their resolution status. Comment bodies are converted to Markdown.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        type: {
+          type: 'string',
+          enum: ['all', 'footer', 'inline'],
+          description: 'Which comments to list (default: all)',
+        },
+        resolutionStatus: {
+          type: 'string',
+          enum: ['open', 'reopened', 'resolved', 'dangling'],
+          description: 'Only list inline comments with this resolution status',
+        },
+        includeReplies: {
+          type: 'boolean',
+          description: 'Include the replies of each comment (default: true)',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  add_page_comment: {
+    description:
+      'Add a comment to a Confluence page. Without highlightedText this is a footer comment at the bottom of the page; with highlightedText it is an inline comment attached to that text.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page to comment on',
+        },
+        content: {
+          type: 'string',
+          description: 'Comment text in the format given by contentFormat',
+        },
+        contentFormat: {
+          type: 'string',
+          enum: ['markdown', 'storage'],
+          description: 'Format of the content argument (default: markdown)',
+        },
+        highlightedText: {
+          type: 'string',
+          description:
+            'Text on the page to attach an inline comment to. Must match the page text exactly',
+        },
+        matchIndex: {
+          type: 'number',
+          description:
+            'Which occurrence of highlightedText to attach to when it appears more than once, starting at 0 (default: 0)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without commenting: returns the request that would be sent',
+        },
+      },
+      required: ['pageId', 'content'],
+    },
+  },
+
+  reply_to_comment: {
+    description: 'Reply to a footer or inline comment, as listed by list_page_comments.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        commentId: {
+          type: 'string',
+          description: 'ID of the comment to reply to',
+        },
+        commentType: {
+          type: 'string',
+          enum: ['footer', 'inline'],
+          description: 'Type of the comment to reply to, as returned by list_page_comments',
+        },
+        content: {
+          type: 'string',
+          description: 'Comment text in the format given by contentFormat',
+        },
+        contentFormat: {
+          type: 'string',
+          enum: ['markdown', 'storage'],
+          description: 'Format of the content argument (default: markdown)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without replying: returns the request that would be sent',
+        },
+      },
+      required: ['commentId', 'commentType', 'content'],
+    },
+  },
+
+  resolve_comment: {
+    description:
+      'Resolve an inline comment, or reopen it with resolved: false. Footer comments cannot be resolved.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        commentId: {
+          type: 'string',
+          description: 'ID of the inline comment',
+        },
+        resolved: {
+          type: 'boolean',
+          description: 'true to resolve, false to reopen (default: true)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without changing the comment: returns the request that would be sent',
+        },
+      },
+      required: ['commentId'],
+    },
+  },
+
+  // Attachment tools
+  list_page_attachments: {
+    description:
+      'List the files attached to a Confluence page, with their media type, size and version. Use get_attachment to read one.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        filename: {
+          type: 'string',
+          description: 'Only list the attachment with this exact filename',
+        },
+        mediaType: {
+          type: 'string',
+          description: 'Only list attachments of this media type, e.g. image/png',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of attachments to return (default: 25)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor from a previous call',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  get_attachment: {
+    description:
+      'Get an attachment with its content. Text files are returned as text, other files as base64, and images as embedded resources. Files larger than maxBytes return metadata only.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        attachmentId: {
+          type: 'string',
+          description: 'ID of the attachment, as returned by list_page_attachments',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page the attachment belongs to, used with filename',
+        },
+        filename: {
+          type: 'string',
+          description:
+            'Filename of the attachment, used with pageId instead of attachmentId (matches ri:attachment references in page bodies)',
+        },
+        encoding: {
+          type: 'string',
+          enum: ['auto', 'base64', 'text'],
+          description:
+            'How to return the content: auto picks text for text-like media types and base64 otherwise (default: auto)',
+        },
+        maxBytes: {
+          type: 'number',
+          description: 'Largest file to download, up to 10485760 (default: 1048576)',
+        },
+      },
+    },
+  },
+
+  upload_attachment: {
+    description:
+      'Upload a file to a Confluence page. If the page already has an attachment with the same filename, a new version of it is created.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page to attach the file to',
+        },
+        filename: {
+          type: 'string',
+          description: 'Name of the file',
+        },
+        content: {
+          type: 'string',
+          description: 'File content, base64 encoded. Provide either content or text',
+        },
+        text: {
+          type: 'string',
+          description: 'File content as UTF-8 text. Provide either content or text',
+        },
+        mediaType: {
+          type: 'string',
+          description:
+            'Media type of the file (default: text/plain for text, application/octet-stream for content)',
+        },
+        comment: {
+          type: 'string',
+          description: 'Comment describing the file or this version of it',
+        },
+        minorEdit: {
+          type: 'boolean',
+          description: 'Do not notify watchers about the upload (default: false)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without uploading: returns the request that would be sent',
+        },
+      },
+      required: ['pageId', 'filename'],
+    },
+  },
+
+  // Content property tools
+  list_content_properties: {
+    description:
+      'List the content properties of a Confluence page: JSON values stored on the page under a key, with their versions.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of properties to return (default: 25)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Pagination cursor from a previous call',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  get_content_property: {
+    description: 'Get the value and version of one content property of a Confluence page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        key: {
+          type: 'string',
+          description: 'Property key',
+        },
+      },
+      required: ['pageId', 'key'],
+    },
+  },
+
+  set_content_property: {
+    description:
+      'Create or update a content property of a Confluence page. Pass the version you last read to make sure nobody changed the property in the meantime.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        key: {
+          type: 'string',
+          description: 'Property key',
+        },
+        value: {
+          description: 'JSON value to store: an object, array, string, number or boolean',
+        },
+        version: {
+          type: 'number',
+          description:
+            'Optional: Version of the property the update is based on, as returned by get_content_property (0 when it must not exist yet). The update fails with VERSION_CONFLICT if the property has changed since',
+        },
+        versionMessage: {
+          type: 'string',
+          description: 'Optional: Message recorded with the new property version',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without writing: returns the request that would be sent',
+        },
+      },
+      required: ['pageId', 'key', 'value'],
+    },
+  },
+
+  delete_content_property: {
+    description: 'Delete a content property from a Confluence page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        key: {
+          type: 'string',
+          description: 'Property key',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without deleting: returns the request that would be sent',
+        },
+      },
+      required: ['pageId', 'key'],
+    },
+  },
+
+  // Restriction tools
+  get_page_restrictions: {
+    description:
+      'Show who can view and edit a Confluence page: its own view (read) and edit (update) restrictions, plus view restrictions inherited from ancestor pages. Use it to explain a PERMISSION_DENIED error.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        includeInherited: {
+          type: 'boolean',
+          description: 'Also check the ancestors for view restrictions (default: true)',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  set_page_restrictions: {
+    description:
+      'Restrict who can view (read) or edit (update) a Confluence page to specific users and groups. Include yourself, or you may lock yourself out of the page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        pageId: {
+          type: 'string',
+          description: 'ID of the page',
+        },
+        read: {
+          type: 'object',
+          description:
+            'Who may view the page. Replaces the current read restriction; empty lists remove it. Omit to leave it unchanged',
+          properties: {
+            users: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Account IDs of the users',
+            },
+            groups: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Names of the groups',
+            },
+          },
+        },
+        update: {
+          type: 'object',
+          description:
+            'Who may edit the page. Replaces the current update restriction; empty lists remove it. Omit to leave it unchanged',
+          properties: {
+            users: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Account IDs of the users',
+            },
+            groups: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Names of the groups',
+            },
+          },
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without changing restrictions: returns the request that would be sent',
+        },
+      },
+      required: ['pageId'],
+    },
+  },
+
+  // Blog post tools
+  list_blog_posts: {
+    description:
+      'List the blog posts of a Confluence space, optionally limited to a creation date range. Returns blog post IDs and titles that can be used with get_blog_post.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from space/page context or defaults.',
+        },
+        spaceId: {
+          type: 'string',
+          description: 'ID of the space',
+        },
+        from: {
+          type: 'string',
+          description:
+            'Only blog posts created on or after this date (ISO 8601, e.g. 2024-05-01). Results are then sorted newest first',
+        },
+        to: {
+          type: 'string',
+          description:
+            'Only blog posts created on or before this date (ISO 8601; a bare date includes the whole day)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of blog posts to fetch per request (default: 25, max: 250)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Cursor for pagination, from a previous call',
+        },
+        sort: {
+          type: 'string',
+          enum: ['created-date', '-created-date', 'modified-date', '-modified-date'],
+          description:
+            'Sort blog posts by field (prefix with - for descending). Ignored with from/to',
+        },
+        status: {
+          type: 'string',
+          enum: ['current', 'draft', 'trashed'],
+          description: 'Filter by blog post status (default: current)',
+        },
+      },
+      required: ['spaceId'],
+    },
+  },
+
+  get_blog_post: {
+    description:
+      'Get a Confluence blog post with its content converted to Markdown, like get_confluence_page.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        blogPostId: {
+          type: 'string',
+          description: 'ID of the blog post',
+        },
+        bodyFormat: {
+          type: 'string',
+          enum: ['storage', 'adf'],
+          description:
+            'Body representation to fetch (default: storage). With adf the raw ADF document is returned alongside the Markdown',
+        },
+      },
+      required: ['blogPostId'],
+    },
+  },
+
+  create_blog_post: {
+    description:
+      'Publish a new blog post in a Confluence space. Content can be Confluence storage format (default), Markdown with contentFormat: "markdown" or ADF JSON with contentFormat: "adf".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from space/page context or defaults.',
+        },
+        spaceId: {
+          type: 'string',
+          description: 'ID of the space to publish the blog post in',
+        },
+        title: {
+          type: 'string',
+          description: 'Title of the blog post',
+        },
+        content: {
+          type: 'string',
+          description: 'Content in the format given by contentFormat',
+        },
+        contentFormat: {
+          type: 'string',
+          enum: ['storage', 'markdown', 'adf'],
+          description:
+            'Format of the content argument (default: storage). Use markdown to write the same format get_blog_post returns, or adf for an Atlassian Document Format JSON string',
+        },
+        bodyFormat: {
+          type: 'string',
+          enum: ['storage', 'adf'],
+          description:
+            'Body representation sent to Confluence for storage or markdown content (default: storage). adf content is always sent as ADF',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without publishing: returns the request that would be sent',
+        },
+      },
+      required: ['spaceId', 'title', 'content'],
+    },
+  },
+
+  update_blog_post: {
+    description:
+      'Update an existing Confluence blog post. Requires the version number: get the current version with get_blog_post first and pass it plus 1. If someone else published a version in the meantime, storage and Markdown updates are three-way merged with their changes; when the changes clash nothing is written and the response lists the conflicting hunks (conflict: true).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        blogPostId: {
+          type: 'string',
+          description: 'ID of the blog post to update',
+        },
+        title: {
+          type: 'string',
+          description: 'New title for the blog post',
+        },
+        content: {
+          type: 'string',
+          description: 'New content in the format given by contentFormat',
+        },
+        contentFormat: {
+          type: 'string',
+          enum: ['storage', 'markdown', 'adf'],
+          description:
+            'Format of the content argument (default: storage). Use markdown to write the same format get_blog_post returns, or adf for an Atlassian Document Format JSON string',
+        },
+        bodyFormat: {
+          type: 'string',
+          enum: ['storage', 'adf'],
+          description:
+            'Body representation sent to Confluence for storage or markdown content (default: storage). adf content is always sent as ADF',
+        },
+        version: {
+          type: 'number',
+          description: 'New version number: the version you read plus 1',
+        },
+        versionMessage: {
+          type: 'string',
+          description: 'Version message shown in the history (default: "Updated via API")',
+        },
+        minorEdit: {
+          type: 'boolean',
+          description: 'Record as a minor edit, which does not notify watchers (default: false)',
+        },
+        autoSummary: {
+          type: 'boolean',
+          description:
+            'Add a summary generated from the Markdown diff to the version message, e.g. +4 -1 lines in "Install"',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without writing: returns the request that would be sent and a diff against the current blog post',
+        },
+      },
+      required: ['blogPostId', 'title', 'content', 'version'],
+    },
+  },
+
+  delete_blog_post: {
+    description:
+      'Delete a Confluence blog post. By default the blog post is moved to the trash. Set purge: true to delete it permanently (requires space admin permission).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from page context or defaults.',
+        },
+        blogPostId: {
+          type: 'string',
+          description: 'ID of the blog post to delete',
+        },
+        purge: {
+          type: 'boolean',
+          description:
+            'Permanently delete the blog post instead of moving it to the trash (default: false). Cannot be undone',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Preview without deleting: returns the request that would be sent',
+        },
+      },
+      required: ['blogPostId'],
+    },
+  },
+
+  // Template tools
+  list_page_templates: {
+    description:
+      'List the page templates available in a space: templates configured for the space (local Markdown or storage files, or Confluence templates) with the variables they need, and the Confluence page templates of the space.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from space/page context or defaults.',
+        },
+        spaceId: {
+          type: 'string',
+          description: 'ID or key of the space',
+        },
+        includeConfluenceTemplates: {
+          type: 'boolean',
+          description: 'Also list the Confluence page templates of the space (default: true)',
+        },
+      },
+      required: ['spaceId'],
+    },
+  },
+
+  create_page_from_template: {
+    description:
+      "Create a page from a template, filling its {{variables}}. Built-in variables: date, time, datetime, year (UTC), author (your display name) and title. The template's labels and parent page, and the space's default labels and parent, are applied.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        instance: {
+          type: 'string',
+          description:
+            'Optional: Specific Confluence instance to use. If not provided, instance will be determined from space/page context or defaults.',
+        },
+        spaceId: {
+          type: 'string',
+          description: 'ID of the space to create the page in',
+        },
+        template: {
+          type: 'string',
+          description:
+            'Name of a template configured for the space, as listed by list_page_templates',
+        },
+        templateId: {
+          type: 'string',
+          description: 'ID of a Confluence page template, used instead of template',
+        },
+        title: {
+          type: 'string',
+          description:
+            'Title of the new page, may contain {{variables}} (default: the title configured for the template)',
+        },
+        variables: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description:
+            'Values for the template variables, e.g. {"meetingDate": "2024-05-02"}. They override template defaults and built-ins',
+        },
+        parentId: {
+          type: 'string',
+          description: 'Optional parent page ID, overriding the template and space defaults',
+        },
+        dryRun: {
+          type: 'boolean',
+          description:
+            'Preview without creating: returns the filled-in page request and the variables used',
+        },
+      },
+      required: ['spaceId'],
+    },
+  },
 };
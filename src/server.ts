@@ -9,22 +9,78 @@ import {
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
+import {
+  handleGetAttachment,
+  handleListPageAttachments,
+  handleUploadAttachment,
+} from './handlers/attachment-handlers.js';
+import {
+  handleCreateBlogPost,
+  handleDeleteBlogPost,
+  handleGetBlogPost,
+  handleListBlogPosts,
+  handleUpdateBlogPost,
+} from './handlers/blogpost-handlers.js';
+import {
+  handleAddPageComment,
+  handleListPageComments,
+  handleReplyToComment,
+  handleResolveComment,
+} from './handlers/comment-handlers.js';
 import { handleListConfluenceInstances } from './handlers/instance-handlers.js';
+import { handleCopyConfluencePage } from './handlers/page-copy-handlers.js';
 import {
   handleCreateConfluencePage,
   handleGetConfluencePage,
   handleFindConfluencePage,
   handleListConfluencePages,
   handleUpdateConfluencePage,
+  handlePatchConfluencePage,
   handleMoveConfluencePage,
+  handleDeleteConfluencePage,
+  handleListTrashedPages,
+  handleRestoreConfluencePage,
 } from './handlers/page-handlers.js';
+import {
+  handleGetPageAncestors,
+  handleGetPageChildren,
+  handleGetPageDescendants,
+  handleGetSpacePageTree,
+} from './handlers/page-tree-handlers.js';
+import {
+  handleDeleteContentProperty,
+  handleGetContentProperty,
+  handleListContentProperties,
+  handleSetContentProperty,
+} from './handlers/property-handlers.js';
+import {
+  handleGetPageRestrictions,
+  handleSetPageRestrictions,
+} from './handlers/restriction-handlers.js';
 import {
   handleAddConfluenceLabel,
+  handleBuildCqlQuery,
   handleGetConfluenceLabels,
   handleRemoveConfluenceLabel,
   handleSearchConfluencePages,
 } from './handlers/search-label-handlers.js';
 import { handleGetConfluenceSpace, handleListConfluenceSpaces } from './handlers/space-handlers.js';
+import {
+  handleCreatePageFromTemplate,
+  handleListPageTemplates,
+} from './handlers/template-handlers.js';
+import {
+  handleCreateFolder,
+  handleDescribeTreeContent,
+  handleGetContentChildren,
+  handleMoveFolder,
+} from './handlers/tree-content-handlers.js';
+import {
+  handleDiffPageVersions,
+  handleGetPageVersion,
+  handleListPageVersions,
+  handleRevertPageToVersion,
+} from './handlers/version-handlers.js';
 import { toolSchemas } from './schemas/tool-schemas.js';
 
 /**
@@ -106,13 +162,136 @@ export function createConfluenceServer(): Server {
         case 'update_confluence_page':
           return await handleUpdateConfluencePage((args as any) || {});
 
+        case 'patch_confluence_page':
+          return await handlePatchConfluencePage((args as any) || {});
+
         case 'move_confluence_page':
           return await handleMoveConfluencePage((args as any) || {});
 
+        case 'copy_confluence_page':
+          return await handleCopyConfluencePage((args as any) || {});
+
+        case 'delete_confluence_page':
+          return await handleDeleteConfluencePage((args as any) || {});
+
+        case 'list_trashed_pages':
+          return await handleListTrashedPages((args as any) || {});
+
+        case 'restore_confluence_page':
+          return await handleRestoreConfluencePage((args as any) || {});
+
+        // Page tree operations
+        case 'get_page_children':
+          return await handleGetPageChildren((args as any) || {});
+
+        case 'get_page_descendants':
+          return await handleGetPageDescendants((args as any) || {});
+
+        case 'get_page_ancestors':
+          return await handleGetPageAncestors((args as any) || {});
+
+        case 'get_space_page_tree':
+          return await handleGetSpacePageTree((args as any) || {});
+
+        // Folder and content tree operations
+        case 'get_content_children':
+          return await handleGetContentChildren((args as any) || {});
+
+        case 'describe_tree_content':
+          return await handleDescribeTreeContent((args as any) || {});
+
+        case 'create_folder':
+          return await handleCreateFolder((args as any) || {});
+
+        case 'move_folder':
+          return await handleMoveFolder((args as any) || {});
+
+        // Comment operations
+        case 'list_page_comments':
+          return await handleListPageComments((args as any) || {});
+
+        case 'add_page_comment':
+          return await handleAddPageComment((args as any) || {});
+
+        case 'reply_to_comment':
+          return await handleReplyToComment((args as any) || {});
+
+        case 'resolve_comment':
+          return await handleResolveComment((args as any) || {});
+
+        // Attachment operations
+        case 'list_page_attachments':
+          return await handleListPageAttachments((args as any) || {});
+
+        case 'get_attachment':
+          return await handleGetAttachment((args as any) || {});
+
+        case 'upload_attachment':
+          return await handleUploadAttachment((args as any) || {});
+
+        // Content property operations
+        case 'list_content_properties':
+          return await handleListContentProperties((args as any) || {});
+
+        case 'get_content_property':
+          return await handleGetContentProperty((args as any) || {});
+
+        case 'set_content_property':
+          return await handleSetContentProperty((args as any) || {});
+
+        case 'delete_content_property':
+          return await handleDeleteContentProperty((args as any) || {});
+
+        // Restriction operations
+        case 'get_page_restrictions':
+          return await handleGetPageRestrictions((args as any) || {});
+
+        case 'set_page_restrictions':
+          return await handleSetPageRestrictions((args as any) || {});
+
+        // Blog post operations
+        case 'list_blog_posts':
+          return await handleListBlogPosts((args as any) || {});
+
+        case 'get_blog_post':
+          return await handleGetBlogPost((args as any) || {});
+
+        case 'create_blog_post':
+          return await handleCreateBlogPost((args as any) || {});
+
+        case 'update_blog_post':
+          return await handleUpdateBlogPost((args as any) || {});
+
+        case 'delete_blog_post':
+          return await handleDeleteBlogPost((args as any) || {});
+
+        // Template operations
+        case 'list_page_templates':
+          return await handleListPageTemplates((args as any) || {});
+
+        case 'create_page_from_template':
+          return await handleCreatePageFromTemplate((args as any) || {});
+
+        // Version history operations
+        case 'list_page_versions':
+          return await handleListPageVersions((args as any) || {});
+
+        case 'get_page_version':
+          return await handleGetPageVersion((args as any) || {});
+
+        case 'diff_page_versions':
+          return await handleDiffPageVersions((args as any) || {});
+
+        case 'revert_page_to_version':
+          return await handleRevertPageToVersion((args as any) || {});
+
         // Search operation
         case 'search_confluence_pages':
           return await handleSearchConfluencePages((args as any) || {});
 
+        case 'build_cql_query':
+          return await handleBuildCqlQuery((args as any) || {});
+
         // Label operations
         case 'get_confluence_labels':
           return await handleGetConfluenceLabels((args as any) || {});
@@ -1,5 +1,7 @@
 export interface ConfluenceConfig {
   domain: string;
+  // Site cloudId for the OAuth API gateway; resolved from the token when absent
+  cloudId?: string;
   auth: {
     type: 'basic' | 'oauth2';
     // Basic auth
@@ -62,7 +64,7 @@ export interface Page {
     minorEdit: boolean;
   };
   body: {
-    storage: {
+    storage?: {
       value: string;
       representation: 'storage';
     };
@@ -78,6 +80,31 @@ export interface Page {
   };
 }
 
+// V2 BlogPost type: a page without a place in the page tree
+export interface BlogPost {
+  id: string;
+  status: {
+    value: 'current' | 'draft' | 'trashed';
+  };
+  title: string;
+  spaceId: string;
+  authorId: string;
+  createdAt: string;
+  version: {
+    number: number;
+    message?: string;
+    createdAt: string;
+    authorId: string;
+    minorEdit: boolean;
+  };
+  body: Page['body'];
+  _links: {
+    webui: string;
+    editui: string;
+    tinyui: string;
+  };
+}
+
 // V2 Label type
 export interface Label {
   id: string; // Required in v2
@@ -148,6 +175,10 @@ export interface ConfluenceSearchResult {
   start: number;
   limit: number;
   size: number;
+  // Matches across all pages, when the API reports it
+  totalSize?: number;
+  // Opaque cursor of the next page; undefined on the last page
+  nextCursor?: string;
   _links: {
     next?: string;
     self: string;
@@ -167,6 +198,205 @@ export interface PaginatedResponse<T> {
   };
 }
 
+// V2 footer or inline comment
+export interface PageComment {
+  id: string;
+  status: string;
+  title: string;
+  pageId?: string;
+  parentCommentId?: string;
+  version: {
+    number: number;
+    message?: string;
+    createdAt: string;
+    authorId: string;
+    minorEdit: boolean;
+  };
+  body?: {
+    storage?: {
+      value: string;
+      representation: 'storage';
+    };
+  };
+  // Inline comments only
+  resolutionStatus?: 'open' | 'reopened' | 'resolved' | 'dangling';
+  properties?: {
+    inlineMarkerRef?: string;
+    inlineOriginalSelection?: string;
+  };
+  _links: {
+    webui: string;
+  };
+}
+
+export type CommentType = 'footer' | 'inline';
+
+// V2 attachment
+export interface Attachment {
+  id: string;
+  status: string;
+  title: string;
+  createdAt: string;
+  pageId?: string;
+  mediaType: string;
+  mediaTypeDescription?: string;
+  comment?: string;
+  fileId?: string;
+  fileSize: number;
+  webuiLink?: string;
+  downloadLink?: string;
+  version: {
+    number: number;
+    message?: string;
+    createdAt: string;
+    authorId: string;
+    minorEdit: boolean;
+  };
+}
+
+// V2 content property: a JSON value stored on a page under a key
+export interface ContentProperty {
+  id: string;
+  key: string;
+  value: unknown;
+  version: {
+    number: number;
+    message?: string;
+    createdAt: string;
+    authorId: string;
+    minorEdit?: boolean;
+  };
+}
+
+export type RestrictionOperation = 'read' | 'update';
+
+// Who may view (read) or edit (update) a page; empty lists mean the operation is unrestricted
+export interface PageRestriction {
+  operation: RestrictionOperation;
+  users: { accountId: string; displayName?: string }[];
+  groups: { name: string; id?: string }[];
+}
+
+// V1 content template (space or global page template)
+export interface PageTemplate {
+  templateId: string;
+  name: string;
+  description?: string;
+  templateType?: string;
+  body?: {
+    storage?: {
+      value: string;
+      representation: 'storage';
+    };
+  };
+}
+
+// V2 page version (history entry)
+export interface PageVersion {
+  number: number;
+  message: string;
+  minorEdit: boolean;
+  authorId: string;
+  createdAt: string;
+}
+
+// V2 child page (from /pages/{id}/children and /spaces/{id}/pages)
+export interface PageChild {
+  id: string;
+  status: string;
+  title: string;
+  spaceId: string;
+  childPosition?: number;
+}
+
+// Content that can sit in a space's page tree; folders can hold pages and vice versa
+export type TreeContentType = 'page' | 'folder' | 'whiteboard' | 'database' | 'embed';
+
+// V2 child of any tree content (from /{type}s/{id}/direct-children)
+export interface TreeChild {
+  id: string;
+  status: string;
+  title: string;
+  type: TreeContentType;
+  spaceId: string;
+  childPosition?: number;
+}
+
+// V2 page, folder, whiteboard, database or smart link (embed) metadata
+export interface TreeContent {
+  id: string;
+  type: TreeContentType;
+  status: string;
+  title: string;
+  spaceId: string;
+  parentId?: string;
+  parentType?: TreeContentType;
+  position?: number;
+  authorId: string;
+  ownerId?: string;
+  createdAt: string;
+  version?: {
+    number: number;
+    message?: string;
+    createdAt: string;
+    authorId: string;
+  };
+  // Target of a smart link
+  embedUrl?: string;
+  _links?: {
+    webui?: string;
+  };
+}
+
+// V2 ancestor reference (from /pages/{id}/ancestors), ordered from the root down
+export interface PageAncestor {
+  id: string;
+  // Pages can sit in folders, so not every ancestor is a page
+  type: TreeContentType;
+}
+
+// Version metadata recorded with a page update
+export interface VersionOptions {
+  message?: string;
+  // Minor edits do not notify watchers
+  minorEdit?: boolean;
+}
+
+// Write request as sent to the API, returned by dry runs instead of being sent
+export interface ApiRequest {
+  method: 'POST' | 'PUT' | 'DELETE';
+  api: 'v1' | 'v2';
+  path: string;
+  params?: Record<string, string>;
+  body?: unknown;
+}
+
+// Input format accepted by write tools
+export type ContentFormat = 'markdown' | 'storage' | 'adf';
+
+// Body representation exchanged with the Confluence API
+export type BodyRepresentation = 'storage' | 'atlas_doc_format';
+
+// Atlassian Document Format (ADF) node
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, any>;
+  content?: AdfNode[];
+  marks?: AdfMark[];
+  text?: string;
+}
+
+export interface AdfMark {
+  type: string;
+  attrs?: Record<string, any>;
+}
+
+export interface AdfDocument extends AdfNode {
+  type: 'doc';
+  version: 1;
+  content: AdfNode[];
+}
+
 // Simplified page interface for easier consumption
 export interface SimplifiedPage {
   title: string;
@@ -208,9 +438,19 @@ export class ConfluenceError extends Error {
       | 'INVALID_LABEL'
       | 'PERMISSION_DENIED'
       | 'PROPERTY_SET_FAILED'
+      | 'PROPERTY_NOT_FOUND'
+      | 'RESTRICTION_UPDATE_FAILED'
       | 'ACCESS_DENIED'
       | 'INVALID_REQUEST'
       | 'MOVE_FAILED'
+      | 'CLOUD_ID_NOT_FOUND'
+      | 'TOKEN_REFRESH_FAILED'
+      | 'DELETE_FAILED'
+      | 'RESTORE_FAILED'
+      | 'SECTION_NOT_FOUND'
+      | 'VERSION_CONFLICT',
+    // HTTP status of the failed request, when there was a response
+    public readonly status?: number
   ) {
     super(message);
     this.name = 'ConfluenceError';
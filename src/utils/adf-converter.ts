@@ -0,0 +1,744 @@
+import { randomUUID } from 'crypto';
+
+import {
+  convertMarkdownToStorage,
+  convertStorageTreeToMarkdown,
+  findChild,
+  parseStorageFormat,
+  textContent,
+} from './content-converter.js';
+import type { StorageElement, StorageNode } from './content-converter.js';
+import type { AdfDocument, AdfMark, AdfNode } from '../types/index.js';
+
+/*
+ * ADF is converted through the same document tree the storage format uses, so
+ * both formats share one Markdown renderer and one macro directive syntax.
+ * ADF-only nodes map onto macro elements: panels become info/note/warning/tip
+ * (or `panel` with a panelType), status lozenges the `status` macro, decisions
+ * a `decision-list`, mentions `mention` and file media `media`.
+ */
+
+const PANEL_MACROS: Record<string, string> = {
+  info: 'info',
+  note: 'note',
+  warning: 'warning',
+  success: 'tip',
+};
+
+const STATUS_COLOURS: Record<string, string> = {
+  neutral: 'Grey',
+  purple: 'Purple',
+  blue: 'Blue',
+  red: 'Red',
+  yellow: 'Yellow',
+  green: 'Green',
+};
+
+const MACRO_EXTENSION_TYPE = 'com.atlassian.confluence.macro.core';
+
+/**
+ * Convert an ADF document into Markdown
+ */
+export function convertAdfToMarkdown(document: AdfNode): string {
+  try {
+    return convertStorageTreeToMarkdown(adfToStorageNodes(document));
+  } catch (error) {
+    console.error('Error converting ADF:', error);
+    throw new Error('Failed to convert ADF to markdown');
+  }
+}
+
+/**
+ * Convert Markdown into an ADF document
+ */
+export function convertMarkdownToAdf(markdown: string): AdfDocument {
+  return convertStorageToAdf(convertMarkdownToStorage(markdown));
+}
+
+/**
+ * Convert storage format into an ADF document
+ */
+export function convertStorageToAdf(storageFormat: string): AdfDocument {
+  try {
+    return {
+      type: 'doc',
+      version: 1,
+      content: storageToAdfBlocks(parseStorageFormat(storageFormat).children),
+    };
+  } catch (error) {
+    console.error('Error converting to ADF:', error);
+    throw new Error('Failed to convert content to ADF');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ADF -> document tree
+
+function element(
+  name: string,
+  attributes: Record<string, string> = {},
+  children: StorageNode[] = []
+): StorageElement {
+  return { type: 'element', name, attributes, children };
+}
+
+function text(value: string): StorageNode {
+  return { type: 'text', value };
+}
+
+function macro(
+  name: string,
+  parameters: Record<string, string | undefined>,
+  body?: { rich?: StorageNode[]; plain?: string }
+): StorageElement {
+  const children: StorageNode[] = Object.entries(parameters)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+    .map(([key, value]) => element('ac:parameter', { 'ac:name': key }, [text(value)]));
+
+  if (body?.rich) {
+    children.push(element('ac:rich-text-body', {}, body.rich));
+  } else if (body?.plain !== undefined) {
+    children.push(
+      element('ac:plain-text-body', {}, [{ type: 'text', value: body.plain, cdata: true }])
+    );
+  }
+  return element('ac:structured-macro', { 'ac:name': name, 'ac:schema-version': '1' }, children);
+}
+
+function adfChildren(node: AdfNode): StorageNode[] {
+  return (node.content || []).flatMap(adfToStorageNodes);
+}
+
+function applyMarks(value: string, marks: AdfMark[] = []): StorageNode {
+  // Links wrap the other formatting, matching how the editor serializes them
+  const ordered = [...marks].sort(
+    (a, b) => (a.type === 'link' ? 1 : 0) - (b.type === 'link' ? 1 : 0)
+  );
+  return ordered.reduce<StorageNode>((wrapped, mark) => {
+    switch (mark.type) {
+      case 'strong':
+        return element('strong', {}, [wrapped]);
+      case 'em':
+        return element('em', {}, [wrapped]);
+      case 'strike':
+        return element('s', {}, [wrapped]);
+      case 'underline':
+        return element('u', {}, [wrapped]);
+      case 'code':
+        return element('code', {}, [wrapped]);
+      case 'subsup':
+        return element(mark.attrs?.type === 'sup' ? 'sup' : 'sub', {}, [wrapped]);
+      case 'textColor':
+        return element('span', { style: `color: ${mark.attrs?.color};` }, [wrapped]);
+      case 'link':
+        return element('a', { href: mark.attrs?.href || '' }, [wrapped]);
+      default:
+        return wrapped;
+    }
+  }, text(value));
+}
+
+function extensionParameters(node: AdfNode): Record<string, string> {
+  const macroParams = node.attrs?.parameters?.macroParams || {};
+  return Object.fromEntries(
+    Object.entries(macroParams).map(([key, value]: [string, any]) => [
+      key,
+      String(value?.value ?? ''),
+    ])
+  );
+}
+
+function adfToStorageNodes(node: AdfNode): StorageNode[] {
+  const attrs = node.attrs || {};
+
+  switch (node.type) {
+    case 'doc':
+      return adfChildren(node);
+    case 'paragraph':
+      return [element('p', {}, adfChildren(node))];
+    case 'heading':
+      return [element(`h${Math.min(Math.max(attrs.level || 1, 1), 6)}`, {}, adfChildren(node))];
+    case 'text':
+      return [applyMarks(node.text || '', node.marks)];
+    case 'hardBreak':
+      return [element('br')];
+    case 'bulletList':
+      return [element('ul', {}, adfChildren(node))];
+    case 'orderedList':
+      return [
+        element(
+          'ol',
+          attrs.order && attrs.order !== 1 ? { start: String(attrs.order) } : {},
+          adfChildren(node)
+        ),
+      ];
+    case 'listItem':
+      return [element('li', {}, adfChildren(node))];
+    case 'blockquote':
+      return [element('blockquote', {}, adfChildren(node))];
+    case 'rule':
+      return [element('hr')];
+    case 'codeBlock':
+      return [
+        macro(
+          'code',
+          { language: attrs.language },
+          { plain: (node.content || []).map((child) => child.text || '').join('') }
+        ),
+      ];
+    case 'panel': {
+      const panelType = attrs.panelType || 'info';
+      const name = PANEL_MACROS[panelType];
+      return [macro(name || 'panel', name ? {} : { panelType }, { rich: adfChildren(node) })];
+    }
+    case 'expand':
+    case 'nestedExpand':
+      return [macro('expand', { title: attrs.title }, { rich: adfChildren(node) })];
+    case 'status':
+      return [
+        macro('status', { title: attrs.text, colour: STATUS_COLOURS[attrs.color] || 'Grey' }),
+      ];
+    case 'mention':
+      return [macro('mention', { id: attrs.id, text: attrs.text })];
+    case 'emoji':
+      return [
+        element('ac:emoticon', {
+          'ac:name': String(attrs.shortName || '').replace(/^:|:$/g, ''),
+          'ac:emoji-fallback': attrs.text || attrs.shortName || '',
+        }),
+      ];
+    case 'date': {
+      const date = new Date(Number(attrs.timestamp));
+      return isNaN(date.getTime())
+        ? []
+        : [element('time', { datetime: date.toISOString().slice(0, 10) })];
+    }
+    case 'inlineCard':
+      return [element('a', { href: attrs.url || '' }, [text(attrs.url || '')])];
+    case 'blockCard':
+    case 'embedCard':
+      return [element('p', {}, [element('a', { href: attrs.url || '' }, [text(attrs.url || '')])])];
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return adfChildren(node);
+    case 'media':
+      if (attrs.type === 'external') {
+        return [
+          element('ac:image', attrs.alt ? { 'ac:alt': attrs.alt } : {}, [
+            element('ri:url', { 'ri:value': attrs.url || '' }),
+          ]),
+        ];
+      }
+      return [
+        macro('media', {
+          id: attrs.id,
+          collection: attrs.collection,
+          type: attrs.type,
+          alt: attrs.alt,
+        }),
+      ];
+    case 'table':
+      return [element('table', {}, [element('tbody', {}, adfChildren(node))])];
+    case 'tableRow':
+      return [element('tr', {}, adfChildren(node))];
+    case 'tableHeader':
+      return [element('th', {}, adfChildren(node))];
+    case 'tableCell':
+      return [element('td', {}, adfChildren(node))];
+    case 'taskList':
+      return [adfTaskList(node)];
+    case 'decisionList':
+      return [
+        macro(
+          'decision-list',
+          {},
+          {
+            rich: [
+              element(
+                'ul',
+                {},
+                (node.content || []).map((item) => element('li', {}, adfChildren(item)))
+              ),
+            ],
+          }
+        ),
+      ];
+    case 'extension':
+    case 'inlineExtension':
+      return [macro(attrs.extensionKey || 'unknown', extensionParameters(node))];
+    case 'bodiedExtension':
+      return [
+        macro(attrs.extensionKey || 'unknown', extensionParameters(node), {
+          rich: adfChildren(node),
+        }),
+      ];
+    case 'layoutSection':
+      return [element('ac:layout', {}, [element('ac:layout-section', {}, adfChildren(node))])];
+    case 'layoutColumn':
+      return [element('ac:layout-cell', {}, adfChildren(node))];
+    case 'placeholder':
+      return [element('ac:placeholder', {}, [text(attrs.text || '')])];
+    default:
+      return adfChildren(node);
+  }
+}
+
+function adfTaskList(node: AdfNode): StorageElement {
+  const tasks: StorageElement[] = [];
+  for (const child of node.content || []) {
+    if (child.type === 'taskItem') {
+      tasks.push(
+        element('ac:task', {}, [
+          element('ac:task-id', {}, [text(String(child.attrs?.localId || tasks.length + 1))]),
+          element('ac:task-status', {}, [
+            text(child.attrs?.state === 'DONE' ? 'complete' : 'incomplete'),
+          ]),
+          element('ac:task-body', {}, adfChildren(child)),
+        ])
+      );
+    } else if (child.type === 'taskList' && tasks.length > 0) {
+      // ADF nests sub-tasks as a sibling list; storage nests them in the task body
+      const body = findChild(tasks[tasks.length - 1], 'ac:task-body')!;
+      body.children.push(adfTaskList(child));
+    }
+  }
+  return element('ac:task-list', {}, tasks);
+}
+
+// ---------------------------------------------------------------------------
+// Document tree -> ADF
+
+const INLINE_MARKS: Record<string, AdfMark> = {
+  strong: { type: 'strong' },
+  b: { type: 'strong' },
+  em: { type: 'em' },
+  i: { type: 'em' },
+  s: { type: 'strike' },
+  del: { type: 'strike' },
+  strike: { type: 'strike' },
+  u: { type: 'underline' },
+  code: { type: 'code' },
+  sub: { type: 'subsup', attrs: { type: 'sub' } },
+  sup: { type: 'subsup', attrs: { type: 'sup' } },
+};
+
+const ADF_BLOCK_ELEMENTS = new Set([
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'table',
+  'pre',
+  'blockquote',
+  'hr',
+  'div',
+  'ac:task-list',
+  'ac:layout',
+  'ac:layout-section',
+  'ac:layout-cell',
+]);
+
+const INLINE_MACROS = new Set(['status', 'mention', 'jira', 'anchor']);
+
+function isAdfBlock(node: StorageNode): boolean {
+  if (node.type !== 'element') return false;
+  if (node.name === 'ac:structured-macro') {
+    return !INLINE_MACROS.has(node.attributes['ac:name']);
+  }
+  if (node.name === 'ac:image') {
+    return !!findChild(node, 'ri:url');
+  }
+  return ADF_BLOCK_ELEMENTS.has(node.name.toLowerCase());
+}
+
+/**
+ * Inside a paragraph only macros with a body (or code) break the paragraph up;
+ * body-less macros there are inline extensions
+ */
+function breaksParagraph(node: StorageNode): boolean {
+  if (node.type === 'element' && node.name === 'ac:structured-macro') {
+    return (
+      node.attributes['ac:name'] === 'code' ||
+      !!findChild(node, 'ac:rich-text-body') ||
+      !!findChild(node, 'ac:plain-text-body')
+    );
+  }
+  return isAdfBlock(node);
+}
+
+function macroParameterMap(element: StorageElement): Record<string, string> {
+  return Object.fromEntries(
+    element.children
+      .filter(
+        (child): child is StorageElement =>
+          child.type === 'element' && child.name === 'ac:parameter'
+      )
+      .map((parameter) => [parameter.attributes['ac:name'] ?? '', textContent(parameter)])
+  );
+}
+
+function paragraph(content: AdfNode[]): AdfNode {
+  return { type: 'paragraph', content };
+}
+
+/**
+ * Many ADF containers (list items, cells, panels) must not be empty
+ */
+function nonEmptyBlocks(blocks: AdfNode[]): AdfNode[] {
+  return blocks.length > 0 ? blocks : [paragraph([])];
+}
+
+function storageToAdfBlocks(nodes: StorageNode[]): AdfNode[] {
+  const blocks: AdfNode[] = [];
+  let inlineRun: StorageNode[] = [];
+
+  const flushInline = () => {
+    const content = trimInline(storageToAdfInline(inlineRun, []));
+    if (content.length > 0) blocks.push(paragraph(content));
+    inlineRun = [];
+  };
+
+  for (const node of nodes) {
+    if (isAdfBlock(node)) {
+      flushInline();
+      blocks.push(...storageToAdfBlock(node as StorageElement));
+    } else {
+      inlineRun.push(node);
+    }
+  }
+  flushInline();
+
+  return blocks;
+}
+
+function storageToAdfBlock(node: StorageElement): AdfNode[] {
+  const name = node.name.toLowerCase();
+
+  switch (name) {
+    case 'p':
+      if (node.children.some(breaksParagraph)) return storageToAdfBlocks(node.children);
+      return [paragraph(trimInline(storageToAdfInline(node.children, [])))];
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return [
+        {
+          type: 'heading',
+          attrs: { level: Number(name[1]) },
+          content: trimInline(storageToAdfInline(node.children, [])),
+        },
+      ];
+    case 'ul':
+    case 'ol': {
+      const items = node.children
+        .filter((child): child is StorageElement => child.type === 'element' && child.name === 'li')
+        .map((item) => {
+          const content = storageToAdfBlocks(item.children);
+          // A list item must start with a paragraph
+          if (content[0]?.type !== 'paragraph') content.unshift(paragraph([]));
+          return { type: 'listItem', content };
+        });
+      if (name === 'ul') return [{ type: 'bulletList', content: items }];
+      return [
+        {
+          type: 'orderedList',
+          attrs: { order: parseInt(node.attributes.start || '1', 10) || 1 },
+          content: items,
+        },
+      ];
+    }
+    case 'table':
+      return [{ type: 'table', content: tableRows(node) }];
+    case 'pre':
+      return [codeBlock(textContent(node))];
+    case 'blockquote':
+      return [{ type: 'blockquote', content: nonEmptyBlocks(storageToAdfBlocks(node.children)) }];
+    case 'hr':
+      return [{ type: 'rule' }];
+    case 'ac:task-list':
+      return [taskList(node)];
+    case 'ac:image':
+      return [mediaSingle(node)];
+    case 'ac:structured-macro':
+      return [macroToAdf(node)];
+    default:
+      return storageToAdfBlocks(node.children);
+  }
+}
+
+function codeBlock(code: string, language?: string): AdfNode {
+  return {
+    type: 'codeBlock',
+    ...(language ? { attrs: { language } } : {}),
+    content: code ? [{ type: 'text', text: code }] : [],
+  };
+}
+
+function mediaSingle(image: StorageElement): AdfNode {
+  const url = findChild(image, 'ri:url')?.attributes['ri:value'] || '';
+  const alt = image.attributes['ac:alt'];
+  return {
+    type: 'mediaSingle',
+    content: [{ type: 'media', attrs: { type: 'external', url, ...(alt ? { alt } : {}) } }],
+  };
+}
+
+function tableRows(table: StorageElement): AdfNode[] {
+  const rows: AdfNode[] = [];
+  const visit = (parent: StorageElement) => {
+    for (const child of parent.children) {
+      if (child.type !== 'element') continue;
+      const name = child.name.toLowerCase();
+      if (name === 'tr') {
+        rows.push({
+          type: 'tableRow',
+          content: child.children
+            .filter(
+              (cell): cell is StorageElement =>
+                cell.type === 'element' && ['td', 'th'].includes(cell.name.toLowerCase())
+            )
+            .map((cell) => ({
+              type: cell.name.toLowerCase() === 'th' ? 'tableHeader' : 'tableCell',
+              content: nonEmptyBlocks(storageToAdfBlocks(cell.children)),
+            })),
+        });
+      } else if (['thead', 'tbody', 'tfoot'].includes(name)) {
+        visit(child);
+      }
+    }
+  };
+  visit(table);
+  return rows;
+}
+
+function taskList(list: StorageElement): AdfNode {
+  const content: AdfNode[] = [];
+  for (const task of list.children) {
+    if (task.type !== 'element' || task.name !== 'ac:task') continue;
+
+    const status = findChild(task, 'ac:task-status');
+    const body = findChild(task, 'ac:task-body');
+    const inline = (body?.children || []).filter(
+      (child) => !(child.type === 'element' && child.name === 'ac:task-list')
+    );
+    content.push({
+      type: 'taskItem',
+      attrs: {
+        localId: randomUUID(),
+        state: status && textContent(status).trim() === 'complete' ? 'DONE' : 'TODO',
+      },
+      content: trimInline(storageToAdfInline(inline, [])),
+    });
+
+    // Sub-tasks follow their parent as a nested list
+    for (const child of body?.children || []) {
+      if (child.type === 'element' && child.name === 'ac:task-list') {
+        content.push(taskList(child));
+      }
+    }
+  }
+  return { type: 'taskList', attrs: { localId: randomUUID() }, content };
+}
+
+function macroToAdf(node: StorageElement): AdfNode {
+  const name = node.attributes['ac:name'] || 'unknown';
+  const parameters = macroParameterMap(node);
+  const richBody = findChild(node, 'ac:rich-text-body');
+  const plainBody = findChild(node, 'ac:plain-text-body');
+  const bodyBlocks = () => nonEmptyBlocks(richBody ? storageToAdfBlocks(richBody.children) : []);
+
+  // ADF panels carry no parameters, so titled panels stay bodied extensions
+  const panelType = Object.entries(PANEL_MACROS).find(([, macroName]) => macroName === name)?.[0];
+  if (panelType && Object.keys(parameters).length === 0) {
+    return { type: 'panel', attrs: { panelType }, content: bodyBlocks() };
+  }
+
+  switch (name) {
+    case 'panel':
+      return {
+        type: 'panel',
+        attrs: { panelType: parameters.panelType || 'info' },
+        content: bodyBlocks(),
+      };
+    case 'code':
+    case 'noformat':
+      return codeBlock(plainBody ? textContent(plainBody) : '', parameters.language);
+    case 'expand':
+      return { type: 'expand', attrs: { title: parameters.title || '' }, content: bodyBlocks() };
+    case 'media':
+      return {
+        type: 'mediaSingle',
+        content: [
+          {
+            type: 'media',
+            attrs: {
+              type: parameters.type || 'file',
+              id: parameters.id,
+              collection: parameters.collection || '',
+              ...(parameters.alt ? { alt: parameters.alt } : {}),
+            },
+          },
+        ],
+      };
+    case 'decision-list': {
+      const list = richBody?.children.find(
+        (child): child is StorageElement => child.type === 'element' && child.name === 'ul'
+      );
+      return {
+        type: 'decisionList',
+        attrs: { localId: randomUUID() },
+        content: (list?.children || [])
+          .filter((item): item is StorageElement => item.type === 'element' && item.name === 'li')
+          .map((item) => ({
+            type: 'decisionItem',
+            attrs: { localId: randomUUID(), state: 'DECIDED' },
+            content: trimInline(storageToAdfInline(item.children, [])),
+          })),
+      };
+    }
+    default:
+      return {
+        type: richBody ? 'bodiedExtension' : 'extension',
+        attrs: extensionAttributes(node, name, parameters),
+        ...(richBody ? { content: bodyBlocks() } : {}),
+      };
+  }
+}
+
+function extensionAttributes(
+  node: StorageElement,
+  name: string,
+  parameters: Record<string, string>
+): Record<string, any> {
+  return {
+    extensionType: MACRO_EXTENSION_TYPE,
+    extensionKey: name,
+    parameters: {
+      macroParams: Object.fromEntries(
+        Object.entries(parameters).map(([key, value]) => [key, { value }])
+      ),
+      ...(node.attributes['ac:macro-id']
+        ? { macroMetadata: { macroId: { value: node.attributes['ac:macro-id'] } } }
+        : {}),
+    },
+  };
+}
+
+function inlineMacroToAdf(node: StorageElement): AdfNode {
+  const name = node.attributes['ac:name'] || 'unknown';
+  const parameters = macroParameterMap(node);
+
+  switch (name) {
+    case 'status': {
+      const colour = Object.entries(STATUS_COLOURS).find(
+        ([, storageColour]) =>
+          storageColour.toLowerCase() === (parameters.colour || '').toLowerCase()
+      );
+      return {
+        type: 'status',
+        attrs: {
+          text: parameters.title || '',
+          color: colour?.[0] || 'neutral',
+          localId: randomUUID(),
+        },
+      };
+    }
+    case 'mention':
+      return { type: 'mention', attrs: { id: parameters.id || '', text: parameters.text || '' } };
+    default:
+      return { type: 'inlineExtension', attrs: extensionAttributes(node, name, parameters) };
+  }
+}
+
+function storageToAdfInline(nodes: StorageNode[], marks: AdfMark[]): AdfNode[] {
+  const content: AdfNode[] = [];
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      const value = node.cdata ? node.value : node.value.replace(/[ \t\r\n]+/g, ' ');
+      if (value) content.push({ type: 'text', text: value, ...(marks.length ? { marks } : {}) });
+      continue;
+    }
+
+    const name = node.name.toLowerCase();
+    if (INLINE_MARKS[name]) {
+      content.push(...storageToAdfInline(node.children, [...marks, INLINE_MARKS[name]]));
+      continue;
+    }
+
+    switch (name) {
+      case 'a':
+        content.push(
+          ...storageToAdfInline(node.children, [
+            ...marks,
+            { type: 'link', attrs: { href: node.attributes.href || '' } },
+          ])
+        );
+        break;
+      case 'br':
+        content.push({ type: 'hardBreak' });
+        break;
+      case 'time': {
+        const timestamp = Date.parse(node.attributes.datetime || '');
+        if (!isNaN(timestamp))
+          content.push({ type: 'date', attrs: { timestamp: String(timestamp) } });
+        break;
+      }
+      case 'ac:emoticon':
+        content.push({
+          type: 'emoji',
+          attrs: {
+            shortName: `:${node.attributes['ac:name'] || 'emoji'}:`,
+            ...(node.attributes['ac:emoji-fallback']
+              ? { text: node.attributes['ac:emoji-fallback'] }
+              : {}),
+          },
+        });
+        break;
+      case 'ac:placeholder':
+        content.push({ type: 'placeholder', attrs: { text: textContent(node) } });
+        break;
+      case 'ac:structured-macro':
+        content.push(inlineMacroToAdf(node));
+        break;
+      case 'ac:image': {
+        // Attachments have no ADF media id to point at; keep the file name visible
+        const filename = findChild(node, 'ri:attachment')?.attributes['ri:filename'];
+        if (filename)
+          content.push({ type: 'text', text: filename, ...(marks.length ? { marks } : {}) });
+        break;
+      }
+      case 'ac:link': {
+        const body = findChild(node, 'ac:link-body') || findChild(node, 'ac:plain-text-link-body');
+        const page = findChild(node, 'ri:page');
+        const label = body ? textContent(body) : page?.attributes['ri:content-title'] || '';
+        if (label) content.push({ type: 'text', text: label, ...(marks.length ? { marks } : {}) });
+        break;
+      }
+      default:
+        content.push(...storageToAdfInline(node.children, marks));
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Drop leading/trailing whitespace at the edges of a paragraph
+ */
+function trimInline(content: AdfNode[]): AdfNode[] {
+  const result = content.map((node) => ({ ...node }));
+  const first = result[0];
+  if (first?.type === 'text') first.text = first.text!.replace(/^\s+/, '');
+  const last = result[result.length - 1];
+  if (last?.type === 'text') last.text = last.text!.replace(/\s+$/, '');
+  return result.filter((node) => node.type !== 'text' || node.text);
+}
@@ -0,0 +1,51 @@
+import type { PageSnapshot } from './dry-run.js';
+import { diffLines, diffStats, splitLines } from './text-diff.js';
+
+const HEADING_PATTERN = /^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const MAX_LISTED_SECTIONS = 3;
+
+/**
+ * One-line summary of a page change for the version message, e.g.
+ * `Renamed from "Draft"; +4 -1 lines in "Install", "Usage"`
+ */
+export function summarizeChange(before: PageSnapshot, after: PageSnapshot): string {
+  const operations = diffLines(splitLines(before.markdown), splitLines(after.markdown));
+  const stats = diffStats(operations);
+
+  // Attribute each changed line to the nearest heading above it
+  const sections: string[] = [];
+  let heading: string | undefined;
+  for (const operation of operations) {
+    const match = HEADING_PATTERN.exec(operation.line);
+    if (match) heading = match[1];
+    if (operation.type !== 'equal' && heading && !sections.includes(heading)) {
+      sections.push(heading);
+    }
+  }
+
+  const parts: string[] = [];
+  if (before.title !== after.title) {
+    parts.push(`Renamed from "${before.title}"`);
+  }
+  if (stats.additions > 0 || stats.deletions > 0) {
+    const listed = sections.slice(0, MAX_LISTED_SECTIONS).map((section) => `"${section}"`);
+    if (sections.length > MAX_LISTED_SECTIONS) {
+      listed.push(`${sections.length - MAX_LISTED_SECTIONS} more`);
+    }
+    parts.push(
+      `+${stats.additions} -${stats.deletions} lines${
+        listed.length > 0 ? ` in ${listed.join(', ')}` : ''
+      }`
+    );
+  }
+
+  return parts.length > 0 ? parts.join('; ') : 'No content changes';
+}
+
+/**
+ * Combine a caller-supplied version message with an automatic summary
+ */
+export function composeVersionMessage(message?: string, summary?: string): string | undefined {
+  if (message && summary) return `${message} (${summary})`;
+  return message || summary;
+}
@@ -1,55 +1,99 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 
+import { canRefreshTokens, getAccessToken, refreshAccessToken } from './oauth.js';
 import type { ConfluenceConfig } from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+
+const ATLASSIAN_API_GATEWAY = 'https://api.atlassian.com/ex/confluence';
+const ACCESSIBLE_RESOURCES_URL = 'https://api.atlassian.com/oauth/token/accessible-resources';
+
+const V2_API_PATH = '/wiki/api/v2';
+const V1_API_PATH = '/wiki/rest/api';
+
+// Site domain to cloudId mapping, resolved once per process
+const cloudIdCache = new Map<string, string>();
+
+// Marks a request that was already retried after a token refresh
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _retriedAfterRefresh?: boolean;
+}
+
+export interface AccessibleResource {
+  id: string;
+  url: string;
+  name: string;
+  scopes: string[];
+}
 
 /**
- * Create Axios instance for Confluence API with proper authentication
+ * List the Atlassian sites (cloudId, URL and granted scopes) an OAuth token can access
  */
-export function createConfluenceApiInstance(config: ConfluenceConfig): AxiosInstance {
-  const baseURL = `https://${config.domain}/wiki/api/v2`;
-
-  // Create base configuration
-  const axiosConfig: any = {
-    baseURL,
+export async function getAccessibleResources(accessToken: string): Promise<AccessibleResource[]> {
+  const response = await axios.get<AccessibleResource[]>(ACCESSIBLE_RESOURCES_URL, {
     headers: {
       Accept: 'application/json',
-      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`,
     },
     timeout: 30000,
-  };
+  });
+  return response.data;
+}
 
-  // Add authentication headers based on type
-  if (config.auth.type === 'oauth2') {
-    axiosConfig.headers['Authorization'] = `Bearer ${config.auth.accessToken}`;
-  } else {
-    // Basic auth
-    const authString = Buffer.from(`${config.auth.email}:${config.auth.apiToken}`).toString(
-      'base64'
+/**
+ * Resolve the cloudId of a Confluence site from the resources an OAuth token can access
+ */
+export async function resolveCloudId(domain: string, accessToken: string): Promise<string> {
+  const cached = cloudIdCache.get(domain);
+  if (cached) return cached;
+
+  const resources = await getAccessibleResources(accessToken);
+  const resource = resources.find((candidate) => new URL(candidate.url).host === domain);
+  if (!resource) {
+    throw new ConfluenceError(
+      `OAuth token has no access to ${domain}. Accessible sites: ${
+        resources.map((candidate) => candidate.url).join(', ') || 'none'
+      }`,
+      'CLOUD_ID_NOT_FOUND'
     );
-    axiosConfig.headers['Authorization'] = `Basic ${authString}`;
   }
 
-  return axios.create(axiosConfig);
+  cloudIdCache.set(domain, resource.id);
+  return resource.id;
 }
 
 /**
- * Create Axios instance for Confluence API v1 (for endpoints not yet in v2)
+ * Base URL requests are sent to: the site itself for basic auth, the
+ * api.atlassian.com gateway for OAuth 2.0 (which only accepts Bearer tokens there)
  */
-export function createConfluenceApiV1Instance(config: ConfluenceConfig): AxiosInstance {
-  const baseURL = `https://${config.domain}/wiki/rest/api`;
+export function getConfluenceBaseUrl(config: ConfluenceConfig, cloudId?: string): string {
+  if (config.auth.type === 'oauth2' && cloudId) {
+    return `${ATLASSIAN_API_GATEWAY}/${cloudId}`;
+  }
+  return `https://${config.domain}`;
+}
+
+function createInstance(
+  config: ConfluenceConfig,
+  apiPath: string,
+  extraHeaders: Record<string, string> = {}
+): AxiosInstance {
+  const isOAuth = config.auth.type === 'oauth2';
+  const cloudId = config.cloudId || cloudIdCache.get(config.domain);
 
   // Create base configuration
   const axiosConfig: any = {
-    baseURL,
+    baseURL: `${getConfluenceBaseUrl(config, cloudId)}${apiPath}`,
     headers: {
       Accept: 'application/json',
       'Content-Type': 'application/json',
+      'User-Agent': config.userAgent || 'Confluence-Cloud-MCP/2.0',
+      ...extraHeaders,
     },
     timeout: 30000,
   };
 
   // Add authentication headers based on type
-  if (config.auth.type === 'oauth2') {
+  if (isOAuth) {
     axiosConfig.headers['Authorization'] = `Bearer ${config.auth.accessToken}`;
   } else {
     // Basic auth
@@ -59,5 +103,54 @@ export function createConfluenceApiV1Instance(config: ConfluenceConfig): AxiosIn
     axiosConfig.headers['Authorization'] = `Basic ${authString}`;
   }
 
-  return axios.create(axiosConfig);
+  const instance = axios.create(axiosConfig);
+
+  if (isOAuth) {
+    instance.interceptors.request.use(async (request) => {
+      // Tokens rotate while the process runs, so read the current one per request
+      const accessToken = await getAccessToken(config);
+      request.headers['Authorization'] = `Bearer ${accessToken}`;
+
+      // OAuth requests must go through the gateway; look the cloudId up before the first request
+      if (!cloudId) {
+        const resolved = await resolveCloudId(config.domain, accessToken);
+        request.baseURL = `${getConfluenceBaseUrl(config, resolved)}${apiPath}`;
+      }
+      return request;
+    });
+
+    // An expired or revoked access token: refresh once and replay the request
+    instance.interceptors.response.use(undefined, async (error) => {
+      const request = error.config as RetriableRequestConfig | undefined;
+      if (
+        error.response?.status !== 401 ||
+        !request ||
+        request._retriedAfterRefresh ||
+        !canRefreshTokens(config)
+      ) {
+        throw error;
+      }
+
+      request._retriedAfterRefresh = true;
+      const rejectedToken = String(request.headers['Authorization'] || '').replace(/^Bearer /, '');
+      await refreshAccessToken(config, rejectedToken);
+      return instance.request(request);
+    });
+  }
+
+  return instance;
+}
+
+/**
+ * Create Axios instance for Confluence API with proper authentication
+ */
+export function createConfluenceApiInstance(config: ConfluenceConfig): AxiosInstance {
+  return createInstance(config, V2_API_PATH);
+}
+
+/**
+ * Create Axios instance for Confluence API v1 (for endpoints not yet in v2)
+ */
+export function createConfluenceApiV1Instance(config: ConfluenceConfig): AxiosInstance {
+  return createInstance(config, V1_API_PATH, { 'X-Atlassian-Token': 'no-check' });
 }
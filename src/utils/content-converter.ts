@@ -1,118 +1,1681 @@
+import {
+  ATTRIBUTE_BLOCK_SOURCE,
+  formatDirectiveAttributes,
+  fromDirectiveAttributes,
+  parseDirectiveAttributes,
+  toDirectiveAttributes,
+} from './macro-directives.js';
+import type { DirectiveAttributes } from './macro-directives.js';
+
+/**
+ * Node of the intermediate document tree produced by parseStorageFormat.
+ * Element names keep their namespace prefix (e.g. `ac:structured-macro`).
+ */
+export type StorageNode = StorageElement | StorageText;
+
+export interface StorageElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: StorageNode[];
+}
+
+export interface StorageText {
+  type: 'text';
+  value: string;
+  cdata?: boolean;
+}
+
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'col', 'area', 'wbr', 'input', 'meta', 'link']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  times: '×',
+  divide: '÷',
+  plusmn: '±',
+  larr: '←',
+  rarr: '→',
+  uarr: '↑',
+  darr: '↓',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  sect: '§',
+  para: '¶',
+  zwj: '‍',
+  zwnj: '‌',
+  shy: '­',
+};
+
+/**
+ * Decode XML and HTML named/numeric character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse Confluence storage format (XHTML with `ac:`/`ri:` namespaces) into a
+ * document tree. The parser is tolerant: unknown entities are kept verbatim,
+ * stray closing tags are ignored and unclosed elements are closed at the end.
+ */
+export function parseStorageFormat(storageFormat: string): StorageElement {
+  const root: StorageElement = { type: 'element', name: '#document', attributes: {}, children: [] };
+  const stack: StorageElement[] = [root];
+  const tokenPattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([^\s>]+)\s*>|<([a-zA-Z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+  const current = () => stack[stack.length - 1];
+  const appendText = (value: string, cdata = false) => {
+    if (!value) return;
+    const siblings = current().children;
+    const last = siblings[siblings.length - 1];
+    if (last?.type === 'text' && !last.cdata && !cdata) {
+      last.value += value;
+    } else {
+      siblings.push({ type: 'text', value, ...(cdata ? { cdata } : {}) });
+    }
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(storageFormat)) !== null) {
+    appendText(decodeEntities(storageFormat.slice(lastIndex, match.index)));
+    lastIndex = tokenPattern.lastIndex;
+
+    const [token, cdata, closingName, openingName, attributeSource, selfClosing] = match;
+    if (cdata !== undefined) {
+      appendText(cdata, true);
+    } else if (closingName) {
+      // Close up to the matching element; ignore closing tags with no opener
+      const index = stack.map((element) => element.name).lastIndexOf(closingName);
+      if (index > 0) stack.length = index;
+    } else if (openingName) {
+      const element: StorageElement = {
+        type: 'element',
+        name: openingName,
+        attributes: parseAttributes(attributeSource),
+        children: [],
+      };
+      current().children.push(element);
+      if (!selfClosing && !VOID_ELEMENTS.has(openingName.toLowerCase())) {
+        stack.push(element);
+      }
+    } else if (!token.startsWith('<')) {
+      appendText(decodeEntities(token));
+    }
+  }
+  appendText(decodeEntities(storageFormat.slice(lastIndex)));
+
+  return root;
+}
+
+/**
+ * Serialize document tree nodes back to storage format XHTML
+ */
+export function serializeStorageFormat(nodes: StorageNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') {
+        return node.cdata ? wrapCdata(node.value) : escapeXml(node.value);
+      }
+      const attributes = Object.entries(node.attributes)
+        .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+        .join('');
+      const selfClosing = VOID_ELEMENTS.has(node.name.toLowerCase()) || node.name.includes(':');
+      if (node.children.length === 0 && selfClosing) {
+        return `<${node.name}${attributes} />`;
+      }
+      return `<${node.name}${attributes}>${serializeStorageFormat(node.children)}</${node.name}>`;
+    })
+    .join('');
+}
+
+/**
+ * Find the first direct child element with the given name
+ */
+export function findChild(element: StorageElement, name: string): StorageElement | undefined {
+  return element.children.find(
+    (child): child is StorageElement => child.type === 'element' && child.name === name
+  );
+}
+
+function childElements(element: StorageElement, name?: string): StorageElement[] {
+  return element.children.filter(
+    (child): child is StorageElement =>
+      child.type === 'element' && (name === undefined || child.name === name)
+  );
+}
+
+/**
+ * Concatenated text content of a node and its descendants
+ */
+export function textContent(node: StorageNode): string {
+  if (node.type === 'text') return node.value;
+  return node.children.map(textContent).join('');
+}
+
+/**
+ * Convert Confluence storage format into Markdown.
+ */
 export function convertStorageToMarkdown(storageFormat: string): string {
   try {
-    // First handle Confluence-specific elements
-    const markdown = storageFormat
-      // Remove XML declaration and DOCTYPE
-      .replace(/<\?xml.*?\?>/, '')
-      .replace(/<!DOCTYPE.*?>/, '')
-
-      // Handle Confluence layouts
-      .replace(/<ac:layout[^>]*>[\s\S]*?<\/ac:layout>/g, (match) => {
-        return (
-          match
-            // Extract content from layout cells
-            .replace(/<ac:layout-cell[^>]*>([\s\S]*?)<\/ac:layout-cell>/g, '$1\n\n')
-            // Remove layout tags
-            .replace(/<\/?ac:layout[^>]*>/g, '')
-            .replace(/<\/?ac:layout-section[^>]*>/g, '')
-        );
-      })
-
-      // Handle Confluence macros
-      .replace(
-        /<ac:structured-macro[^>]*?ac:name="([^"]*)"[^>]*>([\s\S]*?)<\/ac:structured-macro>/g,
-        (match, macroName, content) => {
-          // Extract macro parameters
-          const params: string[] =
-            content.match(
-              /<ac:parameter[^>]*?ac:name="([^"]*)"[^>]*>([\s\S]*?)<\/ac:parameter>/g
-            ) || [];
-          const paramStr = params
-            .map((param: string) => {
-              const nameMatch = param.match(/ac:name="([^"]*)"/);
-              const valueMatch = param.match(/<ac:parameter[^>]*>([\s\S]*?)<\/ac:parameter>/);
-              return nameMatch && valueMatch ? `${nameMatch[1]}: ${valueMatch[1]}` : '';
-            })
-            .filter(Boolean)
-            .join(', ');
-
-          return `[Confluence Macro: ${macroName}${paramStr ? ` (${paramStr})` : ''}]\n\n`;
-        }
-      )
-
-      // Handle Confluence placeholders
-      .replace(/<ac:placeholder[^>]*>([\s\S]*?)<\/ac:placeholder>/g, '_$1_')
-
-      // Handle Confluence rich text
-      .replace(/<ac:rich-text-body[^>]*>([\s\S]*?)<\/ac:rich-text-body>/g, '$1')
-
-      // Remove any remaining Confluence-specific tags
-      .replace(/<\/?ac:[^>]*>/g, '')
-
-      // Handle styled spans
-      .replace(/<span[^>]*style="color:[^"]*"[^>]*>([\s\S]*?)<\/span>/g, '$1')
-      .replace(/<span[^>]*>([\s\S]*?)<\/span>/g, '$1')
-
-      // Basic HTML-like to Markdown conversion
-      // Headers
-      .replace(/<h1[^>]*>(.*?)<\/h1>/g, '# $1\n')
-      .replace(/<h2[^>]*>(.*?)<\/h2>/g, '## $1\n')
-      .replace(/<h3[^>]*>(.*?)<\/h3>/g, '### $1\n')
-      .replace(/<h4[^>]*>(.*?)<\/h4>/g, '#### $1\n')
-      .replace(/<h5[^>]*>(.*?)<\/h5>/g, '##### $1\n')
-      .replace(/<h6[^>]*>(.*?)<\/h6>/g, '###### $1\n')
-
-      // Lists
-      .replace(/<ul[^>]*>([\s\S]*?)<\/ul>/g, (match, content) => {
-        return content.replace(/<li[^>]*>([\s\S]*?)<\/li>/g, '* $1\n');
-      })
-      .replace(/<ol[^>]*>([\s\S]*?)<\/ol>/g, (match, content) => {
-        let index = 1;
-        return content.replace(/<li[^>]*>([\s\S]*?)<\/li>/g, () => `${index++}. $1\n`);
-      })
-
-      // Links
-      .replace(/<a[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/g, '[$2]($1)')
-
-      // Emphasis
-      .replace(/<strong[^>]*>(.*?)<\/strong>/g, '**$1**')
-      .replace(/<em[^>]*>(.*?)<\/em>/g, '*$1*')
-
-      // Code
-      .replace(/<code[^>]*>(.*?)<\/code>/g, '`$1`')
-      .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/g, '```\n$1\n```')
-
-      // Paragraphs and line breaks
-      .replace(/<p[^>]*>([\s\S]*?)<\/p>/g, '$1\n\n')
-      .replace(/<br\s*\/?>/g, '\n')
-
-      // Tables (simplified)
-      .replace(/<table[^>]*>([\s\S]*?)<\/table>/g, (match: string, content: string) => {
-        const rows = content.match(/<tr[^>]*>([\s\S]*?)<\/tr>/g) || [];
-        return rows
-          .map((row: string) => {
-            const cells = row.match(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/g) || [];
-            return cells
-              .map((cell: string) => cell.replace(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/g, '$1').trim())
-              .join(' | ');
-          })
-          .join('\n');
-      })
-
-      // Clean up
-      .replace(/\n{3,}/g, '\n\n') // Remove extra newlines
-      .replace(/&quot;/g, '"') // Convert HTML entities
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&amp;/g, '&')
-      .replace(/\n\s+\n/g, '\n\n') // Remove lines with only whitespace
-      .replace(/([^\n])\n([^\n])/g, '$1 $2') // Join lines unless there's a blank line
-      .replace(/<[^>]+>/g, '') // Remove any remaining HTML tags
-      .trim();
-
-    return markdown;
+    return convertStorageTreeToMarkdown(parseStorageFormat(storageFormat).children);
   } catch (error) {
     console.error('Error converting content:', error);
     throw new Error('Failed to convert content to markdown');
   }
 }
+
+/**
+ * Render already-parsed document tree nodes as Markdown
+ */
+export function convertStorageTreeToMarkdown(nodes: StorageNode[]): string {
+  return renderBlocks(nodes, { inTableCell: false }).join('\n\n').trim();
+}
+
+interface MarkdownContext {
+  inTableCell: boolean;
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'p',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'table',
+  'pre',
+  'blockquote',
+  'hr',
+  'div',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'details',
+  'summary',
+  'figure',
+  'ac:layout',
+  'ac:layout-section',
+  'ac:layout-cell',
+  'ac:task-list',
+  'ac:rich-text-body',
+]);
+
+// Storage elements with no Markdown equivalent are written as directives, so that
+// writing the Markdown back restores them. Directive name -> element name.
+const INLINE_ELEMENT_DIRECTIVES: Record<string, string> = {
+  comment: 'ac:inline-comment-marker',
+  emoticon: 'ac:emoticon',
+  time: 'time',
+  span: 'span',
+  u: 'u',
+  sup: 'sup',
+  sub: 'sub',
+};
+const LAYOUT_DIRECTIVES: Record<string, string> = {
+  'layout-section': 'ac:layout-section',
+  'layout-cell': 'ac:layout-cell',
+};
+const LINK_DIRECTIVE = 'link';
+// Written at the start of a table cell to carry the cell's attributes
+const TABLE_CELL_DIRECTIVE = 'cell';
+
+// The attribute naming a link's target for each kind of resource (e.g. `page="Home"`)
+const LINK_RESOURCE_KEYS: Record<string, string> = {
+  'ri:page': 'ri:content-title',
+  'ri:blog-post': 'ri:content-title',
+  'ri:attachment': 'ri:filename',
+  'ri:user': 'ri:account-id',
+  'ri:space': 'ri:space-key',
+  'ri:url': 'ri:value',
+  'ri:content-entity': 'ri:content-id',
+};
+
+/**
+ * Macros sharing a name with an element directive are marked `.macro`
+ */
+function isElementDirectiveName(name: string): boolean {
+  return (
+    name in INLINE_ELEMENT_DIRECTIVES ||
+    name in LAYOUT_DIRECTIVES ||
+    name === LINK_DIRECTIVE ||
+    name === TABLE_CELL_DIRECTIVE
+  );
+}
+
+function isBlockNode(node: StorageNode): boolean {
+  if (node.type !== 'element') return false;
+  if (node.name === 'ac:structured-macro') {
+    return (
+      !!findChild(node, 'ac:rich-text-body') ||
+      !!findChild(node, 'ac:plain-text-body') ||
+      node.attributes['ac:name'] === 'code'
+    );
+  }
+  return BLOCK_ELEMENTS.has(node.name.toLowerCase());
+}
+
+/**
+ * Render a run of sibling nodes as Markdown blocks. Inline runs between block
+ * elements (e.g. text directly inside a list item or table cell) become
+ * paragraphs of their own.
+ */
+function renderBlocks(nodes: StorageNode[], context: MarkdownContext): string[] {
+  const blocks: string[] = [];
+  let inlineRun: StorageNode[] = [];
+
+  const flushInline = () => {
+    const paragraph = renderParagraph(inlineRun, context);
+    if (paragraph) blocks.push(paragraph);
+    inlineRun = [];
+  };
+
+  nodes.forEach((node, index) => {
+    if (isBlockNode(node) || isStandaloneMacro(nodes, index)) {
+      flushInline();
+      const block = renderBlock(node as StorageElement, context);
+      if (block) blocks.push(block);
+    } else {
+      inlineRun.push(node);
+    }
+  });
+  flushInline();
+
+  return blocks;
+}
+
+/**
+ * A body-less macro is block level when it is not surrounded by inline content
+ * (e.g. a table of contents between paragraphs, but not a Jira link in a sentence)
+ */
+function isStandaloneMacro(nodes: StorageNode[], index: number): boolean {
+  const node = nodes[index];
+  if (node.type !== 'element' || node.name !== 'ac:structured-macro') return false;
+
+  const isInlineNeighbour = (neighbour: StorageNode | undefined) =>
+    !!neighbour &&
+    !isBlockNode(neighbour) &&
+    !(neighbour.type === 'element' && neighbour.name === 'ac:structured-macro');
+  const significant = (candidate: StorageNode) =>
+    candidate.type === 'element' || candidate.value.trim() !== '';
+
+  const previous = nodes.slice(0, index).reverse().find(significant);
+  const next = nodes.slice(index + 1).find(significant);
+  return !isInlineNeighbour(previous) && !isInlineNeighbour(next);
+}
+
+function renderParagraph(nodes: StorageNode[], context: MarkdownContext): string {
+  const text = renderInline(nodes, context)
+    .replace(/[ \t]*\n[ \t]*/g, '\n')
+    .trim();
+  // Escape characters that would otherwise start a different block, and lines
+  // that would read as a setext heading underline
+  return text
+    .replace(/^(#{1,6}\s|>|[-+*]\s|\d+[.)]\s)/, '\\$1')
+    .replace(/^(?=[=-]+[ \t]*$)/gm, '\\');
+}
+
+function renderBlock(element: StorageElement, context: MarkdownContext): string {
+  const name = element.name.toLowerCase();
+
+  switch (name) {
+    case 'p':
+      if (element.children.some(isBlockNode)) {
+        return renderBlocks(element.children, context).join('\n\n');
+      }
+      return renderParagraph(element.children, context);
+
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = renderInline(element.children, context).replace(/\s+/g, ' ').trim();
+      return text ? `${'#'.repeat(Number(name[1]))} ${text}` : '';
+    }
+
+    case 'ul':
+    case 'ol':
+      return context.inTableCell
+        ? renderCellList(element, context)
+        : renderListElement(element, context);
+
+    case 'ac:task-list':
+      return renderTaskList(element, context);
+
+    case 'table':
+      return renderTableElement(element, context);
+
+    case 'pre':
+      return renderFencedCode(textContent(element));
+
+    case 'blockquote':
+      return prefixLines(renderBlocks(element.children, context).join('\n\n'), '> ', '>');
+
+    case 'hr':
+      return '---';
+
+    case 'ac:structured-macro':
+      return renderMacroBlock(element, context);
+
+    case 'ac:layout-section':
+    case 'ac:layout-cell':
+      return renderContainerDirective(
+        name.slice('ac:'.length),
+        formatDirectiveAttributes(toDirectiveAttributes(element.name, element.attributes)),
+        renderBlocks(element.children, context).join('\n\n')
+      );
+
+    default:
+      return renderBlocks(element.children, context).join('\n\n');
+  }
+}
+
+function prefixLines(text: string, prefix: string, blankPrefix = prefix.trimEnd()): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? prefix + line : blankPrefix))
+    .join('\n');
+}
+
+/**
+ * Render the blocks of a list item, indenting continuation blocks under the marker
+ */
+function renderListItem(marker: string, blocks: string[], indentWidth = marker.length): string {
+  const indent = ' '.repeat(indentWidth);
+  if (blocks.length === 0) return marker.trimEnd();
+
+  const [first, ...rest] = blocks;
+  let output = marker + prefixLines(first, indent, '').slice(indentWidth);
+  for (const block of rest) {
+    // Nested lists stay tight; other continuation blocks need a blank line
+    const separator = /^(?:[-*+]|\d+[.)])\s/.test(block) ? '\n' : '\n\n';
+    output += separator + prefixLines(block, indent, '');
+  }
+  return output;
+}
+
+function renderListElement(element: StorageElement, context: MarkdownContext): string {
+  const ordered = element.name.toLowerCase() === 'ol';
+  let number = ordered ? parseInt(element.attributes.start || '1', 10) || 1 : 0;
+
+  return childElements(element)
+    .filter((child) => child.name.toLowerCase() === 'li' || isBlockNode(child))
+    .map((child) => {
+      // Lists nested directly in a list (without an li) attach to the previous item
+      if (child.name.toLowerCase() !== 'li') {
+        return prefixLines(renderBlock(child, context), '  ', '');
+      }
+      const marker = ordered ? `${number++}. ` : '- ';
+      return renderListItem(marker, renderBlocks(child.children, context));
+    })
+    .join('\n');
+}
+
+/**
+ * GFM table cells hold a single line, so lists in a cell are written as inline HTML
+ */
+function renderCellList(element: StorageElement, context: MarkdownContext): string {
+  const tag = element.name.toLowerCase();
+  const start =
+    tag === 'ol' && element.attributes.start ? ` start="${element.attributes.start}"` : '';
+  const items = childElements(element)
+    .filter((child) => child.name.toLowerCase() === 'li')
+    .map((item) => `<li>${joinCellBlocks(renderBlocks(item.children, context))}</li>`);
+  return `<${tag}${start}>${items.join('')}</${tag}>`;
+}
+
+/**
+ * Join the blocks of a table cell with line breaks; lists need none around them
+ */
+function joinCellBlocks(blocks: string[]): string {
+  return blocks.reduce((output, block, index) => {
+    if (index === 0) return block;
+    const adjoinsList = /^<[ou]l[\s>]/.test(block) || /<\/[ou]l>$/.test(blocks[index - 1]);
+    return output + (adjoinsList ? '' : '<br>') + block;
+  }, '');
+}
+
+function renderTaskList(element: StorageElement, context: MarkdownContext): string {
+  return childElements(element, 'ac:task')
+    .map((task) => {
+      const status = findChild(task, 'ac:task-status');
+      const body = findChild(task, 'ac:task-body');
+      const checked = status && textContent(status).trim() === 'complete' ? 'x' : ' ';
+      const blocks = body ? renderBlocks(body.children, context) : [];
+      // Sub-tasks indent under the bullet rather than under the checkbox
+      return renderListItem(`- [${checked}] `, blocks, 2).replace(/^(- \[.\]) ?$/, '$1 ');
+    })
+    .join('\n');
+}
+
+function renderTableElement(element: StorageElement, context: MarkdownContext): string {
+  const rows: StorageElement[] = [];
+  const collectRows = (parent: StorageElement) => {
+    for (const child of childElements(parent)) {
+      const name = child.name.toLowerCase();
+      if (name === 'tr') rows.push(child);
+      else if (name === 'thead' || name === 'tbody' || name === 'tfoot') collectRows(child);
+    }
+  };
+  collectRows(element);
+  if (rows.length === 0) return '';
+
+  const cellContext: MarkdownContext = { ...context, inTableCell: true };
+  const cellsOf = (row: StorageElement) =>
+    childElements(row).filter((cell) => ['td', 'th'].includes(cell.name.toLowerCase()));
+  const renderCell = (cell: StorageElement) => {
+    const content = joinCellBlocks(renderBlocks(cell.children, cellContext))
+      .replace(/\n/g, '<br>')
+      .replace(/(?<!\\)\|/g, '\\|');
+    // Cell attributes (spans, highlight colours) lead the cell as a directive
+    const attributes = context.inTableCell
+      ? ''
+      : formatDirectiveAttributes(toDirectiveAttributes(cell.name, cell.attributes));
+    return attributes ? `:${TABLE_CELL_DIRECTIVE}${attributes} ${content}`.trimEnd() : content;
+  };
+
+  // Spanned cells are written as empty cells so the columns still line up
+  const rowsSpanned: number[] = [];
+  const matrix = rows.map((row) => {
+    const cells: string[] = [];
+    const fillSpanned = () => {
+      while ((rowsSpanned[cells.length] ?? 0) > 0) {
+        rowsSpanned[cells.length]--;
+        cells.push('');
+      }
+    };
+    for (const cell of cellsOf(row)) {
+      fillSpanned();
+      cells.push(renderCell(cell));
+      const colspan = cellSpan(cell.attributes.colspan);
+      const rowspan = cellSpan(cell.attributes.rowspan);
+      for (let column = 0; column < colspan; column++) {
+        if (column > 0) cells.push('');
+        rowsSpanned[cells.length - 1] = rowspan - 1;
+      }
+    }
+    fillSpanned();
+    return cells;
+  });
+
+  // Tables nested inside a cell cannot be expressed in GFM; flatten them into rows
+  if (context.inTableCell) {
+    return matrix.map((cells) => cells.join(' \\| ')).join('\n');
+  }
+
+  const width = Math.max(...matrix.map((cells) => cells.length));
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+
+  // GFM tables always have a header row; an empty one stands in when the table has none
+  const firstRow = cellsOf(rows[0]);
+  const hasHeader =
+    firstRow.length > 0 && firstRow.every((cell) => cell.name.toLowerCase() === 'th');
+  const [header, ...body] = hasHeader ? matrix : [[], ...matrix];
+  return [
+    formatRow(header),
+    `| ${Array.from({ length: width }, () => '---').join(' | ')} |`,
+    ...body.map(formatRow),
+  ].join('\n');
+}
+
+function cellSpan(value: string | undefined): number {
+  return Math.max(1, parseInt(value || '1', 10) || 1);
+}
+
+function renderFencedCode(code: string, language = ''): string {
+  const longestFence = Math.max(2, ...(code.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(longestFence + 1);
+  return `${fence}${language}\n${code.replace(/^\n/, '').replace(/\n$/, '')}\n${fence}`;
+}
+
+/**
+ * Collect everything needed to rebuild a macro element from its directive
+ */
+function macroDirectiveAttributes(macro: StorageElement, plainBody: boolean): DirectiveAttributes {
+  const elementAttributes = Object.entries(macro.attributes).filter(
+    ([name, value]) =>
+      name !== 'ac:name' &&
+      name !== 'ac:macro-id' &&
+      !(name === 'ac:schema-version' && value === '1')
+  );
+
+  return {
+    id: macro.attributes['ac:macro-id'],
+    classes: [
+      ...(plainBody ? ['plain'] : []),
+      ...(isElementDirectiveName(macro.attributes['ac:name'] || '') ? ['macro'] : []),
+    ],
+    elementAttributes,
+    parameters: childElements(macro, 'ac:parameter').map((parameter) => {
+      // Parameters such as page pickers hold markup rather than text
+      const raw = parameter.children.some((child) => child.type === 'element');
+      return {
+        name: parameter.attributes['ac:name'] ?? '',
+        value: raw ? serializeStorageFormat(parameter.children) : textContent(parameter),
+        raw,
+      };
+    }),
+  };
+}
+
+function renderMacroBlock(macro: StorageElement, context: MarkdownContext): string {
+  if (context.inTableCell) return renderMacroInline(macro, context);
+
+  const name = macro.attributes['ac:name'] || 'unknown';
+  const plainBody = findChild(macro, 'ac:plain-text-body');
+  const richBody = findChild(macro, 'ac:rich-text-body');
+
+  // Code macros become ordinary fenced code; extra parameters ride in the info string
+  if (name === 'code' && !richBody) {
+    const attributes = macroDirectiveAttributes(macro, false);
+    const [first, ...others] = attributes.parameters;
+    const language = first?.name === 'language' && !first.raw ? first.value : '';
+    if (language) attributes.parameters = others;
+    const info = [language, formatDirectiveAttributes(attributes)].filter(Boolean).join(' ');
+    return renderFencedCode(plainBody ? textContent(plainBody) : '', info);
+  }
+
+  const attributeText = formatDirectiveAttributes(
+    macroDirectiveAttributes(macro, !!plainBody && !richBody)
+  );
+
+  if (!richBody && !plainBody) {
+    return `::${name}${attributeText}`;
+  }
+
+  const body = richBody
+    ? renderBlocks(richBody.children, context).join('\n\n')
+    : renderFencedCode(textContent(plainBody!));
+  return renderContainerDirective(name, attributeText, body);
+}
+
+function renderContainerDirective(name: string, attributeText: string, body: string): string {
+  // The outer fence must be longer than any directive fence nested in the body
+  const longestFence = Math.max(
+    2,
+    ...(body.match(/^\s*:{3,}/gm) || []).map((fence) => fence.trim().length)
+  );
+  const fence = ':'.repeat(longestFence + 1);
+  return `${fence}${name}${attributeText}\n${body ? `${body}\n` : ''}${fence}`;
+}
+
+function renderMacroInline(macro: StorageElement, context: MarkdownContext): string {
+  const name = macro.attributes['ac:name'] || 'unknown';
+  const plainBody = findChild(macro, 'ac:plain-text-body');
+  const richBody = findChild(macro, 'ac:rich-text-body');
+  const lineBreak = context.inTableCell ? '<br>' : ' ';
+
+  let label = '';
+  if (richBody) {
+    label = `[${renderBlocks(richBody.children, context).join(lineBreak).replace(/\n/g, lineBreak)}]`;
+  } else if (plainBody) {
+    label = `[${escapeMarkdown(textContent(plainBody)).replace(/\n/g, '<br>')}]`;
+  }
+
+  const attributeText = formatDirectiveAttributes(
+    macroDirectiveAttributes(macro, !!plainBody && !richBody)
+  );
+  return `:${name}${label}${attributeText || '{}'}`;
+}
+
+/**
+ * Escape Markdown syntax characters in literal text
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*[\]])/g, '\\$1')
+    .replace(/<(?=\/?(?:br|ul|ol|li)\b)/gi, '\\<')
+    .replace(/(^|[^A-Za-z0-9])_|_(?=[^A-Za-z0-9]|$)/g, (match) => match.replace('_', '\\_'))
+    .replace(/~~/g, '\\~\\~')
+    .replace(/(^|[^:]):(?=:*[A-Za-z][\w-]*[[{])/g, '$1\\:');
+}
+
+/**
+ * Wrap inline content in a delimiter, keeping surrounding whitespace outside
+ * so the result stays valid emphasis (`**bold** ` rather than `**bold **`).
+ */
+function wrapInline(content: string, delimiter: string): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!match[2]) return content;
+  return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+}
+
+function renderCodeSpan(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${ticks}${padding}${code}${padding}${ticks}`;
+}
+
+function encodeLinkTarget(target: string): string {
+  let depth = 0;
+  for (const char of target) {
+    if (char === '(') depth++;
+    else if (char === ')' && --depth < 0) break;
+  }
+  const encoded = target.replace(/[\s<>]/g, (char) => encodeURIComponent(char));
+  // Balanced parentheses read back as part of the destination; unbalanced ones would end it
+  return depth === 0 ? encoded : encoded.replace(/[()]/g, '\\$&');
+}
+
+function renderInline(nodes: StorageNode[], context: MarkdownContext): string {
+  let output = '';
+  let afterImage = false;
+  for (const node of nodes) {
+    let piece = renderInlineNode(node, context);
+    // Text straight after an image would read as the image's attribute block
+    if (afterImage && piece.startsWith('{')) piece = `\\${piece}`;
+    // Collapse whitespace across node boundaries, as HTML rendering would
+    output += output.endsWith(' ') && piece.startsWith(' ') ? piece.slice(1) : piece;
+    afterImage = node.type === 'element' && node.name === 'ac:image';
+  }
+  return output;
+}
+
+function renderInlineNode(node: StorageNode, context: MarkdownContext): string {
+  if (node.type === 'text') {
+    return node.cdata
+      ? escapeMarkdown(node.value)
+      : escapeMarkdown(node.value.replace(/[ \t\r\n]+/g, ' '));
+  }
+
+  const name = node.name.toLowerCase();
+  const inner = () => renderInline(node.children, context);
+
+  switch (name) {
+    case 'strong':
+    case 'b':
+      return wrapInline(inner(), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(inner(), '*');
+    case 's':
+    case 'del':
+    case 'strike':
+      return wrapInline(inner(), '~~');
+    case 'code':
+      return renderCodeSpan(textContent(node).replace(/\s+/g, ' '));
+    case 'br':
+      return context.inTableCell ? '<br>' : '\\\n';
+    case 'a': {
+      const text = inner().trim() || escapeMarkdown(node.attributes.href || '');
+      return node.attributes.href ? `[${text}](${encodeLinkTarget(node.attributes.href)})` : text;
+    }
+    case 'img':
+      return `![${escapeMarkdown(node.attributes.alt || '')}](${encodeLinkTarget(node.attributes.src || '')})`;
+    case 'u':
+    case 'sup':
+    case 'sub':
+    case 'time':
+      return renderElementDirective(name, node, context);
+    case 'span':
+      return Object.keys(node.attributes).length > 0
+        ? renderElementDirective(name, node, context)
+        : inner();
+    case 'ac:inline-comment-marker':
+      return renderElementDirective('comment', node, context);
+    case 'ac:emoticon':
+      return renderElementDirective('emoticon', node, context);
+    case 'ac:image':
+      return renderImageElement(node);
+    case 'ac:link':
+      return renderConfluenceLink(node, context);
+    case 'ac:placeholder':
+      return wrapInline(inner(), '*');
+    case 'ac:structured-macro':
+      return renderMacroInline(node, context);
+    case 'ac:parameter':
+    case 'ri:page':
+    case 'ri:attachment':
+    case 'ri:url':
+    case 'ri:user':
+    case 'ri:space':
+      return '';
+    default:
+      if (isBlockNode(node)) {
+        // Block content in an inline position (e.g. a list inside a table cell)
+        return `\n${renderBlock(node, context)}\n`;
+      }
+      return inner();
+  }
+}
+
+/**
+ * Inline content of a directive label, kept on one line
+ */
+function renderLabel(nodes: StorageNode[], context: MarkdownContext): string {
+  return renderInline(nodes, context).replace(/\\\n/g, '<br>').replace(/\n/g, ' ');
+}
+
+function renderElementDirective(
+  directiveName: string,
+  element: StorageElement,
+  context: MarkdownContext
+): string {
+  const label = element.children.length > 0 ? `[${renderLabel(element.children, context)}]` : '';
+  const attributeText = formatDirectiveAttributes(
+    toDirectiveAttributes(element.name, element.attributes)
+  );
+  return `:${directiveName}${label}${attributeText || '{}'}`;
+}
+
+function renderImageElement(image: StorageElement): string {
+  const { 'ac:alt': alt = '', 'ac:title': title, ...others } = image.attributes;
+  const url = findChild(image, 'ri:url');
+  const attachment = findChild(image, 'ri:attachment');
+  const source = url
+    ? url.attributes['ri:value'] || ''
+    : attachment?.attributes['ri:filename'] || '';
+
+  // A title with quotes cannot be written in the destination; keep it as an attribute
+  const quotedTitle = title !== undefined && !title.includes('"');
+  if (title !== undefined && !quotedTitle) others['ac:title'] = title;
+  const attributeText = formatDirectiveAttributes(toDirectiveAttributes(image.name, others));
+  return `![${escapeMarkdown(alt)}](${encodeLinkTarget(source)}${quotedTitle ? ` "${title}"` : ''})${attributeText}`;
+}
+
+/**
+ * Links to pages, attachments, users (mentions) and anchors become `:link` directives,
+ * with the target resource written as `<kind>="<name>"` (e.g. `page="Team Home"`)
+ */
+function renderConfluenceLink(link: StorageElement, context: MarkdownContext): string {
+  const richBody = findChild(link, 'ac:link-body');
+  const plainBody = findChild(link, 'ac:plain-text-link-body');
+  const resource = childElements(link).find((child) => child.name.startsWith('ri:'));
+
+  const attributes = toDirectiveAttributes(link.name, link.attributes);
+  if (resource) attributes.parameters.push(...linkResourceParameters(resource));
+
+  let label = '';
+  if (richBody) {
+    label = `[${renderLabel(richBody.children, context)}]`;
+  } else if (plainBody) {
+    attributes.classes.push('plain');
+    label = `[${escapeMarkdown(textContent(plainBody)).replace(/\n/g, '<br>')}]`;
+  }
+  return `:${LINK_DIRECTIVE}${label}${formatDirectiveAttributes(attributes) || '{}'}`;
+}
+
+function linkResourceParameters(resource: StorageElement): DirectiveAttributes['parameters'] {
+  const key = LINK_RESOURCE_KEYS[resource.name];
+  // Resources that nest other resources (e.g. an attachment on another page) stay as markup
+  if (!key || !(key in resource.attributes) || resource.children.length > 0) {
+    return [{ name: 'resource', value: serializeStorageFormat([resource]), raw: true }];
+  }
+  return Object.entries(resource.attributes).map(([name, value]) => ({
+    name: name === key ? resource.name.slice('ri:'.length) : name,
+    value,
+    raw: false,
+  }));
+}
+
+/**
+ * Convert Markdown (CommonMark + GFM tables, task lists and strikethrough)
+ * into Confluence storage format (XHTML).
+ */
+export function convertMarkdownToStorage(markdown: string): string {
+  try {
+    const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+    const state: MarkdownRenderState = { nextTaskId: 1 };
+    return renderMarkdownBlocks(lines, state).trim();
+  } catch (error) {
+    console.error('Error converting markdown:', error);
+    throw new Error('Failed to convert markdown to storage format');
+  }
+}
+
+interface MarkdownRenderState {
+  nextTaskId: number;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^`]*?)\s*$/;
+const DIRECTIVE_PATTERN = new RegExp(
+  `^ {0,3}(:{2,})([A-Za-z][\\w-]*)(${ATTRIBUTE_BLOCK_SOURCE})?\\s*$`
+);
+const DIRECTIVE_CLOSE_PATTERN = /^ {0,3}(:{3,})\s*$/;
+// Labels may hold bracketed text (links, nested directives) two levels deep
+const LABEL_TEXT_SOURCE = '(?:[^\\[\\]\\\\]|\\\\.)';
+const NESTED_LABEL_SOURCE = `(?:${LABEL_TEXT_SOURCE}|\\[${LABEL_TEXT_SOURCE}*\\])*`;
+const INLINE_DIRECTIVE_PATTERN = new RegExp(
+  `^:([A-Za-z][\\w-]*)(?:\\[((?:${LABEL_TEXT_SOURCE}|\\[${NESTED_LABEL_SOURCE}\\])*)\\])?(${ATTRIBUTE_BLOCK_SOURCE})`
+);
+const TABLE_CELL_DIRECTIVE_PATTERN = new RegExp(
+  `^:${TABLE_CELL_DIRECTIVE}(${ATTRIBUTE_BLOCK_SOURCE})\\s*`
+);
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])(?:( +)(.*))?$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape text for an XML attribute value (also safe in element content)
+ */
+export function escapeAttribute(text: string): string {
+  return escapeXml(text).replace(/"/g, '&quot;');
+}
+
+function formatXmlAttributes(attributes: Array<[string, string]>): string {
+  return attributes.map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`).join('');
+}
+
+function wrapCdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    index + 1 < lines.length &&
+    lines[index].includes('|') &&
+    TABLE_DELIMITER_PATTERN.test(lines[index + 1]) &&
+    lines[index + 1].includes('-')
+  );
+}
+
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    FENCE_PATTERN.test(line) ||
+    DIRECTIVE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    /^ {0,3}>/.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+function renderMarkdownBlocks(lines: string[], state: MarkdownRenderState): string {
+  const output: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block -> code macro
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const marker = fence[1];
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length) {
+        const closing = lines[i].trim();
+        if (closing.startsWith(marker[0].repeat(marker.length)) && /^([`~])\1*$/.test(closing)) {
+          i++;
+          break;
+        }
+        codeLines.push(lines[i]);
+        i++;
+      }
+      output.push(renderCodeMacro(codeLines.join('\n'), fence[2]));
+      continue;
+    }
+
+    // Macro directives: `::name{...}` (no body) or `:::name{...}` ... `:::`
+    const directive = line.match(DIRECTIVE_PATTERN);
+    if (directive) {
+      const attributes = parseDirectiveAttributes(directive[3]);
+      const layoutElement = attributes.classes.includes('macro')
+        ? undefined
+        : LAYOUT_DIRECTIVES[directive[2]];
+      i++;
+      if (directive[1].length === 2) {
+        output.push(renderStorageMacro(directive[2], attributes));
+        continue;
+      }
+
+      const bodyLines: string[] = [];
+      while (i < lines.length) {
+        const closing = lines[i].match(DIRECTIVE_CLOSE_PATTERN);
+        if (closing && closing[1].length >= directive[1].length) {
+          i++;
+          break;
+        }
+        bodyLines.push(lines[i]);
+        i++;
+      }
+
+      if (layoutElement) {
+        const layoutAttributes = fromDirectiveAttributes(layoutElement, attributes);
+        const element = `<${layoutElement}${formatXmlAttributes(layoutAttributes)}>${renderMarkdownBlocks(bodyLines, state)}</${layoutElement}>`;
+        // Consecutive layout sections make up one page layout
+        const previous = output[output.length - 1];
+        if (layoutElement === 'ac:layout-section' && previous?.endsWith('</ac:layout>')) {
+          output[output.length - 1] = previous.replace(/<\/ac:layout>$/, `${element}</ac:layout>`);
+        } else {
+          output.push(
+            layoutElement === 'ac:layout-section' ? `<ac:layout>${element}</ac:layout>` : element
+          );
+        }
+        continue;
+      }
+
+      output.push(
+        attributes.classes.includes('plain')
+          ? renderStorageMacro(directive[2], attributes, { plain: extractPlainBody(bodyLines) })
+          : renderStorageMacro(directive[2], attributes, {
+              rich: renderMarkdownBlocks(bodyLines, state),
+            })
+      );
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const level = heading[1].length;
+      output.push(`<h${level}>${renderInlineMarkdown(heading[2] || '')}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      output.push('<hr />');
+      i++;
+      continue;
+    }
+
+    if (/^ {0,3}>/.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        quoteLines.push(lines[i].replace(/^ {0,3}> ?/, ''));
+        i++;
+      }
+      output.push(`<blockquote>${renderMarkdownBlocks(quoteLines, state)}</blockquote>`);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const tableLines: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      output.push(renderTable(tableLines));
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const result = renderList(lines, i, state);
+      output.push(result.html);
+      i = result.next;
+      continue;
+    }
+
+    // Paragraph: consume until a blank line or the start of another block. An
+    // underline of `=` or `-` turns the paragraph into a setext heading.
+    const paragraphLines: string[] = [line.trimStart()];
+    let setextLevel = 0;
+    i++;
+    while (i < lines.length && !isBlank(lines[i])) {
+      const underline = lines[i].match(SETEXT_UNDERLINE_PATTERN);
+      if (underline) {
+        setextLevel = underline[1].startsWith('=') ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines, i)) break;
+      paragraphLines.push(lines[i].trimStart());
+      i++;
+    }
+    output.push(
+      setextLevel
+        ? `<h${setextLevel}>${renderInlineMarkdown(paragraphLines.join(' ').trim())}</h${setextLevel}>`
+        : `<p>${renderParagraphLines(paragraphLines)}</p>`
+    );
+  }
+
+  return output.join('');
+}
+
+function renderParagraphLines(lines: string[]): string {
+  return lines
+    .map((line, index) => {
+      const isLast = index === lines.length - 1;
+      // Two trailing spaces or a trailing backslash mark a hard line break
+      const hardBreak = !isLast && /(?: {2,}|\\)$/.test(line);
+      const text = (hardBreak ? line.replace(/(?: +|\\)$/, '') : line).trimEnd();
+      return renderInlineMarkdown(text) + (isLast ? '' : hardBreak ? '<br />' : ' ');
+    })
+    .join('');
+}
+
+function renderCodeMacro(code: string, info: string): string {
+  const [, language, attributeSource] =
+    info.match(new RegExp(`^([^\\s{]*)\\s*(${ATTRIBUTE_BLOCK_SOURCE})?`)) || [];
+  const attributes = parseDirectiveAttributes(attributeSource);
+  if (language) {
+    attributes.parameters.unshift({ name: 'language', value: language, raw: false });
+  }
+  return renderStorageMacro('code', attributes, { plain: code });
+}
+
+/**
+ * Body of a `.plain` directive: the contents of its fenced code block, or the
+ * raw lines when no fence was used
+ */
+function extractPlainBody(lines: string[]): string {
+  const start = lines.findIndex((line) => !isBlank(line));
+  const fence = start === -1 ? null : lines[start].match(FENCE_PATTERN);
+  if (!fence) return lines.join('\n').trim();
+
+  const end = lines.findIndex(
+    (line, index) =>
+      index > start && line.trim().startsWith(fence[1]) && /^([`~])\1*$/.test(line.trim())
+  );
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+}
+
+/**
+ * Build an `ac:structured-macro` element from directive attributes
+ */
+function renderStorageMacro(
+  name: string,
+  attributes: DirectiveAttributes,
+  body: { rich?: string; plain?: string } = {}
+): string {
+  const elementAttributes = new Map(attributes.elementAttributes);
+  const schemaVersion = elementAttributes.get('ac:schema-version') ?? '1';
+  elementAttributes.delete('ac:schema-version');
+
+  const attributeText = [
+    ['ac:name', name],
+    ['ac:schema-version', schemaVersion],
+    ...(attributes.id ? [['ac:macro-id', attributes.id]] : []),
+    ...elementAttributes,
+  ]
+    .map(([key, value]) => `${key}="${escapeAttribute(value)}"`)
+    .join(' ');
+
+  const parameters = attributes.parameters
+    .map(
+      ({ name: parameterName, value, raw }) =>
+        `<ac:parameter ac:name="${escapeAttribute(parameterName)}">${
+          raw ? value : escapeXml(value)
+        }</ac:parameter>`
+    )
+    .join('');
+
+  let bodyXml = '';
+  if (body.rich !== undefined) {
+    bodyXml = `<ac:rich-text-body>${body.rich}</ac:rich-text-body>`;
+  } else if (body.plain !== undefined) {
+    bodyXml = `<ac:plain-text-body>${wrapCdata(body.plain)}</ac:plain-text-body>`;
+  }
+
+  return `<ac:structured-macro ${attributeText}>${parameters}${bodyXml}</ac:structured-macro>`;
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      current += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function renderTable(lines: string[]): string {
+  const header = splitTableRow(lines[0]);
+  const alignments = splitTableRow(lines[1]).map((cell) => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    return left ? 'left' : undefined;
+  });
+
+  const renderCell = (tag: 'th' | 'td', text: string, column: number) => {
+    // A leading `:cell{...}` carries the cell's own attributes
+    const directive = text.match(TABLE_CELL_DIRECTIVE_PATTERN);
+    const attributes = directive
+      ? fromDirectiveAttributes(tag, parseDirectiveAttributes(directive[1]))
+      : [];
+    const align = alignments[column];
+    if (align && !attributes.some(([name]) => name === 'style')) {
+      attributes.unshift(['style', `text-align: ${align};`]);
+    }
+    const content = directive ? text.slice(directive[0].length) : text;
+    return {
+      html: `<${tag}${formatXmlAttributes(attributes)}>${renderInlineMarkdown(content)}</${tag}>`,
+      attributes: Object.fromEntries(attributes),
+    };
+  };
+
+  // Cells covered by a colspan or rowspan are written as empty cells; skip them
+  const rowsSpanned: number[] = [];
+  const renderRow = (tag: 'th' | 'td', cells: string[]) => {
+    const html: string[] = [];
+    // Pad or truncate rows to the header width, as GFM does
+    for (let column = 0; column < header.length;) {
+      if ((rowsSpanned[column] ?? 0) > 0) {
+        rowsSpanned[column]--;
+        column++;
+        continue;
+      }
+      const cell = renderCell(tag, cells[column] ?? '', column);
+      html.push(cell.html);
+      const colspan = cellSpan(cell.attributes.colspan);
+      const rowspan = cellSpan(cell.attributes.rowspan);
+      for (let spanned = 0; spanned < colspan; spanned++) {
+        rowsSpanned[column + spanned] = rowspan - 1;
+      }
+      column += colspan;
+    }
+    return `<tr>${html.join('')}</tr>`;
+  };
+
+  // An empty header row stands in for a table without one
+  const rows = [
+    ...(header.every((cell) => cell === '') ? [] : [renderRow('th', header)]),
+    ...lines.slice(2).map((line) => renderRow('td', splitTableRow(line))),
+  ];
+
+  return `<table><tbody>${rows.join('')}</tbody></table>`;
+}
+
+interface ListItem {
+  text: string;
+  children: string[];
+}
+
+function renderList(
+  lines: string[],
+  start: number,
+  state: MarkdownRenderState
+): { html: string; next: number } {
+  const first = lines[start].match(LIST_ITEM_PATTERN)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const orderedStart = ordered ? parseInt(first[2], 10) : 1;
+
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM_PATTERN);
+    if (!match || match[1].length !== baseIndent || /\d/.test(match[2]) !== ordered) {
+      break;
+    }
+    // Task items and plain items never share a list
+    if (TASK_PATTERN.test(match[4] || '') !== TASK_PATTERN.test(first[4] || '')) {
+      break;
+    }
+
+    // Continuation lines are indented to at least the item's content column
+    const contentIndent = baseIndent + match[2].length + Math.min((match[3] || ' ').length, 4);
+    const item: ListItem = { text: match[4] || '', children: [] };
+    i++;
+
+    let sawBlank = false;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        sawBlank = true;
+        item.children.push('');
+        i++;
+        continue;
+      }
+
+      const indent = indentOf(line);
+      if (indent > baseIndent && indent >= Math.min(contentIndent, baseIndent + 2)) {
+        item.children.push(line.slice(Math.min(indent, contentIndent)));
+        sawBlank = false;
+        i++;
+        continue;
+      }
+
+      // Lazy paragraph continuation of the item's first line
+      if (!sawBlank && item.children.length === 0 && !startsBlock(lines, i)) {
+        item.text += ` ${line.trim()}`;
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    // Trailing blank lines belong to the gap between items, not to the item
+    while (item.children.length > 0 && item.children[item.children.length - 1] === '') {
+      item.children.pop();
+    }
+
+    items.push(item);
+
+    // A blank line followed by something other than a sibling ends the list
+    if (i < lines.length && isBlank(lines[i - 1])) {
+      const sibling = lines[i].match(LIST_ITEM_PATTERN);
+      if (!sibling || sibling[1].length !== baseIndent) break;
+    }
+  }
+
+  const isTaskList = items.every((item) => TASK_PATTERN.test(item.text));
+
+  if (isTaskList) {
+    const tasks = items.map((item) => {
+      const task = item.text.match(TASK_PATTERN)!;
+      const status = task[1] === ' ' ? 'incomplete' : 'complete';
+      const body = renderInlineMarkdown(task[2]) + renderMarkdownBlocks(item.children, state);
+      return (
+        `<ac:task><ac:task-id>${state.nextTaskId++}</ac:task-id>` +
+        `<ac:task-status>${status}</ac:task-status>` +
+        `<ac:task-body>${body}</ac:task-body></ac:task>`
+      );
+    });
+    return { html: `<ac:task-list>${tasks.join('')}</ac:task-list>`, next: i };
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startAttr = ordered && orderedStart !== 1 ? ` start="${orderedStart}"` : '';
+  const renderedItems = items.map((item) => {
+    const body = renderMarkdownBlocks(item.children, state);
+    return `<li>${renderInlineMarkdown(item.text)}${body}</li>`;
+  });
+
+  return { html: `<${tag}${startAttr}>${renderedItems.join('')}</${tag}>`, next: i };
+}
+
+const ESCAPABLE_CHARACTERS = '\\`*_{}[]()#+-.!|~<>:=';
+
+/**
+ * Render inline Markdown (emphasis, code spans, links, images, autolinks)
+ * to storage format markup. Plain text is XML-escaped.
+ */
+function renderInlineMarkdown(text: string): string {
+  let output = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE_CHARACTERS.includes(text[i + 1])) {
+      output += escapeXml(text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const closing = text.indexOf(ticks, i + ticks.length);
+      if (closing !== -1) {
+        let code = text.slice(i + ticks.length, closing);
+        if (/^ .* $/.test(code)) code = code.slice(1, -1);
+        output += `<code>${escapeXml(code)}</code>`;
+        i = closing + ticks.length;
+        continue;
+      }
+      output += escapeXml(ticks);
+      i += ticks.length;
+      continue;
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const image = parseLink(text, i + 1);
+      if (image?.href) {
+        // Other image attributes (e.g. width) follow in braces
+        const attributeBlock = text
+          .slice(image.end)
+          .match(new RegExp(`^${ATTRIBUTE_BLOCK_SOURCE}`));
+        const attributes = fromDirectiveAttributes(
+          'ac:image',
+          parseDirectiveAttributes(attributeBlock?.[0])
+        );
+        output += renderImage(image.href, image.label, image.title, attributes);
+        i = image.end + (attributeBlock?.[0].length ?? 0);
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = parseLink(text, i);
+      if (link) {
+        const title = link.title ? ` title="${escapeAttribute(link.title)}"` : '';
+        output += `<a href="${escapeAttribute(link.href)}"${title}>${renderInlineMarkdown(link.label)}</a>`;
+        i = link.end;
+        continue;
+      }
+    }
+
+    // Directives may follow a word (`x:sup[2]{}`), but not another colon
+    if (char === ':' && text[i - 1] !== ':') {
+      const directive = rest.match(INLINE_DIRECTIVE_PATTERN);
+      if (directive) {
+        output += renderInlineDirective(directive[1], directive[2], directive[3]);
+        i += directive[0].length;
+        continue;
+      }
+    }
+
+    // Inline line breaks and lists, as emitted inside table cells
+    const lineBreak = rest.match(/^<br\s*\/?>/i);
+    if (lineBreak) {
+      output += '<br />';
+      i += lineBreak[0].length;
+      continue;
+    }
+    const listTag = rest.match(/^<(\/?)(ul|ol|li)(\s+start="\d+")?>/i);
+    if (listTag) {
+      output += `<${listTag[1]}${listTag[2].toLowerCase()}${listTag[3] || ''}>`;
+      i += listTag[0].length;
+      continue;
+    }
+
+    const autolink = rest.match(/^<((?:https?|mailto|ftp):[^\s>]+)>/i);
+    if (autolink) {
+      output += `<a href="${escapeAttribute(autolink[1])}">${escapeXml(autolink[1])}</a>`;
+      i += autolink[0].length;
+      continue;
+    }
+
+    const emphasis = matchEmphasis(text, i);
+    if (emphasis) {
+      output += `<${emphasis.tag}>${renderInlineMarkdown(emphasis.inner)}</${emphasis.tag}>`;
+      i = emphasis.end;
+      continue;
+    }
+
+    output += escapeXml(char);
+    i++;
+  }
+
+  return output;
+}
+
+function renderInlineDirective(
+  name: string,
+  label: string | undefined,
+  attributeSource: string
+): string {
+  const attributes = parseDirectiveAttributes(attributeSource);
+  if (!attributes.classes.includes('macro')) {
+    if (name === LINK_DIRECTIVE) return renderLinkElement(attributes, label);
+    const element = INLINE_ELEMENT_DIRECTIVES[name];
+    if (element) {
+      const attributeText = formatXmlAttributes(fromDirectiveAttributes(element, attributes));
+      return label === undefined
+        ? `<${element}${attributeText} />`
+        : `<${element}${attributeText}>${renderInlineMarkdown(label)}</${element}>`;
+    }
+  }
+  if (label === undefined) {
+    return renderStorageMacro(name, attributes);
+  }
+  if (attributes.classes.includes('plain')) {
+    const plain = label.replace(/<br\s*\/?>/gi, '\n').replace(/\\(.)/g, '$1');
+    return renderStorageMacro(name, attributes, { plain });
+  }
+  return renderStorageMacro(name, attributes, { rich: renderInlineMarkdown(label) });
+}
+
+/**
+ * Build an `ac:link` from a `:link` directive: `<kind>="<name>"` and `ri:` attributes
+ * describe the target resource, the rest belong to the link element
+ */
+function renderLinkElement(attributes: DirectiveAttributes, label: string | undefined): string {
+  const linkAttributes: DirectiveAttributes = { ...attributes, parameters: [] };
+  const resourceAttributes: Array<[string, string]> = [];
+  let resourceName = '';
+  let resource = '';
+
+  for (const parameter of attributes.parameters) {
+    const kind = `ri:${parameter.name}`;
+    if (parameter.raw && parameter.name === 'resource') {
+      resource = parameter.value;
+    } else if (LINK_RESOURCE_KEYS[kind]) {
+      resourceName = kind;
+      resourceAttributes.push([LINK_RESOURCE_KEYS[kind], parameter.value]);
+    } else if (parameter.name.startsWith('ri:')) {
+      resourceAttributes.push([parameter.name, parameter.value]);
+    } else {
+      linkAttributes.parameters.push(parameter);
+    }
+  }
+  if (resourceName) {
+    resource = `<${resourceName}${formatXmlAttributes(resourceAttributes)} />`;
+  }
+
+  let body = '';
+  if (label !== undefined && attributes.classes.includes('plain')) {
+    const plain = label.replace(/<br\s*\/?>/gi, '\n').replace(/\\(.)/g, '$1');
+    body = `<ac:plain-text-link-body>${wrapCdata(plain)}</ac:plain-text-link-body>`;
+  } else if (label !== undefined) {
+    body = `<ac:link-body>${renderInlineMarkdown(label)}</ac:link-body>`;
+  }
+
+  const attributeText = formatXmlAttributes(fromDirectiveAttributes('ac:link', linkAttributes));
+  return `<ac:link${attributeText}>${resource}${body}</ac:link>`;
+}
+
+/**
+ * Undo URL encoding in an attachment reference, keeping sources like `50%.png` that are
+ * not valid encodings as written
+ */
+function decodeAttachmentName(source: string): string {
+  try {
+    return decodeURIComponent(source);
+  } catch {
+    return source;
+  }
+}
+
+function renderImage(
+  source: string,
+  alt: string,
+  title?: string,
+  others: Array<[string, string]> = []
+): string {
+  const attributes =
+    (alt ? ` ac:alt="${escapeAttribute(alt)}"` : '') +
+    (title ? ` ac:title="${escapeAttribute(title)}"` : '') +
+    formatXmlAttributes(others);
+  // Relative references are treated as attachments on the current page
+  const resource = /^[a-z][a-z0-9+.-]*:/i.test(source)
+    ? `<ri:url ri:value="${escapeAttribute(source)}" />`
+    : `<ri:attachment ri:filename="${escapeAttribute(decodeAttachmentName(source))}" />`;
+  return `<ac:image${attributes}>${resource}</ac:image>`;
+}
+
+function parseLink(
+  text: string,
+  start: number
+): { label: string; href: string; title?: string; end: number } | null {
+  // Find the matching closing bracket, allowing nested brackets in the label
+  let depth = 0;
+  let labelEnd = -1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']') {
+      depth--;
+      if (depth === 0) {
+        labelEnd = i;
+        break;
+      }
+    }
+  }
+  if (labelEnd === -1) return null;
+
+  const destination = parseLinkDestination(text, labelEnd + 1);
+  if (!destination) return null;
+
+  return { label: text.slice(start + 1, labelEnd), ...destination };
+}
+
+/**
+ * Parse a `(destination "title")` link destination. Bare destinations may contain
+ * balanced parentheses, as in `(https://en.wikipedia.org/wiki/Foo_(bar))`.
+ */
+function parseLinkDestination(
+  text: string,
+  start: number
+): { href: string; title?: string; end: number } | null {
+  if (text[start] !== '(') return null;
+  let i = start + 1;
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  skipWhitespace();
+
+  let href = '';
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i);
+    if (close === -1) return null;
+    href = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    for (; i < text.length && !/\s/.test(text[i]); i++) {
+      const char = text[i];
+      if (char === '\\' && ESCAPABLE_CHARACTERS.includes(text[i + 1] ?? '')) {
+        href += text[++i];
+        continue;
+      }
+      if (char === '(') depth++;
+      if (char === ')' && depth-- === 0) break;
+      href += char;
+    }
+    if (depth > 0) return null;
+  }
+
+  skipWhitespace();
+  let title: string | undefined;
+  if (text[i] === '"') {
+    const close = text.indexOf('"', i + 1);
+    if (close === -1) return null;
+    title = text.slice(i + 1, close);
+    i = close + 1;
+    skipWhitespace();
+  }
+
+  return text[i] === ')' ? { href, title, end: i + 1 } : null;
+}
+
+const EMPHASIS_DELIMITERS: Array<{ marker: string; tag: string }> = [
+  { marker: '**', tag: 'strong' },
+  { marker: '__', tag: 'strong' },
+  { marker: '~~', tag: 'del' },
+  { marker: '*', tag: 'em' },
+  { marker: '_', tag: 'em' },
+];
+
+function matchEmphasis(
+  text: string,
+  start: number
+): { tag: string; inner: string; end: number } | null {
+  for (const { marker, tag } of EMPHASIS_DELIMITERS) {
+    if (!text.startsWith(marker, start)) continue;
+
+    const afterOpen = text[start + marker.length];
+    if (!afterOpen || /\s/.test(afterOpen)) continue;
+    // Underscores inside words (snake_case) are not emphasis
+    if (marker[0] === '_' && start > 0 && /[A-Za-z0-9]/.test(text[start - 1])) continue;
+
+    let search = start + marker.length + 1;
+    while (search <= text.length) {
+      const closing = text.indexOf(marker, search);
+      if (closing === -1) break;
+
+      const beforeClose = text[closing - 1];
+      const afterClose = text[closing + marker.length];
+      const isEscaped = beforeClose === '\\';
+      const isSingleInsideDouble = marker.length === 1 && afterClose === marker;
+      const isIntraword = marker[0] === '_' && !!afterClose && /[A-Za-z0-9]/.test(afterClose);
+
+      if (!isEscaped && !/\s/.test(beforeClose) && !isSingleInsideDouble && !isIntraword) {
+        return {
+          tag,
+          inner: text.slice(start + marker.length, closing),
+          end: closing + marker.length,
+        };
+      }
+      search = closing + (isSingleInsideDouble ? 2 : 1);
+    }
+  }
+  return null;
+}
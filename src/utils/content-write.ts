@@ -0,0 +1,234 @@
+import { composeVersionMessage, summarizeChange } from './change-summary.js';
+import {
+  convertStorageToMarkdown,
+  parseStorageFormat,
+  serializeStorageFormat,
+} from './content-converter.js';
+import { previewPageChange } from './dry-run.js';
+import { bodyToMarkdown, readPageBody, toPageBody } from './page-body.js';
+import type { BodyFormat } from './page-body.js';
+import { splitLines } from './text-diff.js';
+import { mergeThreeWay } from './three-way-merge.js';
+import type {
+  ApiRequest,
+  BodyRepresentation,
+  ContentFormat,
+  Page,
+  VersionOptions,
+} from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+
+// The parts of a page or blog post that an update reads
+export type VersionedBody = Pick<Page, 'title' | 'body' | 'version'>;
+
+/**
+ * Reads and writes one page or blog post, so both go through the same update path
+ */
+export interface VersionedContent<T extends VersionedBody> {
+  getCurrent(): Promise<VersionedBody>;
+  getVersion(version: number): Promise<VersionedBody>;
+  buildUpdateRequest(
+    title: string,
+    content: string,
+    version: number,
+    representation: BodyRepresentation,
+    versionOptions: VersionOptions
+  ): ApiRequest;
+  update(
+    title: string,
+    content: string,
+    version: number,
+    representation: BodyRepresentation,
+    versionOptions: VersionOptions
+  ): Promise<T>;
+}
+
+export interface ContentUpdateArgs {
+  title: string;
+  content: string;
+  contentFormat?: ContentFormat;
+  bodyFormat?: BodyFormat;
+  version: number;
+  versionMessage?: string;
+  minorEdit?: boolean;
+  autoSummary?: boolean;
+  dryRun?: boolean;
+}
+
+export interface MergeConflict {
+  baseLine: number;
+  base: string;
+  ours: string;
+  theirs: string;
+}
+
+export type ContentUpdateResult<T> =
+  // Dry run: the request that would be sent and how it would change the content
+  | {
+      outcome: 'preview';
+      request: ApiRequest;
+      details: { currentVersion: number; versionConflict: boolean } & ReturnType<
+        typeof previewPageChange
+      >;
+    }
+  // The update was written against an older version and clashes with newer changes
+  | {
+      outcome: 'conflict';
+      baseVersion: number;
+      currentVersion: number;
+      conflicts: MergeConflict[];
+    }
+  | { outcome: 'updated'; content: T; mergedFrom?: number };
+
+/**
+ * Split content into merge units: lines for Markdown, top-level blocks for storage
+ * format (storage bodies are often a single line)
+ */
+function toMergeUnits(content: string, format: 'markdown' | 'storage'): string[] {
+  if (format === 'markdown') {
+    return splitLines(content);
+  }
+  return parseStorageFormat(content).children.map((node) => serializeStorageFormat([node]));
+}
+
+interface ConcurrentUpdateMerge {
+  current: VersionedBody;
+  baseVersion: number;
+  title: string;
+  content: string;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Three-way merge an update written against an older version with the changes
+ * published since. The caller's base is the version before the one it tried to
+ * write. Returns undefined when the update cannot be merged (ADF content, or a
+ * version number that does not point at an older version).
+ */
+async function mergeWithCurrentVersion(
+  target: VersionedContent<VersionedBody>,
+  args: ContentUpdateArgs
+): Promise<ConcurrentUpdateMerge | undefined> {
+  const format = args.contentFormat || 'storage';
+  const baseVersion = args.version - 1;
+  if (format === 'adf' || baseVersion < 1) {
+    return undefined;
+  }
+
+  const current = await target.getCurrent();
+  if (baseVersion >= current.version.number) {
+    return undefined;
+  }
+  const base = await target.getVersion(baseVersion);
+
+  const toText = (content: VersionedBody) => {
+    const storage = content.body?.storage?.value || '';
+    return format === 'markdown' ? convertStorageToMarkdown(storage) : storage;
+  };
+  const separator = format === 'markdown' ? '\n' : '';
+  const merged = mergeThreeWay(
+    toMergeUnits(toText(base), format),
+    toMergeUnits(args.content, format),
+    toMergeUnits(toText(current), format)
+  );
+
+  return {
+    current,
+    baseVersion,
+    // Keep a title change from either side; the caller's wins if both changed it
+    title: args.title !== base.title ? args.title : current.title,
+    content: merged.lines.join(separator),
+    conflicts: merged.conflicts.map((conflict) => ({
+      baseLine: conflict.baseLine,
+      base: conflict.base.join(separator),
+      ours: conflict.ours.join(separator),
+      theirs: conflict.theirs.join(separator),
+    })),
+  };
+}
+
+/**
+ * Publish a new version of a page or blog post: previews dry runs, summarizes the
+ * change into the version message when asked, and merges an update written against
+ * an older version with the changes published since. A version conflict that cannot
+ * be merged is rethrown as the VERSION_CONFLICT error.
+ */
+export async function updateVersionedContent<T extends VersionedBody>(
+  target: VersionedContent<T>,
+  args: ContentUpdateArgs
+): Promise<ContentUpdateResult<T>> {
+  const body = toPageBody(args.content, args.contentFormat, args.bodyFormat);
+
+  // The current content is only needed for previews and change summaries
+  const current = args.dryRun || args.autoSummary ? await target.getCurrent() : undefined;
+  const before = current && {
+    title: current.title,
+    markdown: readPageBody(current).markdown,
+  };
+  const after = { title: args.title, markdown: before ? bodyToMarkdown(body) : '' };
+  const versionOptions: VersionOptions = {
+    message: composeVersionMessage(
+      args.versionMessage,
+      args.autoSummary && before ? summarizeChange(before, after) : undefined
+    ),
+    minorEdit: args.minorEdit,
+  };
+
+  if (args.dryRun && current && before) {
+    return {
+      outcome: 'preview',
+      request: target.buildUpdateRequest(
+        args.title,
+        body.value,
+        args.version,
+        body.representation,
+        versionOptions
+      ),
+      details: {
+        currentVersion: current.version.number,
+        // A stale version would be merged with the newer changes when written
+        versionConflict: args.version !== current.version.number + 1,
+        ...previewPageChange(before, after),
+      },
+    };
+  }
+
+  try {
+    const content = await target.update(
+      args.title,
+      body.value,
+      args.version,
+      body.representation,
+      versionOptions
+    );
+    return { outcome: 'updated', content };
+  } catch (error) {
+    if (!(error instanceof ConfluenceError && error.code === 'VERSION_CONFLICT')) {
+      throw error;
+    }
+
+    // Someone else published a version since the caller read the content
+    const merge = await mergeWithCurrentVersion(target, args);
+    if (!merge) {
+      throw error;
+    }
+    if (merge.conflicts.length > 0) {
+      return {
+        outcome: 'conflict',
+        baseVersion: merge.baseVersion,
+        currentVersion: merge.current.version.number,
+        conflicts: merge.conflicts,
+      };
+    }
+
+    const mergedBody = toPageBody(merge.content, args.contentFormat, args.bodyFormat);
+    const content = await target.update(
+      merge.title,
+      mergedBody.value,
+      merge.current.version.number + 1,
+      mergedBody.representation,
+      versionOptions
+    );
+    return { outcome: 'updated', content, mergedFrom: merge.current.version.number };
+  }
+}
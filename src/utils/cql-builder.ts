@@ -0,0 +1,178 @@
+import { ConfluenceError } from '../types/index.js';
+
+export type CqlContentType =
+  'page' | 'blogpost' | 'comment' | 'attachment' | 'folder' | 'whiteboard' | 'database';
+
+export interface CqlFilters {
+  spaceKeys?: string[];
+  types?: CqlContentType[];
+  labels?: string[];
+  // any matches content with one of the labels, all only content with every label
+  labelMatch?: 'any' | 'all';
+  excludeLabels?: string[];
+  // Account IDs; "me" stands for the calling user
+  contributors?: string[];
+  creators?: string[];
+  ancestorIds?: string[];
+  parentId?: string;
+  title?: string;
+  text?: string;
+  // Dates as YYYY-MM-DD (optionally with HH:mm) or relative to now, e.g. -7d or -2w
+  createdAfter?: string;
+  createdBefore?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  orderBy?: 'created' | 'lastmodified' | 'title';
+  orderDirection?: 'asc' | 'desc';
+}
+
+const CONTENT_TYPES: CqlContentType[] = [
+  'page',
+  'blogpost',
+  'comment',
+  'attachment',
+  'folder',
+  'whiteboard',
+  'database',
+];
+const ABSOLUTE_DATE = /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2})?$/;
+// CQL now() offsets: years, Months, weeks, days, hours, minutes
+const RELATIVE_DATE = /^[+-]?\d+[yMwdhm]$/;
+
+function invalid(message: string): ConfluenceError {
+  return new ConfluenceError(message, 'INVALID_REQUEST');
+}
+
+/**
+ * Quote a value for CQL, escaping backslashes and double quotes
+ */
+export function quoteCqlValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function nonEmpty(values: string[] | undefined, field: string): string[] {
+  const trimmed = (values || []).map((value) => value.trim());
+  if (trimmed.some((value) => !value)) {
+    throw invalid(`${field} must not contain empty values`);
+  }
+  return trimmed;
+}
+
+/**
+ * `field = value` for one value, `field in (...)` for several
+ */
+function membership(field: string, values: string[]): string {
+  return values.length === 1 ? `${field} = ${values[0]}` : `${field} in (${values.join(', ')})`;
+}
+
+function contentIds(values: string[] | undefined, field: string): string[] {
+  const ids = nonEmpty(values, field);
+  const bad = ids.find((id) => !/^\d+$/.test(id));
+  if (bad) {
+    throw invalid(`${field} must be numeric content IDs, got "${bad}"`);
+  }
+  return ids;
+}
+
+function users(values: string[] | undefined, field: string): string[] {
+  return nonEmpty(values, field).map((user) =>
+    user.toLowerCase() === 'me' ? 'currentUser()' : quoteCqlValue(user)
+  );
+}
+
+function dateValue(value: string, field: string): string {
+  const trimmed = value.trim();
+  if (RELATIVE_DATE.test(trimmed)) {
+    return `now(${quoteCqlValue(trimmed)})`;
+  }
+  if (ABSOLUTE_DATE.test(trimmed) && !Number.isNaN(Date.parse(trimmed.slice(0, 10)))) {
+    return quoteCqlValue(trimmed);
+  }
+  throw invalid(
+    `${field} must be a date like 2024-05-02 or 2024-05-02 14:30, or relative like -7d, got "${value}"`
+  );
+}
+
+/**
+ * Build a CQL query from structured filters. Every value is quoted and escaped, and
+ * filters are combined with AND. Invalid filters are an INVALID_REQUEST error.
+ */
+export function buildCqlQuery(filters: CqlFilters): string {
+  const clauses: string[] = [];
+
+  const spaceKeys = nonEmpty(filters.spaceKeys, 'spaceKeys');
+  if (spaceKeys.length > 0) {
+    clauses.push(membership('space', spaceKeys.map(quoteCqlValue)));
+  }
+
+  const types = filters.types || [];
+  const unknownType = types.find((type) => !CONTENT_TYPES.includes(type));
+  if (unknownType) {
+    throw invalid(`Unknown content type "${unknownType}"; use ${CONTENT_TYPES.join(', ')}`);
+  }
+  if (types.length > 0) {
+    clauses.push(membership('type', types));
+  }
+
+  const labels = nonEmpty(filters.labels, 'labels');
+  if (labels.length > 0) {
+    if (filters.labelMatch === 'all') {
+      clauses.push(...labels.map((label) => `label = ${quoteCqlValue(label)}`));
+    } else {
+      clauses.push(membership('label', labels.map(quoteCqlValue)));
+    }
+  }
+  const excludeLabels = nonEmpty(filters.excludeLabels, 'excludeLabels');
+  if (excludeLabels.length > 0) {
+    clauses.push(`label not in (${excludeLabels.map(quoteCqlValue).join(', ')})`);
+  }
+
+  const contributors = users(filters.contributors, 'contributors');
+  if (contributors.length > 0) {
+    clauses.push(membership('contributor', contributors));
+  }
+  const creators = users(filters.creators, 'creators');
+  if (creators.length > 0) {
+    clauses.push(membership('creator', creators));
+  }
+
+  const ancestorIds = contentIds(filters.ancestorIds, 'ancestorIds');
+  if (ancestorIds.length > 0) {
+    clauses.push(membership('ancestor', ancestorIds));
+  }
+  if (filters.parentId !== undefined) {
+    clauses.push(`parent = ${contentIds([filters.parentId], 'parentId')[0]}`);
+  }
+
+  if (filters.title?.trim()) {
+    clauses.push(`title ~ ${quoteCqlValue(filters.title.trim())}`);
+  }
+  if (filters.text?.trim()) {
+    clauses.push(`text ~ ${quoteCqlValue(filters.text.trim())}`);
+  }
+
+  const dates: [keyof CqlFilters, string, string][] = [
+    ['createdAfter', 'created', '>='],
+    ['createdBefore', 'created', '<'],
+    ['modifiedAfter', 'lastmodified', '>='],
+    ['modifiedBefore', 'lastmodified', '<'],
+  ];
+  for (const [field, cqlField, operator] of dates) {
+    const value = filters[field] as string | undefined;
+    if (value) {
+      clauses.push(`${cqlField} ${operator} ${dateValue(value, field)}`);
+    }
+  }
+
+  if (clauses.length === 0) {
+    throw invalid('Provide at least one filter; CQL cannot search for everything');
+  }
+
+  if (filters.orderBy && !['created', 'lastmodified', 'title'].includes(filters.orderBy)) {
+    throw invalid(`Cannot order by "${filters.orderBy}"; use created, lastmodified or title`);
+  }
+  const order = filters.orderBy
+    ? ` ORDER BY ${filters.orderBy} ${filters.orderDirection === 'asc' ? 'asc' : 'desc'}`
+    : '';
+  return `${clauses.join(' AND ')}${order}`;
+}
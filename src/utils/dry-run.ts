@@ -0,0 +1,52 @@
+import { diffLines, diffStats, formatUnifiedDiff, splitLines } from './text-diff.js';
+import type { ApiRequest } from '../types/index.js';
+
+export interface PageSnapshot {
+  title: string;
+  markdown: string;
+}
+
+/**
+ * Describe how a write would change a page: title change, line counts and a
+ * unified diff of the Markdown rendering
+ */
+export function previewPageChange(current: PageSnapshot, proposed: PageSnapshot) {
+  return {
+    titleChanged:
+      current.title !== proposed.title ? { from: current.title, to: proposed.title } : undefined,
+    stats: diffStats(diffLines(splitLines(current.markdown), splitLines(proposed.markdown))),
+    diff: formatUnifiedDiff(current.markdown, proposed.markdown, {
+      fromLabel: 'current',
+      toLabel: 'proposed',
+    }),
+  };
+}
+
+/**
+ * Tool response for a dry run: the fully resolved requests that would be sent,
+ * in order, plus any preview details. Nothing is written to Confluence.
+ */
+export function dryRunResponse(
+  instanceName: string,
+  requests: ApiRequest[],
+  details: Record<string, unknown> = {}
+) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            instance: instanceName,
+            dryRun: true,
+            message: 'Dry run: nothing was sent to Confluence',
+            ...details,
+            requests,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
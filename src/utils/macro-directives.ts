@@ -0,0 +1,131 @@
+/**
+ * Attribute syntax shared by the Markdown macro directives:
+ *
+ *   :::info{#macro-id title="Heads up"}   container (rich-text body)
+ *   ::toc{maxLevel="3"}                    leaf (no body)
+ *   :status{colour="Green" title="DONE"}   inline
+ *
+ * `#id` carries the macro id, `.plain` marks a plain-text body, `@name` keeps
+ * extra attributes of the macro element and `name:xml` marks a parameter whose
+ * value is raw storage markup (e.g. a page link). The unnamed default
+ * parameter is written as `_`. Values are JSON string literals.
+ *
+ * Storage elements with no Markdown equivalent (page links, layouts, inline
+ * comment markers, ...) use the same syntax; their attributes map to the
+ * element's attributes (see `toDirectiveAttributes`).
+ */
+export interface DirectiveAttributes {
+  id?: string;
+  classes: string[];
+  parameters: Array<{ name: string; value: string; raw: boolean }>;
+  elementAttributes: Array<[string, string]>;
+}
+
+export const DEFAULT_PARAMETER_KEY = '_';
+
+/**
+ * Matches a `{...}` attribute block, allowing braces inside quoted values
+ */
+export const ATTRIBUTE_BLOCK_SOURCE = '\\{(?:[^}"]|"(?:[^"\\\\]|\\\\.)*")*\\}';
+
+export function formatDirectiveAttributes(attributes: DirectiveAttributes): string {
+  const parts = [
+    ...(attributes.id ? [`#${attributes.id}`] : []),
+    ...attributes.classes.map((name) => `.${name}`),
+    ...attributes.elementAttributes.map(([name, value]) => `@${name}=${JSON.stringify(value)}`),
+    ...attributes.parameters.map(
+      ({ name, value, raw }) =>
+        `${name || DEFAULT_PARAMETER_KEY}${raw ? ':xml' : ''}=${JSON.stringify(value)}`
+    ),
+  ];
+  return parts.length > 0 ? `{${parts.join(' ')}}` : '';
+}
+
+/**
+ * Parse a `{...}` attribute block. Unquoted values are accepted so that
+ * hand-written directives such as `{title=Note}` still work.
+ */
+export function parseDirectiveAttributes(source: string | undefined): DirectiveAttributes {
+  const attributes: DirectiveAttributes = {
+    classes: [],
+    parameters: [],
+    elementAttributes: [],
+  };
+  if (!source) return attributes;
+
+  const body = source.trim().replace(/^\{/, '').replace(/\}$/, '');
+  const tokenPattern =
+    /#([^\s}]+)|\.([\w-]+)|(@?[\w.-]+(?::[\w-]+)?)=(?:"((?:[^"\\]|\\.)*)"|([^\s}]+))/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(body)) !== null) {
+    const [, id, className, key, quoted, unquoted] = match;
+    if (id) {
+      attributes.id = id;
+    } else if (className) {
+      attributes.classes.push(className);
+    } else if (key) {
+      const value = quoted !== undefined ? JSON.parse(`"${quoted}"`) : unquoted;
+      if (key.startsWith('@')) {
+        attributes.elementAttributes.push([key.slice(1), value]);
+      } else {
+        const raw = key.endsWith(':xml');
+        const name = raw ? key.slice(0, -':xml'.length) : key;
+        attributes.parameters.push({
+          name: name === DEFAULT_PARAMETER_KEY ? '' : name,
+          value,
+          raw,
+        });
+      }
+    }
+  }
+
+  return attributes;
+}
+
+function namespacePrefix(elementName: string): string {
+  const colon = elementName.indexOf(':');
+  return colon === -1 ? '' : elementName.slice(0, colon + 1);
+}
+
+/**
+ * Directive attributes for a storage element written as a directive (e.g.
+ * `:::layout-cell` or `:time`). The element's own namespace prefix is implied, so
+ * `ac:width` on `ac:image` is written `width`; unprefixed attributes of a
+ * namespaced element are kept as `@name`.
+ */
+export function toDirectiveAttributes(
+  elementName: string,
+  attributes: Record<string, string>
+): DirectiveAttributes {
+  const prefix = namespacePrefix(elementName);
+  const directive: DirectiveAttributes = { classes: [], parameters: [], elementAttributes: [] };
+  for (const [name, value] of Object.entries(attributes)) {
+    if (prefix && !name.includes(':')) {
+      directive.elementAttributes.push([name, value]);
+    } else {
+      const short = prefix && name.startsWith(prefix) ? name.slice(prefix.length) : name;
+      directive.parameters.push({ name: short, value, raw: false });
+    }
+  }
+  return directive;
+}
+
+/**
+ * The element attributes described by `toDirectiveAttributes` output
+ */
+export function fromDirectiveAttributes(
+  elementName: string,
+  attributes: DirectiveAttributes
+): Array<[string, string]> {
+  const prefix = namespacePrefix(elementName);
+  return [
+    ...attributes.parameters
+      .filter(({ name, raw }) => name && !raw)
+      .map(({ name, value }): [string, string] => [
+        name.includes(':') ? name : prefix + name,
+        value,
+      ]),
+    ...attributes.elementAttributes,
+  ];
+}
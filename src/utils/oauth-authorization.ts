@@ -0,0 +1,158 @@
+import { createHash, randomBytes } from 'crypto';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+
+import axios from 'axios';
+
+import { ATLASSIAN_TOKEN_URL } from './oauth.js';
+
+export const ATLASSIAN_AUTHORIZE_URL = 'https://auth.atlassian.com/authorize';
+
+// Classic scopes for the v1 endpoints (search, labels, properties), granular scopes for
+// the v2 page and space endpoints, and offline_access for a refresh token. They must be
+// enabled on the app in the developer console; the login command accepts --scopes otherwise.
+export const DEFAULT_OAUTH_SCOPES = [
+  'read:confluence-content.all',
+  'write:confluence-content',
+  'read:confluence-space.summary',
+  'search:confluence',
+  'read:confluence-props',
+  'write:confluence-props',
+  'read:page:confluence',
+  'write:page:confluence',
+  'read:space:confluence',
+  'read:label:confluence',
+  'write:label:confluence',
+  'offline_access',
+];
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+export interface AuthorizationCodeTokens {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * Generate a PKCE code verifier and its S256 challenge (RFC 7636)
+ */
+export function createPkcePair(): PkcePair {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+/**
+ * Build the Atlassian consent screen URL for the authorization-code flow
+ */
+export function buildAuthorizationUrl(options: {
+  clientId: string;
+  redirectUri: string;
+  scopes: string[];
+  state: string;
+  codeChallenge: string;
+}): string {
+  const url = new URL(ATLASSIAN_AUTHORIZE_URL);
+  url.search = new URLSearchParams({
+    audience: 'api.atlassian.com',
+    client_id: options.clientId,
+    scope: options.scopes.join(' '),
+    redirect_uri: options.redirectUri,
+    state: options.state,
+    response_type: 'code',
+    prompt: 'consent',
+    code_challenge: options.codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+}
+
+/**
+ * Listen on the loopback interface for the authorization redirect and resolve
+ * with the code once a request with the expected state arrives
+ */
+export async function startCallbackListener(options: {
+  port: number;
+  path: string;
+  state: string;
+  timeoutMs: number;
+}): Promise<{ port: number; code: Promise<string> }> {
+  const server = createServer();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, '127.0.0.1', () => resolve());
+  });
+
+  const code = new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      server.close();
+      reject(new Error('Timed out waiting for the authorization callback'));
+    }, options.timeoutMs);
+
+    const finish = (error: Error | null, value?: string) => {
+      clearTimeout(timer);
+      server.close();
+      if (error) reject(error);
+      else resolve(value!);
+    };
+
+    server.on('request', (req, res) => {
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+      if (url.pathname !== options.path) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const error = url.searchParams.get('error');
+      const receivedCode = url.searchParams.get('code');
+      const state = url.searchParams.get('state');
+
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', Connection: 'close' });
+      if (error) {
+        res.end('<p>Authorization failed. You can close this window.</p>');
+        finish(
+          new Error(`Authorization failed: ${url.searchParams.get('error_description') || error}`)
+        );
+      } else if (state !== options.state || !receivedCode) {
+        // Ignore stray or forged requests and keep waiting for the real redirect
+        res.end('<p>Invalid authorization response.</p>');
+      } else {
+        res.end('<p>Authorization complete. You can close this window.</p>');
+        finish(null, receivedCode);
+      }
+    });
+  });
+
+  return { port: (server.address() as AddressInfo).port, code };
+}
+
+/**
+ * Exchange an authorization code (with its PKCE verifier) for tokens
+ */
+export async function exchangeAuthorizationCode(options: {
+  clientId: string;
+  clientSecret: string;
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+}): Promise<AuthorizationCodeTokens> {
+  const response = await axios.post<AuthorizationCodeTokens>(
+    ATLASSIAN_TOKEN_URL,
+    {
+      grant_type: 'authorization_code',
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      code: options.code,
+      redirect_uri: options.redirectUri,
+      code_verifier: options.codeVerifier,
+    },
+    { headers: { 'Content-Type': 'application/json' }, timeout: 30000 }
+  );
+  return response.data;
+}
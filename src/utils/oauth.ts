@@ -0,0 +1,173 @@
+import axios, { isAxiosError } from 'axios';
+
+import { getStoredTokens, saveStoredTokens } from './token-store.js';
+import type { StoredOAuthTokens } from './token-store.js';
+import type { ConfluenceConfig } from '../types/index.js';
+import { ConfluenceError } from '../types/index.js';
+
+export const ATLASSIAN_TOKEN_URL = 'https://auth.atlassian.com/oauth/token';
+
+// Refresh slightly before the reported expiry to avoid racing it
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Current tokens per site, shared by every client created in this process
+const tokenCache = new Map<string, StoredOAuthTokens>();
+const refreshInFlight = new Map<string, Promise<StoredOAuthTokens>>();
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * Whether the config carries everything needed to exchange a refresh token
+ */
+export function canRefreshTokens(config: ConfluenceConfig): boolean {
+  return !!(config.auth.clientId && config.auth.clientSecret && config.auth.refreshToken);
+}
+
+/**
+ * Convert a token endpoint response into the persisted form
+ */
+export function toStoredTokens(
+  response: TokenResponse,
+  previousRefreshToken?: string
+): StoredOAuthTokens {
+  return {
+    accessToken: response.access_token,
+    // Rotating refresh tokens are single use; keep the old one if none was issued
+    refreshToken: response.refresh_token || previousRefreshToken,
+    expiresAt: response.expires_in ? Date.now() + response.expires_in * 1000 : undefined,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Current tokens for a site: this process's latest, then the token store,
+ * then the credentials from the instance configuration
+ */
+async function loadTokens(config: ConfluenceConfig): Promise<StoredOAuthTokens> {
+  const cached = tokenCache.get(config.domain);
+  if (cached) return cached;
+
+  const stored = await getStoredTokens(config.domain);
+  const tokens = stored || {
+    accessToken: config.auth.accessToken || '',
+    refreshToken: config.auth.refreshToken,
+    updatedAt: 0,
+  };
+  tokenCache.set(config.domain, tokens);
+  return tokens;
+}
+
+function applyTokens(config: ConfluenceConfig, tokens: StoredOAuthTokens): void {
+  config.auth.accessToken = tokens.accessToken;
+  config.auth.refreshToken = tokens.refreshToken;
+}
+
+/**
+ * Get a usable access token, refreshing it first when it is known to be expired
+ */
+export async function getAccessToken(config: ConfluenceConfig): Promise<string> {
+  const tokens = await loadTokens(config);
+  applyTokens(config, tokens);
+
+  if (
+    tokens.expiresAt &&
+    tokens.expiresAt - EXPIRY_MARGIN_MS <= Date.now() &&
+    canRefreshTokens(config)
+  ) {
+    return (await refreshAccessToken(config, tokens.accessToken)).accessToken;
+  }
+  return tokens.accessToken;
+}
+
+/**
+ * Exchange the refresh token for a new access token and persist the rotated
+ * pair. Concurrent callers share one exchange, and a caller holding a token
+ * that was already replaced gets the replacement without another exchange.
+ */
+export async function refreshAccessToken(
+  config: ConfluenceConfig,
+  rejectedAccessToken?: string
+): Promise<StoredOAuthTokens> {
+  const current = await loadTokens(config);
+  if (rejectedAccessToken && current.accessToken !== rejectedAccessToken) {
+    applyTokens(config, current);
+    return current;
+  }
+
+  let pending = refreshInFlight.get(config.domain);
+  if (!pending) {
+    pending = exchangeRefreshToken(config, current).finally(() =>
+      refreshInFlight.delete(config.domain)
+    );
+    refreshInFlight.set(config.domain, pending);
+  }
+
+  const tokens = await pending;
+  applyTokens(config, tokens);
+  return tokens;
+}
+
+async function exchangeRefreshToken(
+  config: ConfluenceConfig,
+  current: StoredOAuthTokens
+): Promise<StoredOAuthTokens> {
+  const refreshToken = current.refreshToken || config.auth.refreshToken;
+  if (!config.auth.clientId || !config.auth.clientSecret || !refreshToken) {
+    throw new ConfluenceError(
+      'OAuth access token expired and no refresh token, client ID and client secret are configured',
+      'TOKEN_REFRESH_FAILED'
+    );
+  }
+
+  try {
+    const response = await axios.post<TokenResponse>(
+      ATLASSIAN_TOKEN_URL,
+      {
+        grant_type: 'refresh_token',
+        client_id: config.auth.clientId,
+        client_secret: config.auth.clientSecret,
+        refresh_token: refreshToken,
+      },
+      { headers: { 'Content-Type': 'application/json' }, timeout: 30000 }
+    );
+
+    const tokens = toStoredTokens(response.data, refreshToken);
+    tokenCache.set(config.domain, tokens);
+
+    try {
+      await saveStoredTokens(config.domain, tokens);
+    } catch (error) {
+      // The new tokens still work for this process; warn rather than fail the request
+      console.error(
+        'Failed to persist refreshed OAuth tokens:',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    console.error(`Refreshed OAuth access token for ${config.domain}`);
+    return tokens;
+  } catch (error) {
+    const detail = isAxiosError(error)
+      ? JSON.stringify(error.response?.data) || error.message
+      : error instanceof Error
+        ? error.message
+        : String(error);
+    throw new ConfluenceError(
+      `Failed to refresh OAuth access token: ${detail}`,
+      'TOKEN_REFRESH_FAILED'
+    );
+  }
+}
+
+/**
+ * Forget the in-memory tokens (useful for testing or after re-authorizing)
+ */
+export function clearTokenCache(): void {
+  tokenCache.clear();
+  refreshInFlight.clear();
+}
@@ -0,0 +1,86 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+import {
+  convertAdfToMarkdown,
+  convertMarkdownToAdf,
+  convertStorageToAdf,
+} from './adf-converter.js';
+import { convertMarkdownToStorage, convertStorageToMarkdown } from './content-converter.js';
+import type { AdfDocument, BodyRepresentation, ContentFormat, Page } from '../types/index.js';
+
+export type BodyFormat = 'storage' | 'adf';
+
+/**
+ * Parse an ADF document supplied as a JSON string
+ */
+export function parseAdfDocument(value: string): AdfDocument {
+  let document: any;
+  try {
+    document = JSON.parse(value);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ADF content: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (!document || document.type !== 'doc' || !Array.isArray(document.content)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Invalid ADF content: expected a document with type "doc" and a content array'
+    );
+  }
+  return document;
+}
+
+/**
+ * Convert the page or blog post body returned by the API to Markdown, keeping the raw ADF
+ * document when the page was fetched in that representation
+ */
+export function readPageBody(page: Pick<Page, 'body'>): { markdown: string; adf?: AdfDocument } {
+  if (page.body?.atlas_doc_format?.value) {
+    const adf = parseAdfDocument(page.body.atlas_doc_format.value);
+    return { markdown: convertAdfToMarkdown(adf), adf };
+  }
+  return {
+    markdown: page.body?.storage?.value ? convertStorageToMarkdown(page.body.storage.value) : '',
+  };
+}
+
+/**
+ * Normalize tool content input to the body representation sent to Confluence.
+ * ADF input is always sent as ADF; Markdown and storage input are sent as
+ * storage unless `bodyFormat` asks for ADF.
+ */
+export function toPageBody(
+  content: string,
+  format: ContentFormat = 'storage',
+  bodyFormat: BodyFormat = 'storage'
+): { value: string; representation: BodyRepresentation } {
+  if (format === 'adf') {
+    return {
+      value: JSON.stringify(parseAdfDocument(content)),
+      representation: 'atlas_doc_format',
+    };
+  }
+  if (bodyFormat === 'adf') {
+    const document =
+      format === 'markdown' ? convertMarkdownToAdf(content) : convertStorageToAdf(content);
+    return { value: JSON.stringify(document), representation: 'atlas_doc_format' };
+  }
+  return {
+    value: format === 'markdown' ? convertMarkdownToStorage(content) : content,
+    representation: 'storage',
+  };
+}
+
+/**
+ * Markdown rendering of a body about to be sent, for dry-run diffs
+ */
+export function bodyToMarkdown(body: {
+  value: string;
+  representation: BodyRepresentation;
+}): string {
+  return body.representation === 'atlas_doc_format'
+    ? convertAdfToMarkdown(JSON.parse(body.value))
+    : convertStorageToMarkdown(body.value);
+}
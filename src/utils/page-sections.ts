@@ -0,0 +1,224 @@
+import { parseStorageFormat, serializeStorageFormat, textContent } from './content-converter.js';
+import type { StorageElement, StorageNode } from './content-converter.js';
+import { ConfluenceError } from '../types/index.js';
+
+export type SectionOperation = 'replace' | 'append' | 'prepend' | 'insert-after' | 'delete';
+
+/**
+ * A section is identified either by its heading path (outermost heading first; a
+ * trailing part of the path is enough) or by an anchor on its heading
+ */
+export interface SectionTarget {
+  headingPath?: string[];
+  anchor?: string;
+}
+
+interface Section {
+  path: string[];
+  level: number;
+  // The nodes holding the section: the document's top level or a layout cell
+  nodes: StorageNode[];
+  // Indices into nodes
+  heading: number;
+  contentEnd: number;
+  end: number;
+}
+
+function headingLevel(node: StorageNode): number | undefined {
+  const match = node.type === 'element' ? /^h([1-6])$/i.exec(node.name) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function normalizeHeading(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function isAnchorMacro(element: StorageElement): boolean {
+  return element.name === 'ac:structured-macro' && element.attributes['ac:name'] === 'anchor';
+}
+
+/**
+ * Names of the anchor macros inside a node
+ */
+function anchorNames(node: StorageNode): string[] {
+  if (node.type === 'text') return [];
+  if (isAnchorMacro(node)) {
+    return node.children
+      .filter((child): child is StorageElement => child.type === 'element')
+      .filter((child) => child.name === 'ac:parameter')
+      .map((child) => textContent(child).trim());
+  }
+  return node.children.flatMap(anchorNames);
+}
+
+function isBlankText(node: StorageNode | undefined): boolean {
+  return node?.type === 'text' && node.value.trim() === '';
+}
+
+/**
+ * The node lists that can hold headings: the document's top level and the content of
+ * every layout cell. Pages built with layouts keep all of their content in cells.
+ */
+function sectionContainers(nodes: StorageNode[]): StorageNode[][] {
+  const containers = [nodes];
+  const visit = (node: StorageNode) => {
+    if (node.type !== 'element') return;
+    if (node.name === 'ac:layout-cell') {
+      containers.push(...sectionContainers(node.children));
+    } else if (node.name === 'ac:layout' || node.name === 'ac:layout-section') {
+      node.children.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+  return containers;
+}
+
+/**
+ * Collect the sections formed by the headings of one node list. A section runs
+ * until the next heading of the same or a higher level; its own content ends at
+ * the first subsection.
+ */
+function listContainerSections(nodes: StorageNode[]): Section[] {
+  const sections: Section[] = [];
+  const open: Section[] = [];
+
+  nodes.forEach((node, index) => {
+    const level = headingLevel(node);
+    if (level === undefined) return;
+
+    for (const section of open) {
+      if (section.contentEnd === -1) section.contentEnd = index;
+    }
+    while (open.length > 0 && open[open.length - 1].level >= level) {
+      open.pop()!.end = index;
+    }
+
+    const section: Section = {
+      path: [
+        ...open.map((parent) => parent.path[parent.path.length - 1]),
+        textContent(node).trim(),
+      ],
+      level,
+      nodes,
+      heading: index,
+      contentEnd: -1,
+      end: -1,
+    };
+    sections.push(section);
+    open.push(section);
+  });
+
+  for (const section of sections) {
+    if (section.contentEnd === -1) section.contentEnd = nodes.length;
+    if (section.end === -1) section.end = nodes.length;
+  }
+  return sections;
+}
+
+function matchesPath(section: Section, headingPath: string[]): boolean {
+  if (headingPath.length === 0 || headingPath.length > section.path.length) return false;
+  const tail = section.path.slice(section.path.length - headingPath.length);
+  return tail.every(
+    (part, index) => normalizeHeading(part) === normalizeHeading(headingPath[index])
+  );
+}
+
+/**
+ * An anchor matches an anchor macro in the heading or in the paragraph just before
+ * it, the heading's id, or the anchor Confluence generates from the heading text
+ * (the text without spaces, optionally prefixed with the page title and a dash)
+ */
+function matchesAnchor(section: Section, anchor: string): boolean {
+  const { nodes } = section;
+  const name = anchor.replace(/^#/, '');
+  const heading = nodes[section.heading] as StorageElement;
+
+  let previous = section.heading - 1;
+  while (previous >= 0 && isBlankText(nodes[previous])) previous--;
+  const anchors = [
+    ...anchorNames(heading),
+    ...(previous >= 0 && headingLevel(nodes[previous]) === undefined
+      ? anchorNames(nodes[previous])
+      : []),
+  ];
+  if (anchors.includes(name) || heading.attributes.id === name) return true;
+
+  const generated = textContent(heading).replace(/\s+/g, '');
+  return generated !== '' && (name === generated || name.endsWith(`-${generated}`));
+}
+
+function findSection(nodes: StorageNode[], target: SectionTarget): Section {
+  // Sections never span layout cells, so each cell is outlined on its own
+  const sections = sectionContainers(nodes).flatMap(listContainerSections);
+  const matches = sections.filter((section) =>
+    target.anchor
+      ? matchesAnchor(section, target.anchor)
+      : matchesPath(section, target.headingPath || [])
+  );
+  const description = target.anchor
+    ? `anchor "${target.anchor}"`
+    : `heading path "${(target.headingPath || []).join(' > ')}"`;
+
+  if (matches.length === 0) {
+    const available = sections.map((section) => section.path.join(' > '));
+    throw new ConfluenceError(
+      `No section found for ${description}. Available sections: ${
+        available.length > 0 ? available.join('; ') : 'none (the page has no headings)'
+      }`,
+      'SECTION_NOT_FOUND'
+    );
+  }
+  if (matches.length > 1) {
+    throw new ConfluenceError(
+      `${matches.length} sections match ${description}: ${matches
+        .map((section) => section.path.join(' > '))
+        .join('; ')}. Use a longer heading path or an anchor.`,
+      'MULTIPLE_MATCHES'
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Apply an operation to one section of a storage format document.
+ *
+ * - replace: replace everything under the heading, subsections included
+ * - append: add content at the end of the section's own content, before any subsection
+ * - prepend: add content directly below the heading
+ * - insert-after: add content after the section and all of its subsections
+ * - delete: remove the heading and everything under it
+ *
+ * `content` is storage format and is ignored for delete.
+ */
+export function patchStorageSection(
+  storage: string,
+  target: SectionTarget,
+  operation: SectionOperation,
+  content = ''
+): { storage: string; section: string[] } {
+  const nodes = parseStorageFormat(storage).children;
+  const section = findSection(nodes, target);
+  const inserted = parseStorageFormat(content).children;
+  // Splice within the node list that holds the heading, which may be a layout cell
+  const container = section.nodes;
+
+  switch (operation) {
+    case 'replace':
+      container.splice(section.heading + 1, section.end - section.heading - 1, ...inserted);
+      break;
+    case 'append':
+      container.splice(section.contentEnd, 0, ...inserted);
+      break;
+    case 'prepend':
+      container.splice(section.heading + 1, 0, ...inserted);
+      break;
+    case 'insert-after':
+      container.splice(section.end, 0, ...inserted);
+      break;
+    case 'delete':
+      container.splice(section.heading, section.end - section.heading);
+      break;
+  }
+
+  return { storage: serializeStorageFormat(nodes), section: section.path };
+}
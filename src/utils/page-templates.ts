@@ -0,0 +1,77 @@
+import { readFile } from 'fs/promises';
+import { dirname, extname, isAbsolute, join } from 'path';
+
+import { escapeAttribute } from './content-converter.js';
+import { getConfigPath } from '../config.js';
+import type { PageTemplateConfig } from '../config.js';
+import { ConfluenceError } from '../types/index.js';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Names of the {{variables}} used in a template, in order of first use
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Replace every {{variable}} in a template. Values are XML-escaped for storage
+ * format templates. Variables without a value are an error listing all of them.
+ */
+export function fillTemplate(
+  template: string,
+  variables: Record<string, string>,
+  options: { escapeXml?: boolean } = {}
+): string {
+  const missing = extractTemplateVariables(template).filter((name) => !(name in variables));
+  if (missing.length > 0) {
+    throw new ConfluenceError(
+      `Missing template variables: ${missing.join(', ')}`,
+      'INVALID_REQUEST'
+    );
+  }
+
+  return template.replace(VARIABLE_PATTERN, (_match, name: string) =>
+    options.escapeXml ? escapeAttribute(variables[name]) : variables[name]
+  );
+}
+
+/**
+ * Variables every template can use without passing them
+ */
+export function builtInTemplateVariables(now = new Date()): Record<string, string> {
+  const iso = now.toISOString();
+  return {
+    date: iso.slice(0, 10),
+    time: iso.slice(11, 16),
+    datetime: iso,
+    year: iso.slice(0, 4),
+  };
+}
+
+/**
+ * Read a local template file and work out its format
+ */
+export async function loadTemplateFile(
+  template: PageTemplateConfig
+): Promise<{ content: string; format: 'markdown' | 'storage' }> {
+  if (!template.file) {
+    throw new ConfluenceError('Template has no file', 'INVALID_REQUEST');
+  }
+  const path = isAbsolute(template.file)
+    ? template.file
+    : join(dirname(getConfigPath()), template.file);
+  const extension = extname(path).toLowerCase();
+
+  return {
+    content: await readFile(path, 'utf-8'),
+    format:
+      template.format ||
+      (extension === '.md' || extension === '.markdown' ? 'markdown' : 'storage'),
+  };
+}
@@ -0,0 +1,149 @@
+import { ConfluenceError } from '../types/index.js';
+
+/**
+ * One page of a paginated listing, reduced to what following the pagination needs
+ */
+export interface ResultPage<T> {
+  results: T[];
+  // Cursor of the next page; undefined on the last page
+  nextCursor?: string;
+}
+
+export interface PaginateOptions {
+  // Cursor to start from, e.g. from a previous truncated walk
+  cursor?: string;
+  // Results requested per call (default: 250)
+  pageSize?: number;
+  // Stop after this many results
+  maxItems?: number;
+  // Called before each follow-up request, e.g. to wait out a rate limit window
+  beforeNextPage?: () => Promise<void>;
+}
+
+export interface PaginatedResults<T> {
+  results: T[];
+  // Where to resume; undefined when the listing was read to the end
+  cursor?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 250;
+
+/**
+ * Read the cursor parameter from a `_links.next` URL. The link is relative to the API
+ * base, and the cursor is URL-encoded in it.
+ */
+export function nextCursor(links?: { next?: string }): string | undefined {
+  if (!links?.next) return undefined;
+  return new URL(links.next, 'https://confluence.invalid').searchParams.get('cursor') || undefined;
+}
+
+/**
+ * Where a listing continues, whichever way its API pages: v1 start offsets or v2 cursors
+ */
+export interface CursorPosition {
+  start?: number;
+  cursor?: string;
+}
+
+/**
+ * Wrap a listing position in an opaque cursor, so tools hand out one kind of cursor
+ * whatever the API behind them pages by
+ */
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Read a cursor made by encodeCursor. Bare numbers are start offsets, as the search
+ * tool used to return them.
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  if (/^\d+$/.test(cursor)) {
+    return { start: parseInt(cursor, 10) };
+  }
+
+  let position: unknown;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    position = undefined;
+  }
+  if (position && typeof position === 'object') {
+    const { start, cursor: apiCursor } = position as CursorPosition;
+    if (Number.isInteger(start) && (start as number) >= 0) {
+      return { start };
+    }
+    if (typeof apiCursor === 'string' && apiCursor) {
+      return { cursor: apiCursor };
+    }
+  }
+  throw new ConfluenceError(
+    `Invalid cursor "${cursor}"; pass the cursor from a previous response`,
+    'INVALID_REQUEST'
+  );
+}
+
+/**
+ * Yield every result of a paginated listing, following cursors until the last page or
+ * maxItems. Page sizes shrink near maxItems so the walk always stops on a page boundary,
+ * which makes the returned cursor resume exactly where it stopped.
+ */
+export async function* paginate<T>(
+  fetchPage: (cursor: string | undefined, limit: number) => Promise<ResultPage<T>>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T, string | undefined> {
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+  let cursor = options.cursor;
+  let remaining = options.maxItems ?? Infinity;
+  let first = true;
+
+  while (remaining > 0) {
+    if (!first) await options.beforeNextPage?.();
+    first = false;
+
+    const page = await fetchPage(cursor, Math.min(pageSize, remaining));
+    for (const result of page.results) {
+      yield result;
+    }
+    remaining -= page.results.length;
+    cursor = page.nextCursor;
+    // An empty page would otherwise be followed forever
+    if (!cursor || page.results.length === 0) return cursor;
+  }
+
+  return cursor;
+}
+
+/**
+ * Collect everything a paginate() walk yields, along with the cursor to resume from
+ */
+export async function collectPaginated<T>(
+  pages: AsyncGenerator<T, string | undefined>
+): Promise<PaginatedResults<T>> {
+  const results: T[] = [];
+  for (;;) {
+    const next = await pages.next();
+    if (next.done) {
+      return { results, cursor: next.value };
+    }
+    results.push(next.value);
+  }
+}
+
+// Most results one auto-paginated tool call returns
+export const MAX_ITEMS_LIMIT = 5000;
+
+/**
+ * How many results a list tool should walk for its all/maxItems arguments: all goes
+ * up to MAX_ITEMS_LIMIT, and maxItems on its own also turns auto-pagination on.
+ * Undefined means a single page, as before.
+ */
+export function autoPaginationLimit(args: {
+  all?: boolean;
+  maxItems?: number;
+}): number | undefined {
+  if (args.maxItems !== undefined) {
+    return Math.min(Math.max(Math.floor(args.maxItems), 1), MAX_ITEMS_LIMIT);
+  }
+  return args.all ? MAX_ITEMS_LIMIT : undefined;
+}
@@ -0,0 +1,195 @@
+export interface DiffOperation {
+  type: 'equal' | 'delete' | 'insert';
+  line: string;
+}
+
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+}
+
+// Beyond this many edits the pages have little in common; report a full replacement
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Line diff using Myers' O(ND) algorithm, after trimming the common prefix and suffix
+ */
+export function diffLines(before: string[], after: string[]): DiffOperation[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const equal = (line: string): DiffOperation => ({ type: 'equal', line });
+  return [
+    ...before.slice(0, start).map(equal),
+    ...myersDiff(before.slice(start, endBefore), after.slice(start, endAfter)),
+    ...before.slice(endBefore).map(equal),
+  ];
+}
+
+function myersDiff(a: string[], b: string[]): DiffOperation[] {
+  const deleteAll = a.map((line): DiffOperation => ({ type: 'delete', line }));
+  const insertAll = b.map((line): DiffOperation => ({ type: 'insert', line }));
+  if (a.length === 0 || b.length === 0) {
+    return [...deleteAll, ...insertAll];
+  }
+
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m;
+  const v = new Int32Array(2 * offset + 2);
+  // trace[d] holds the furthest x reached on diagonals -d..d after d edits
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= n + m; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return [...deleteAll, ...insertAll];
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return [...deleteAll, ...insertAll];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const reached = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && reached(k - 1) < reached(k + 1)) ? k + 1 : k - 1;
+    const previousX = reached(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      operations.push({ type: 'equal', line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (x === previousX) {
+      operations.push({ type: 'insert', line: b[y - 1] });
+      y--;
+    } else {
+      operations.push({ type: 'delete', line: a[x - 1] });
+      x--;
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    operations.push({ type: 'equal', line: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return operations.reverse();
+}
+
+/**
+ * Count added and removed lines
+ */
+export function diffStats(operations: DiffOperation[]): DiffStats {
+  return {
+    additions: operations.filter((operation) => operation.type === 'insert').length,
+    deletions: operations.filter((operation) => operation.type === 'delete').length,
+  };
+}
+
+/**
+ * Render a unified diff (as produced by `diff -u`) between two texts.
+ * Returns an empty string when the texts are identical.
+ */
+export function formatUnifiedDiff(
+  before: string,
+  after: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {}
+): string {
+  const context = options.context ?? 3;
+  const operations = diffLines(splitLines(before), splitLines(after));
+
+  const changes = operations
+    .map((operation, index) => (operation.type === 'equal' ? -1 : index))
+    .filter((index) => index !== -1);
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Line numbers (0-based) of each operation in the old and new text
+  const positions: Array<[number, number]> = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const operation of operations) {
+    positions.push([oldLine, newLine]);
+    if (operation.type !== 'insert') oldLine++;
+    if (operation.type !== 'delete') newLine++;
+  }
+
+  // Group changes whose context windows touch into one hunk
+  const groups: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  const lines = [`--- ${options.fromLabel ?? 'before'}`, `+++ ${options.toLabel ?? 'after'}`];
+  for (const [firstChange, lastChange] of groups) {
+    const start = Math.max(0, firstChange - context);
+    const end = Math.min(operations.length, lastChange + context + 1);
+    const hunk = operations.slice(start, end);
+
+    const oldCount = hunk.filter((operation) => operation.type !== 'insert').length;
+    const newCount = hunk.filter((operation) => operation.type !== 'delete').length;
+    const [oldStart, newStart] = positions[start];
+
+    lines.push(
+      `@@ -${oldCount > 0 ? oldStart + 1 : oldStart},${oldCount} +${
+        newCount > 0 ? newStart + 1 : newStart
+      },${newCount} @@`
+    );
+    for (const operation of hunk) {
+      const prefix = operation.type === 'equal' ? ' ' : operation.type === 'delete' ? '-' : '+';
+      lines.push(`${prefix}${operation.line}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Split text into lines; an empty text has no lines
+ */
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
@@ -0,0 +1,118 @@
+import { diffLines } from './text-diff.js';
+import type { DiffOperation } from './text-diff.js';
+
+export interface MergeConflict {
+  // 1-based line in the base text where the clashing changes start
+  baseLine: number;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+export interface MergeResult {
+  // Merged lines; conflicting regions keep their version
+  lines: string[];
+  conflicts: MergeConflict[];
+}
+
+interface Hunk {
+  side: 'ours' | 'theirs';
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+/**
+ * Group a diff against the base into hunks that replace base[baseStart, baseEnd)
+ */
+function toHunks(operations: DiffOperation[], side: Hunk['side']): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseIndex = 0;
+  let current: Hunk | undefined;
+
+  for (const operation of operations) {
+    if (operation.type === 'equal') {
+      current = undefined;
+      baseIndex++;
+      continue;
+    }
+    if (!current) {
+      current = { side, baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+      hunks.push(current);
+    }
+    if (operation.type === 'delete') {
+      baseIndex++;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(operation.line);
+    }
+  }
+
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+/**
+ * Three-way merge of two edits of a common base (diff3 style). Changes that
+ * overlap or touch are a conflict unless both sides made the same change.
+ */
+export function mergeThreeWay(base: string[], ours: string[], theirs: string[]): MergeResult {
+  const hunks = [
+    ...toHunks(diffLines(base, ours), 'ours'),
+    ...toHunks(diffLines(base, theirs), 'theirs'),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const lines: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let position = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    // Collect every hunk that overlaps or touches the region started by this one
+    const region = [hunks[index++]];
+    const start = region[0].baseStart;
+    let end = region[0].baseEnd;
+    while (index < hunks.length && hunks[index].baseStart <= end) {
+      end = Math.max(end, hunks[index].baseEnd);
+      region.push(hunks[index++]);
+    }
+
+    lines.push(...base.slice(position, start));
+    position = end;
+
+    const oursHunks = region.filter((hunk) => hunk.side === 'ours');
+    const theirsHunks = region.filter((hunk) => hunk.side === 'theirs');
+    const theirLines = applyHunks(base, start, end, theirsHunks);
+    if (oursHunks.length === 0) {
+      lines.push(...theirLines);
+      continue;
+    }
+
+    const ourLines = applyHunks(base, start, end, oursHunks);
+    if (theirsHunks.length === 0 || ourLines.join('\n') === theirLines.join('\n')) {
+      lines.push(...ourLines);
+      continue;
+    }
+
+    conflicts.push({
+      baseLine: start + 1,
+      base: base.slice(start, end),
+      ours: ourLines,
+      theirs: theirLines,
+    });
+    lines.push(...theirLines);
+  }
+
+  lines.push(...base.slice(position));
+  return { lines, conflicts };
+}
@@ -0,0 +1,42 @@
+import { ConfluenceError } from '../types/index.js';
+
+export interface TitleRule {
+  find: string;
+  replace: string;
+  // Treat find as a regular expression; replace may then refer to groups as $1
+  regex?: boolean;
+}
+
+export interface TitleRewrite {
+  rules?: TitleRule[];
+  prefix?: string;
+  suffix?: string;
+}
+
+/**
+ * Rewrite a title by applying every rule in order (each replacing all matches),
+ * then adding the prefix and suffix
+ */
+export function rewriteTitle(title: string, rewrite: TitleRewrite = {}): string {
+  let result = title;
+  for (const rule of rewrite.rules || []) {
+    if (!rule.regex) {
+      result = result.split(rule.find).join(rule.replace);
+      continue;
+    }
+
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(rule.find, 'g');
+    } catch (error) {
+      throw new ConfluenceError(
+        `Invalid title rule pattern "${rule.find}": ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        'INVALID_REQUEST'
+      );
+    }
+    result = result.replace(pattern, rule.replace);
+  }
+  return `${rewrite.prefix || ''}${result}${rewrite.suffix || ''}`;
+}
@@ -0,0 +1,72 @@
+import { chmod, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+export interface StoredOAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  // Epoch milliseconds at which the access token expires
+  expiresAt?: number;
+  updatedAt: number;
+}
+
+interface TokenStoreFile {
+  tokens: Record<string, StoredOAuthTokens>;
+}
+
+/**
+ * Rotated OAuth tokens are kept apart from .confluence-config.json so the
+ * config stays hand-editable and can be shared without live credentials
+ */
+export function getTokenStorePath(): string {
+  return process.env.CONFLUENCE_TOKEN_STORE || join(homedir(), '.confluence-tokens.json');
+}
+
+async function readTokenStore(): Promise<TokenStoreFile> {
+  let data: string;
+  try {
+    data = await readFile(getTokenStorePath(), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { tokens: {} };
+    }
+    throw error;
+  }
+
+  // A corrupted store is treated as empty; the next token refresh rewrites it
+  try {
+    const store = JSON.parse(data) as TokenStoreFile;
+    return { tokens: store?.tokens || {} };
+  } catch (error) {
+    console.warn(
+      `Ignoring unreadable token store ${getTokenStorePath()}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    return { tokens: {} };
+  }
+}
+
+/**
+ * Get the persisted tokens for a Confluence site, if any
+ */
+export async function getStoredTokens(domain: string): Promise<StoredOAuthTokens | undefined> {
+  const store = await readTokenStore();
+  return store.tokens[domain];
+}
+
+/**
+ * Persist rotated tokens for a Confluence site. The file is only readable by
+ * the current user (0600) and replaced atomically so a crash never leaves a
+ * truncated store behind.
+ */
+export async function saveStoredTokens(domain: string, tokens: StoredOAuthTokens): Promise<void> {
+  const path = getTokenStorePath();
+  const store = await readTokenStore();
+  store.tokens[domain] = tokens;
+
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(store, null, 2), { mode: 0o600 });
+  await chmod(tempPath, 0o600);
+  await rename(tempPath, path);
+}